@@ -0,0 +1,488 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ChatCompletionContentPart } from 'openai/resources/chat/completions';
+import * as db from './db';
+import type { ChatHistory, Conversation, GeminiMessage, GeminiPart, OpenAIMessage, StoredAttachment } from './db';
+
+// Files sent with a message: images, PDFs and text or code files.
+
+// A file attached to a message. Text files are sent as text; images and
+// PDFs are stored in IndexedDB and referenced by id, or PDFs are sent as
+// their extracted text for providers that cannot read them.
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  // The stored content, for images and PDFs.
+  id?: string;
+  // Base64-encoded content, for images and PDFs not stored yet.
+  data?: string;
+  // The content as text, for text files and extracted PDFs.
+  text?: string;
+}
+
+// How much storage attachments take up, and how much of it no
+// conversation uses any more.
+export interface AttachmentStorage {
+  count: number;
+  bytes: number;
+  orphaned: StoredAttachment[];
+  orphanedBytes: number;
+}
+
+export const MAX_ATTACHMENTS = 10;
+// Gemini's limit for inline data in a request.
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Extracted PDF text beyond this is cut off.
+const MAX_EXTRACTED_CHARS = 200_000;
+// Longest side of an image thumbnail, in pixels.
+const THUMBNAIL_SIZE = 400;
+
+// Loaded on first use, only when a PDF goes to a provider that cannot read it.
+const PDFJS_URL = 'https://esm.sh/pdfjs-dist@4.10.38';
+const PDFJS_WORKER_URL = 'https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs';
+
+// Types that are text without a `text/` MIME type.
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/x-javascript', 'application/typescript', 'application/x-sh', 'application/x-yaml', 'application/yaml', 'application/toml', 'application/sql'];
+// Extensions of text and code files.
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'html', 'css', 'js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'swift', 'sh', 'bash', 'sql', 'yaml', 'yml', 'toml', 'ini', 'cfg', 'conf', 'log', 'env'];
+
+const ATTACHMENT_HEADER = /^\[Attachment: ([^\]\n]+)\]\n/;
+// A stored attachment as referenced in a history: `attachment:<type>;<id>`,
+// in the places that otherwise hold a data URL.
+const ATTACHMENT_REF = /^attachment:([^;,]+);([0-9a-f]{64})$/;
+const DATA_URL = /^data:([^;,]+);base64,(.*)$/s;
+// Set once the histories saved before attachments were stored separately
+// have been moved over.
+const MIGRATION_SETTING = 'attachmentsMigrated';
+
+// Extracted text per stored PDF, so each is only extracted once.
+const extractedText = new Map<string, Promise<string>>();
+// Thumbnails and object URLs of stored attachments shown in the chat.
+const thumbnailUrls = new Map<string, Promise<string | null>>();
+const objectUrls = new Map<string, Promise<string | null>>();
+
+function isPdf(mimeType: string): boolean {
+  return mimeType === 'application/pdf';
+}
+
+// Code files are matched by extension too, since browsers give them an
+// empty or unrelated type (`.ts` is often `video/mp2t`).
+function isTextFile(file: File): boolean {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  if (file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type)) return true;
+  return TEXT_EXTENSIONS.includes(extension) && !file.type.startsWith('image/') && !isPdf(file.type);
+}
+
+/**
+ * Checks whether a file can be attached, returning a description of the
+ * problem or null if it can.
+ */
+export function attachmentProblem(file: File): string | null {
+  if (!file.type.startsWith('image/') && !isPdf(file.type) && !isTextFile(file)) {
+    return `${file.name}: only images, PDFs and text or code files can be attached.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+}
+
+/**
+ * Draws a small copy of an image, or returns undefined if the browser
+ * cannot decode it.
+ */
+async function makeThumbnail(blob: Blob): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/webp', 0.8);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stores content in IndexedDB under its hash, so the same file attached
+ * twice is stored once.
+ * @returns The id to reference it by.
+ */
+async function storeContent(bytes: Uint8Array, mimeType: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  const id = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  if (!await db.getAttachment(id)) {
+    const blob = new Blob([bytes], { type: mimeType });
+    const thumbnail = mimeType.startsWith('image/') ? await makeThumbnail(blob) : undefined;
+    await db.saveAttachment({ id, mimeType, size: bytes.length, blob, thumbnail, createdAt: Date.now() });
+  }
+  return id;
+}
+
+/**
+ * Reads a file into an attachment. Images and PDFs are stored in IndexedDB.
+ * @throws If the file cannot be attached or read.
+ */
+export async function readAttachment(file: File): Promise<Attachment> {
+  const problem = attachmentProblem(file);
+  if (problem) throw new Error(problem);
+  if (isTextFile(file)) {
+    // Sent as text to every provider.
+    const typed = file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type);
+    return { name: file.name, mimeType: typed ? file.type : 'text/plain', text: await file.text() };
+  }
+  return { name: file.name, mimeType: file.type, id: await storeContent(new Uint8Array(await file.arrayBuffer()), file.type) };
+}
+
+/**
+ * Loads the content of a stored attachment as base64, or null if it is
+ * no longer stored.
+ */
+async function loadData(id: string): Promise<string | null> {
+  const stored = await db.getAttachment(id);
+  return stored ? toBase64(new Uint8Array(await stored.blob.arrayBuffer())) : null;
+}
+
+/**
+ * Extracts the text of a PDF with pdf.js.
+ */
+async function extractPdfText(data: string): Promise<string> {
+  const pdfjs = await import(/* @vite-ignore */ PDFJS_URL);
+  pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+  const document = await pdfjs.getDocument({ data: fromBase64(data) }).promise;
+  const pages: string[] = [];
+  for (let number = 1; number <= document.numPages; number++) {
+    const content = await (await document.getPage(number)).getTextContent();
+    pages.push(content.items.map((item: { str?: string }) => item.str ?? '').join(' '));
+  }
+  const text = pages.join('\n\n');
+  return text.length > MAX_EXTRACTED_CHARS ? `${text.slice(0, MAX_EXTRACTED_CHARS)}\n[Truncated]` : text;
+}
+
+/**
+ * Readies attachments for a provider. PDFs become their extracted text
+ * for providers that cannot read them.
+ * @param acceptsPdf Whether the provider reads PDFs sent as data.
+ */
+export async function prepareAttachments(attachments: Attachment[], acceptsPdf: boolean): Promise<Attachment[]> {
+  return Promise.all(attachments.map(async attachment => {
+    if (!isPdf(attachment.mimeType) || acceptsPdf || attachment.text !== undefined) return attachment;
+    const key = attachment.id ?? attachment.data ?? '';
+    let text = extractedText.get(key);
+    if (!text) {
+      text = (async () => {
+        const data = attachment.data ?? (attachment.id ? await loadData(attachment.id) : null);
+        if (data === null) throw new Error(`${attachment.name} is no longer stored.`);
+        return extractPdfText(data);
+      })();
+      // Inline PDFs are not worth keeping: they are not stored either.
+      if (attachment.id) extractedText.set(key, text);
+      // Let a failed extraction be tried again.
+      text.catch(() => extractedText.delete(key));
+    }
+    return { name: attachment.name, mimeType: attachment.mimeType, text: await text };
+  }));
+}
+
+/**
+ * Formats a text attachment as it is sent to the model: a header naming
+ * the file, then its content.
+ */
+export function attachmentText(attachment: Attachment): string {
+  return `[Attachment: ${attachment.name}]\n${attachment.text ?? ''}\n[End of ${attachment.name}]`;
+}
+
+/**
+ * Recognizes a text part written by `attachmentText`.
+ */
+export function parseAttachmentText(text: string): { name: string; text: string } | null {
+  const match = text.match(ATTACHMENT_HEADER);
+  if (!match) return null;
+  const name = match[1];
+  const footer = `\n[End of ${name}]`;
+  const body = text.slice(match[0].length);
+  return { name, text: body.endsWith(footer) ? body.slice(0, -footer.length) : body };
+}
+
+/**
+ * Returns the URL a history keeps for an attachment sent as data: a
+ * reference if it is stored, a data URL otherwise.
+ */
+export function attachmentUrl(attachment: Attachment): string {
+  return attachment.id
+    ? `attachment:${attachment.mimeType};${attachment.id}`
+    : `data:${attachment.mimeType};base64,${attachment.data ?? ''}`;
+}
+
+/**
+ * Parses a data URL or an attachment reference.
+ */
+export function parseAttachmentUrl(url: string): { mimeType: string; id?: string; data?: string } | null {
+  const ref = url.match(ATTACHMENT_REF);
+  if (ref) return { mimeType: ref[1], id: ref[2] };
+  const data = url.match(DATA_URL);
+  return data ? { mimeType: data[1], data: data[2] } : null;
+}
+
+/**
+ * Rebuilds an attachment from its URL, e.g. one shown in the chat.
+ */
+export function attachmentFromUrl(name: string, url: string): Attachment | null {
+  const parsed = parseAttachmentUrl(url);
+  return parsed ? { name, ...parsed } : null;
+}
+
+/**
+ * Returns a URL to show an image attachment with: the stored thumbnail for
+ * a reference, the URL itself otherwise. Null if it is no longer stored.
+ */
+export function attachmentPreviewUrl(url: string): Promise<string | null> {
+  const id = parseAttachmentUrl(url)?.id;
+  if (!id) return Promise.resolve(url);
+  let preview = thumbnailUrls.get(id);
+  if (!preview) {
+    preview = db.getAttachment(id).then(stored => stored ? stored.thumbnail ?? URL.createObjectURL(stored.blob) : null);
+    thumbnailUrls.set(id, preview);
+  }
+  return preview;
+}
+
+/**
+ * Returns a URL to open or download an attachment with in full: an object
+ * URL for a reference, the URL itself otherwise. Null if it is no longer
+ * stored.
+ */
+export function attachmentOpenUrl(url: string): Promise<string | null> {
+  const id = parseAttachmentUrl(url)?.id;
+  if (!id) return Promise.resolve(url);
+  let objectUrl = objectUrls.get(id);
+  if (!objectUrl) {
+    objectUrl = db.getAttachment(id).then(stored => stored ? URL.createObjectURL(stored.blob) : null);
+    objectUrls.set(id, objectUrl);
+  }
+  return objectUrl;
+}
+
+// --- Histories ---
+
+// Replaces the URL of an attachment in a history: returns the new URL, the
+// same one to leave it, or null if the attachment is gone.
+type UrlMapper = (url: string) => Promise<string | null>;
+
+function unavailableText(name: string): string {
+  return `[Attachment unavailable: ${name}]`;
+}
+
+/**
+ * Builds the Gemini part for an attachment URL.
+ */
+function toGeminiMediaPart(url: string, name?: string): GeminiPart {
+  const parsed = parseAttachmentUrl(url);
+  if (parsed?.data !== undefined) return { inlineData: { mimeType: parsed.mimeType, data: parsed.data } };
+  if (parsed?.id) return { fileData: { mimeType: parsed.mimeType, fileUri: url, ...(name && { displayName: name }) } };
+  return { text: unavailableText(name ?? url) };
+}
+
+/**
+ * Rewrites the URL of every image and file in a history, in either
+ * format. Entries without attachments are returned as they are.
+ */
+async function mapAttachmentUrls(history: ChatHistory, map: UrlMapper): Promise<ChatHistory> {
+  return Promise.all(history.map(async (entry): Promise<GeminiMessage | OpenAIMessage> => {
+    if ('parts' in entry && Array.isArray(entry.parts)) {
+      const message = entry as GeminiMessage;
+      if (!message.parts.some(part => part.inlineData || part.fileData)) return message;
+      const parts = await Promise.all(message.parts.map(async (part): Promise<GeminiPart> => {
+        const url = part.inlineData
+          ? `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
+          : part.fileData?.fileUri;
+        if (!url) return part;
+        const name = part.fileData?.displayName;
+        const mapped = await map(url);
+        if (mapped === url) return part;
+        return mapped === null ? { text: unavailableText(name ?? parseAttachmentUrl(url)?.mimeType ?? 'file') } : toGeminiMediaPart(mapped, name);
+      }));
+      return { ...message, parts };
+    }
+    const message = entry as OpenAIMessage;
+    if (message.role !== 'user' || !Array.isArray(message.content)) return message;
+    if (!message.content.some(part => part.type === 'image_url' || part.type === 'file')) return message;
+    const content = await Promise.all(message.content.map(async (part): Promise<ChatCompletionContentPart> => {
+      if (part.type === 'image_url') {
+        const mapped = await map(part.image_url.url);
+        return mapped === null ? { type: 'text', text: unavailableText('image') } : { ...part, image_url: { ...part.image_url, url: mapped } };
+      }
+      if (part.type === 'file' && part.file.file_data) {
+        const mapped = await map(part.file.file_data);
+        return mapped === null ? { type: 'text', text: unavailableText(part.file.filename ?? 'file') } : { ...part, file: { ...part.file, file_data: mapped } };
+      }
+      return part;
+    }));
+    return { ...message, content };
+  }));
+}
+
+/**
+ * Lists the ids of the stored attachments a history references.
+ */
+export function historyAttachmentIds(history: ChatHistory): string[] {
+  const ids: string[] = [];
+  const add = (url: string | undefined) => {
+    const id = url ? parseAttachmentUrl(url)?.id : undefined;
+    if (id) ids.push(id);
+  };
+  for (const entry of history) {
+    if ('parts' in entry && Array.isArray(entry.parts)) {
+      for (const part of (entry as GeminiMessage).parts) add(part.fileData?.fileUri);
+    } else {
+      const message = entry as OpenAIMessage;
+      if (message.role !== 'user' || !Array.isArray(message.content)) continue;
+      for (const part of message.content) {
+        if (part.type === 'image_url') add(part.image_url.url);
+        if (part.type === 'file') add(part.file.file_data);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Puts the content of referenced attachments into a history, as the
+ * provider expects it. Done only for the request, so the history that is
+ * kept and saved stays small. Attachments that are no longer stored become
+ * a note saying so.
+ */
+export function resolveAttachments(history: ChatHistory): Promise<ChatHistory> {
+  return mapAttachmentUrls(history, async url => {
+    const parsed = parseAttachmentUrl(url);
+    if (!parsed?.id) return url;
+    const data = await loadData(parsed.id);
+    return data === null ? null : `data:${parsed.mimeType};base64,${data}`;
+  });
+}
+
+/**
+ * Moves the images and files embedded in a history into IndexedDB,
+ * replacing them with references.
+ */
+export function storeAttachments(history: ChatHistory): Promise<ChatHistory> {
+  return mapAttachmentUrls(history, async url => {
+    const parsed = parseAttachmentUrl(url);
+    if (parsed?.data === undefined) return url;
+    const id = await storeContent(fromBase64(parsed.data), parsed.mimeType);
+    return attachmentUrl({ name: '', mimeType: parsed.mimeType, id });
+  });
+}
+
+/**
+ * Applies a history rewrite to a conversation's history and every branch.
+ */
+async function mapConversation(conversation: Conversation, map: (history: ChatHistory) => Promise<ChatHistory>): Promise<Conversation> {
+  const result: Conversation = { ...conversation, history: await map(conversation.history) };
+  if (conversation.tree) {
+    const nodes = await Promise.all(Object.values(conversation.tree.nodes).map(async node => ({ ...node, entries: await map(node.entries) })));
+    result.tree = {
+      ...conversation.tree,
+      preamble: await map(conversation.tree.preamble),
+      nodes: Object.fromEntries(nodes.map(node => [node.id, node])),
+    };
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of a conversation with its attachments embedded, e.g. for
+ * an export that has to stand on its own.
+ */
+export function embedConversationAttachments(conversation: Conversation): Promise<Conversation> {
+  return mapConversation(conversation, resolveAttachments);
+}
+
+/**
+ * Returns a copy of a conversation with its embedded attachments stored,
+ * e.g. for an import.
+ */
+export function storeConversationAttachments(conversation: Conversation): Promise<Conversation> {
+  return mapConversation(conversation, storeAttachments);
+}
+
+/**
+ * Lists the ids of the stored attachments a conversation references, on
+ * any branch.
+ */
+function conversationAttachmentIds(conversation: Conversation): string[] {
+  const histories = [conversation.history, ...Object.values(conversation.tree?.nodes ?? {}).map(node => node.entries)];
+  return histories.flatMap(historyAttachmentIds);
+}
+
+/**
+ * Moves the images and PDFs of conversations saved before attachments
+ * were stored separately into IndexedDB. Runs once.
+ * @returns How many conversations were rewritten.
+ */
+export async function migrateEmbeddedAttachments(): Promise<number> {
+  if (await db.getSetting<boolean>(MIGRATION_SETTING)) return 0;
+  let migrated = 0;
+  for (const conversation of await db.listAllConversations()) {
+    const stored = await storeConversationAttachments(conversation);
+    if (JSON.stringify(stored) !== JSON.stringify(conversation)) {
+      await db.saveConversation(stored);
+      migrated++;
+    }
+  }
+  await db.saveSetting(MIGRATION_SETTING, true);
+  return migrated;
+}
+
+/**
+ * Works out how much storage attachments take up and which ones no
+ * conversation references any more.
+ * @param keep Ids in use that may not be saved yet, e.g. by the history of
+ * a request still running.
+ */
+export async function getAttachmentStorage(keep: string[] = []): Promise<AttachmentStorage> {
+  const [attachments, conversations] = await Promise.all([db.listAttachments(), db.listAllConversations()]);
+  const referenced = new Set([...keep, ...conversations.flatMap(conversationAttachmentIds)]);
+  const orphaned = attachments.filter(attachment => !referenced.has(attachment.id));
+  return {
+    count: attachments.length,
+    bytes: attachments.reduce((sum, attachment) => sum + attachment.size, 0),
+    orphaned,
+    orphanedBytes: orphaned.reduce((sum, attachment) => sum + attachment.size, 0),
+  };
+}
+
+/**
+ * Deletes the stored attachments no conversation references.
+ * @param keep Ids to keep anyway, as for `getAttachmentStorage`.
+ * @returns How many were deleted.
+ */
+export async function deleteOrphanedAttachments(keep: string[] = []): Promise<number> {
+  const { orphaned } = await getAttachmentStorage(keep);
+  await db.deleteAttachments(orphaned.map(attachment => attachment.id));
+  for (const { id } of orphaned) {
+    extractedText.delete(id);
+    thumbnailUrls.delete(id);
+    objectUrls.get(id)?.then(url => url && URL.revokeObjectURL(url));
+    objectUrls.delete(id);
+  }
+  return orphaned.length;
+}
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Slash commands typed into the chat input, e.g. `/persona Kara`, and the
+// autocomplete and input history that go with them.
+
+// A suggestion in the autocomplete popup.
+export interface Completion {
+  // Replaces the word being typed when the suggestion is picked.
+  value: string;
+  label: string;
+  detail?: string;
+}
+
+export interface Command {
+  // Typed after the slash, e.g. 'persona'.
+  name: string;
+  aliases?: string[];
+  // The arguments as shown by /help, e.g. '<name>'.
+  usage?: string;
+  description: string;
+  /**
+   * Suggests values for the argument being typed.
+   * @param argument Everything typed after the command name.
+   */
+  complete?(argument: string): Completion[];
+  /**
+   * Runs the command.
+   * @throws If the arguments are wrong or the command fails; the message is
+   * shown to the operator.
+   */
+  run(args: string): void | Promise<void>;
+}
+
+// Suggestions for the end of the input: they replace `input.slice(start)`.
+export interface CompletionResult {
+  start: number;
+  items: Completion[];
+}
+
+// Inputs kept for recall with the arrow keys.
+const MAX_INPUT_HISTORY = 100;
+
+// --- Registry ---
+
+const registry = new Map<string, Command>();
+
+/**
+ * Registers a command, replacing any command with the same name.
+ * Registration order is the order /help lists them in.
+ */
+export function registerCommand(command: Command) {
+  registry.set(command.name.toLowerCase(), command);
+}
+
+/**
+ * Finds a command by name or alias, ignoring case.
+ */
+export function getCommand(name: string): Command | undefined {
+  const key = name.toLowerCase();
+  return registry.get(key) ?? listCommands().find(command => command.aliases?.some(alias => alias.toLowerCase() === key));
+}
+
+export function listCommands(): Command[] {
+  return Array.from(registry.values());
+}
+
+// --- Parsing ---
+
+/**
+ * Splits a command line into the command name and its arguments, or
+ * returns null if the input is not a command.
+ */
+export function parseCommand(input: string): { name: string; args: string } | null {
+  const match = input.match(/^\/(\S*)\s*(.*)$/s);
+  return match ? { name: match[1], args: match[2].trim() } : null;
+}
+
+/**
+ * Runs a command line.
+ * @throws If the command is unknown or fails.
+ */
+export async function runCommand(input: string): Promise<void> {
+  const parsed = parseCommand(input);
+  if (!parsed) throw new Error(`Not a command: ${input}`);
+  const command = getCommand(parsed.name);
+  if (!command) {
+    throw new Error(`Unknown command: /${parsed.name}. Type /help for a list of commands.`);
+  }
+  await command.run(parsed.args);
+}
+
+/**
+ * Formats a command as /help shows it, e.g. `/persona <name>`.
+ */
+export function commandSignature(command: Command): string {
+  return command.usage ? `/${command.name} ${command.usage}` : `/${command.name}`;
+}
+
+// --- Autocomplete ---
+
+/**
+ * Keeps the options that start with what was typed, ignoring case.
+ */
+export function completeFrom(options: Completion[], typed: string): Completion[] {
+  const prefix = typed.toLowerCase();
+  return options.filter(option => option.value.toLowerCase().startsWith(prefix));
+}
+
+/**
+ * Suggests completions for the input: command names after a leading `/`,
+ * then the command's arguments, or agent names after a leading `@`.
+ * @param agents Names of the agents that can be mentioned.
+ * @returns Null if there is nothing to suggest.
+ */
+export function completeInput(input: string, agents: Completion[]): CompletionResult | null {
+  const name = input.match(/^\/(\S*)$/);
+  if (name) {
+    const prefix = name[1].toLowerCase();
+    const items = listCommands()
+      .filter(command => [command.name, ...command.aliases ?? []].some(n => n.toLowerCase().startsWith(prefix)))
+      .map(command => ({ value: `/${command.name} `, label: commandSignature(command), detail: command.description }));
+    return items.length > 0 ? { start: 0, items } : null;
+  }
+
+  const args = input.match(/^\/(\S+)\s+(.*)$/s);
+  if (args) {
+    const items = getCommand(args[1])?.complete?.(args[2]) ?? [];
+    return items.length > 0 ? { start: input.length - args[2].length, items } : null;
+  }
+
+  const mention = input.match(/^@(\w*)$/);
+  if (mention) {
+    const items = completeFrom(agents, mention[1]).map(agent => ({ ...agent, value: `@${agent.value} ` }));
+    return items.length > 0 ? { start: 0, items } : null;
+  }
+  return null;
+}
+
+// --- Input history ---
+
+/**
+ * The inputs sent from the chat box, recalled with the up and down arrows
+ * like a shell history.
+ */
+export class InputHistory {
+  // Index of the entry shown; `entries.length` when none is.
+  private position: number;
+  // What was typed before browsing, shown again after the newest entry.
+  private draft = '';
+
+  constructor(private entries: string[] = []) {
+    this.entries = entries.slice(-MAX_INPUT_HISTORY);
+    this.position = this.entries.length;
+  }
+
+  /**
+   * Adds a sent input, unless it repeats the previous one, and stops
+   * browsing.
+   */
+  add(input: string) {
+    const text = input.trim();
+    if (text && this.entries[this.entries.length - 1] !== text) {
+      this.entries.push(text);
+      if (this.entries.length > MAX_INPUT_HISTORY) this.entries.shift();
+    }
+    this.position = this.entries.length;
+    this.draft = '';
+  }
+
+  /**
+   * Steps back to the previous input.
+   * @param current The input as typed, kept to come back to.
+   * @returns Null if there is no older input.
+   */
+  previous(current: string): string | null {
+    if (this.position === 0) return null;
+    if (this.position === this.entries.length) this.draft = current;
+    this.position--;
+    return this.entries[this.position];
+  }
+
+  /**
+   * Steps forward to the next input, and finally to what was typed before
+   * browsing.
+   * @returns Null if not browsing.
+   */
+  next(): string | null {
+    if (this.position >= this.entries.length) return null;
+    this.position++;
+    return this.position === this.entries.length ? this.draft : this.entries[this.position];
+  }
+
+  list(): string[] {
+    return [...this.entries];
+  }
+}
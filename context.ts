@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { splitExchanges } from './db';
+import type { ChatHistory, ContextCompaction, GeminiMessage, GeminiPart, OpenAIMessage } from './db';
+import { detectHistoryFormat, toDisplayMessages } from './history-convert';
+import { matchesModel } from './usage';
+
+// Keeps the history sent to a model within its context window. Only the
+// request is cut down; the stored history stays complete.
+
+export type ContextStrategy = 'none' | 'window' | 'drop-images' | 'summarize';
+
+export interface ContextSettings {
+  // What to do once the history outgrows the limit:
+  // - window: leave out the oldest exchanges.
+  // - drop-images: send older exchanges without their images, then leave
+  //   out the oldest ones if that is not enough.
+  // - summarize: replace older exchanges with a summary written by the
+  //   provider, reused until it no longer suffices.
+  strategy: ContextStrategy;
+  // Share of the model's context window the history may fill.
+  limitPercent: number;
+  // The most recent exchanges, which are always sent as they are.
+  keepExchanges: number;
+}
+
+// The context window of a model, for estimating what fits.
+export interface ContextWindow {
+  // A model name. `*` matches any run of characters.
+  model: string;
+  contextTokens: number;
+  // What one image costs in input tokens.
+  imageTokens: number;
+}
+
+// Tried in order; the first match wins.
+export const CONTEXT_WINDOWS: readonly ContextWindow[] = [
+  { model: 'gemini-*', contextTokens: 1_048_576, imageTokens: 258 },
+  { model: 'gpt-4.1*', contextTokens: 1_047_576, imageTokens: 765 },
+  { model: 'gpt-4o*', contextTokens: 128_000, imageTokens: 765 },
+  // Small, so the strategies can be tried offline.
+  { model: 'mock-script', contextTokens: 4_000, imageTokens: 258 },
+  // Local models are often served with a short context.
+  { model: '*', contextTokens: 8_192, imageTokens: 765 },
+];
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  strategy: 'window',
+  limitPercent: 80,
+  keepExchanges: 4,
+};
+
+// Sent in place of the summarized exchanges.
+const SUMMARY_HEADER = '[Summary of the earlier conversation, which is no longer sent in full]';
+const SUMMARY_ACKNOWLEDGEMENT = 'Understood. I will continue from this summary.';
+// Roughly four characters per token, as with most tokenizers on English.
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators around each message.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// One exchange and the history index it starts at.
+interface Exchange {
+  start: number;
+  entries: ChatHistory;
+  // Images replaced with a placeholder in `entries`.
+  omittedImages: number;
+}
+
+/**
+ * Finds the context window of a model.
+ */
+export function findContextWindow(model: string): ContextWindow {
+  return CONTEXT_WINDOWS.find(window => matchesModel(window.model, model)) ?? CONTEXT_WINDOWS[CONTEXT_WINDOWS.length - 1];
+}
+
+/**
+ * Returns how many tokens the history may use under the settings.
+ */
+export function contextLimit(window: ContextWindow, settings: ContextSettings): number {
+  return Math.floor(window.contextTokens * settings.limitPercent / 100);
+}
+
+/**
+ * Estimates the input tokens of a history entry in either format.
+ */
+function estimateEntryTokens(entry: GeminiMessage | OpenAIMessage, window: ContextWindow): number {
+  let chars = 0;
+  let images = 0;
+  if ('parts' in entry && Array.isArray(entry.parts)) {
+    for (const part of (entry as GeminiMessage).parts) {
+      chars += part.text?.length ?? 0;
+      if (part.inlineData || part.fileData) images++;
+      if (part.functionCall) chars += part.functionCall.name.length + JSON.stringify(part.functionCall.args ?? {}).length;
+      if (part.functionResponse) chars += JSON.stringify(part.functionResponse.response ?? {}).length;
+    }
+  } else {
+    const message = entry as OpenAIMessage;
+    if (typeof message.content === 'string') {
+      chars += message.content.length;
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        // PDFs are counted like images.
+        if (part.type === 'image_url' || part.type === 'file') images++;
+        else if ('text' in part) chars += part.text.length;
+      }
+    }
+    if (message.role === 'assistant') {
+      for (const call of message.tool_calls ?? []) {
+        chars += call.function.name.length + call.function.arguments.length;
+      }
+    }
+  }
+  return MESSAGE_OVERHEAD_TOKENS + Math.ceil(chars / CHARS_PER_TOKEN) + images * window.imageTokens;
+}
+
+/**
+ * Estimates the input tokens of a history for a model.
+ */
+export function estimateHistoryTokens(history: ChatHistory, window: ContextWindow): number {
+  return history.reduce((sum, entry) => sum + estimateEntryTokens(entry, window), 0);
+}
+
+/**
+ * Replaces the images and PDFs of a history with a text placeholder.
+ */
+function withoutImages(history: ChatHistory): { history: ChatHistory; omitted: number } {
+  let omitted = 0;
+  const result = history.map(entry => {
+    if ('parts' in entry && Array.isArray(entry.parts)) {
+      const message = entry as GeminiMessage;
+      if (!message.parts.some(p => p.inlineData || p.fileData)) return message;
+      return {
+        ...message,
+        parts: message.parts.map((part): GeminiPart => {
+          const media = part.inlineData ?? part.fileData;
+          if (!media) return part;
+          omitted++;
+          return { text: `[Image omitted: ${media.mimeType}]` };
+        }),
+      };
+    }
+    const message = entry as OpenAIMessage;
+    if (message.role !== 'user' || !Array.isArray(message.content)) return message;
+    if (!message.content.some(p => p.type === 'image_url' || p.type === 'file')) return message;
+    return {
+      ...message,
+      content: message.content.map(part => {
+        if (part.type !== 'image_url' && part.type !== 'file') return part;
+        omitted++;
+        const text = part.type === 'file' ? `[File omitted: ${part.file.filename ?? 'file'}]` : '[Image omitted]';
+        return { type: 'text' as const, text };
+      }),
+    };
+  });
+  return { history: result, omitted };
+}
+
+/**
+ * Builds the memory message that stands in for the summarized exchanges,
+ * with an acknowledgement so the turns keep alternating.
+ */
+function memoryMessages(summary: string, format: 'gemini' | 'openai'): ChatHistory {
+  const text = `${SUMMARY_HEADER}\n\n${summary}`;
+  return format === 'gemini'
+    ? [{ role: 'user', parts: [{ text }] }, { role: 'model', parts: [{ text: SUMMARY_ACKNOWLEDGEMENT }] }]
+    : [{ role: 'user', content: text }, { role: 'assistant', content: SUMMARY_ACKNOWLEDGEMENT }];
+}
+
+/**
+ * Writes part of a history as a plain transcript for summarizing. Images
+ * become placeholders, and delegations are reduced to their answers.
+ */
+export function summaryTranscript(history: ChatHistory): string {
+  return toDisplayMessages(history).map(message => {
+    const text = message.parts.map(part => 'text' in part ? part.text : '[image]').join(' ');
+    const delegations = message.delegations.map(d => `(${d.agent} answered: ${d.response ?? ''})`);
+    return `${message.role === 'user' ? 'USER' : 'ASSISTANT'}: ${[...delegations, text].join('\n')}`;
+  }).join('\n\n');
+}
+
+/**
+ * Cuts a history down to fit the model's context window, following the
+ * settings' strategy. Whole exchanges are left out, so tool calls always
+ * keep their results.
+ * @param summarize Writes a summary of a transcript, for the summarize
+ * strategy. `earlier` is the summary being extended, if any.
+ * @param previous The summary sent with an earlier request on this branch,
+ * reused while the history still fits with it.
+ * @returns The history to send and what was done, or null if the history
+ * fits as it is or nothing could be left out.
+ */
+export async function compactHistory(
+  history: ChatHistory,
+  window: ContextWindow,
+  settings: ContextSettings,
+  summarize: (transcript: string, earlier?: string) => Promise<string>,
+  previous?: ContextCompaction['summary'],
+): Promise<{ history: ChatHistory; compaction: ContextCompaction } | null> {
+  const limit = contextLimit(window, settings);
+  const tokensBefore = estimateHistoryTokens(history, window);
+  if (settings.strategy === 'none' || tokensBefore <= limit) return null;
+
+  const format = detectHistoryFormat(history);
+  const { preamble, exchanges: groups } = splitExchanges(history);
+  let start = preamble.length;
+  let exchanges: Exchange[] = groups.map(entries => {
+    const exchange = { start, entries, omittedImages: 0 };
+    start += entries.length;
+    return exchange;
+  });
+  const keepFrom = Math.max(0, exchanges.length - settings.keepExchanges);
+  const keepStart = exchanges[keepFrom]?.start ?? history.length;
+  const exchangeTokens = (exchange: Exchange) => estimateHistoryTokens(exchange.entries, window);
+  let head = preamble;
+  let summary: ContextCompaction['summary'];
+
+  if (settings.strategy === 'drop-images') {
+    exchanges = exchanges.map((exchange, i) => {
+      if (i >= keepFrom) return exchange;
+      const { history: entries, omitted } = withoutImages(exchange.entries);
+      return { ...exchange, entries, omittedImages: omitted };
+    });
+  } else if (settings.strategy === 'summarize') {
+    const reusable = previous && exchanges.some(e => e.start === previous.upTo) ? previous : undefined;
+    const fitsWith = (candidate: NonNullable<ContextCompaction['summary']>) =>
+      estimateHistoryTokens(memoryMessages(candidate.text, format), window)
+        + exchanges.filter(e => e.start >= candidate.upTo).reduce((sum, e) => sum + exchangeTokens(e), 0)
+        + estimateHistoryTokens(preamble, window) <= limit;
+
+    if (reusable && fitsWith(reusable)) {
+      summary = reusable;
+    } else if (keepStart > (reusable?.upTo ?? preamble.length)) {
+      // Extend the earlier summary with the exchanges since, or start over.
+      const from = reusable?.upTo ?? preamble.length;
+      const text = await summarize(summaryTranscript(history.slice(from, keepStart)), reusable?.text);
+      summary = { text: text.trim(), upTo: keepStart };
+    } else {
+      summary = reusable;
+    }
+    if (summary) {
+      head = [...preamble, ...memoryMessages(summary.text, format)];
+      exchanges = exchanges.filter(e => e.start >= summary!.upTo);
+    }
+  }
+
+  // Leave out the oldest exchanges until the rest fits, keeping the most
+  // recent ones whatever their size.
+  let tokens = estimateHistoryTokens(head, window) + exchanges.reduce((sum, e) => sum + exchangeTokens(e), 0);
+  let first = 0;
+  while (tokens > limit && first < exchanges.length - settings.keepExchanges) {
+    tokens -= exchangeTokens(exchanges[first]);
+    first++;
+  }
+  const sent = exchanges.slice(first);
+  const omittedImages = sent.reduce((sum, e) => sum + e.omittedImages, 0);
+  if (!summary && first === 0 && omittedImages === 0) return null;
+
+  const compacted = [...head, ...sent.flatMap(e => e.entries)];
+  return {
+    history: compacted,
+    compaction: {
+      strategy: settings.strategy as ContextCompaction['strategy'],
+      boundary: omittedImages > 0 ? keepStart : sent[0]?.start ?? history.length,
+      omittedExchanges: first,
+      omittedImages,
+      summary,
+      tokensBefore,
+      tokensAfter: estimateHistoryTokens(compacted, window),
+    },
+  };
+}
+
+/**
+ * Describes a compaction for the marker shown in the chat, e.g.
+ * "6 earlier exchanges summarized · 2 images left out".
+ * @param history The history the compaction was made from.
+ */
+export function describeCompaction(compaction: ContextCompaction, history: ChatHistory): string {
+  const parts: string[] = [];
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  const summarizedExchanges = compaction.summary ? splitExchanges(history.slice(0, compaction.summary.upTo)).exchanges.length : 0;
+  if (summarizedExchanges > 0) parts.push(`${plural(summarizedExchanges, 'earlier exchange')} summarized`);
+  if (compaction.omittedExchanges > 0) parts.push(`${plural(compaction.omittedExchanges, 'earlier exchange')} left out`);
+  if (compaction.omittedImages > 0) parts.push(`${plural(compaction.omittedImages, 'image')} left out`);
+  return parts.join(' · ');
+}
+
+/**
+ * Checks the context settings, returning a description of the first
+ * problem or null if they are valid.
+ */
+export function validateContextSettings(settings: Partial<ContextSettings>): string | null {
+  if (!['none', 'window', 'drop-images', 'summarize'].includes(settings.strategy as string)) return 'Unknown context strategy.';
+  const percent = settings.limitPercent;
+  if (typeof percent !== 'number' || !(percent >= 10 && percent <= 100)) return 'The context limit must be between 10 and 100 percent.';
+  const keep = settings.keepExchanges;
+  if (typeof keep !== 'number' || !Number.isInteger(keep) || keep < 1) return 'At least one recent exchange must be kept.';
+  return null;
+}
@@ -0,0 +1,351 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseAttachmentUrl } from './attachments';
+import type { AgentTranscript, ChatHistory, Conversation, ConversationUsage, HistoryTree } from './db';
+import { fallbackTitle } from './db';
+import { detectHistoryFormat, toDisplayMessages } from './history-convert';
+import type { DisplayFile, DisplayMessage } from './history-convert';
+import { getProvider, listProviders } from './providers';
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+// Identifies JSON exports so imports can tell them apart from other files.
+const EXPORT_FORMAT_ID = 'cua-conversations';
+const EXPORT_VERSION = 1;
+
+interface ExportEnvelope {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversations: Conversation[];
+}
+
+// File extension and MIME type for each export format.
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+function providerLabel(id: string): string {
+  return getProvider(id)?.label ?? id;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+// --- JSON ---
+
+/**
+ * Serializes conversations losslessly, including sub-agent transcripts.
+ */
+function exportJSON(conversations: Conversation[]): string {
+  const envelope: ExportEnvelope = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+// --- Markdown ---
+
+function imageLabel(url: string): string {
+  const mimeType = parseAttachmentUrl(url)?.mimeType;
+  return mimeType ? `*[Image: ${mimeType}]*` : `![Image](${url})`;
+}
+
+/**
+ * Renders an attached file as a label, followed by its text in a code
+ * block fenced longer than any backtick run inside it.
+ */
+function fileToMarkdown(file: DisplayFile): string {
+  const label = `*[Attachment: ${file.name}]*`;
+  if (file.text === undefined) return label;
+  const longestRun = Math.max(0, ...(file.text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${label}\n\n${fence}\n${file.text}\n${fence}`;
+}
+
+/**
+ * Renders a delegation as a blockquote, nesting further delegations inside it.
+ */
+function transcriptToMarkdown(transcript: AgentTranscript, depth = 1): string[] {
+  const quote = '> '.repeat(depth);
+  const lines = [`${quote}**${transcript.agent.toUpperCase()}>** _${transcript.prompt}_`, quote.trimEnd()];
+  for (const child of transcript.children) {
+    lines.push(...transcriptToMarkdown(child, depth + 1), quote.trimEnd());
+  }
+  if (transcript.status === 'error') {
+    lines.push(`${quote}**Error:** ${transcript.response ?? ''}`);
+  } else {
+    lines.push(...(transcript.response ?? '').split('\n').map(line => `${quote}${line}`.trimEnd()));
+  }
+  return lines;
+}
+
+function messageToMarkdown(message: DisplayMessage, personaPrefix: string): string {
+  const lines: string[] = [];
+  const text = message.parts
+    .map(part => 'image' in part ? imageLabel(part.image) : 'file' in part ? fileToMarkdown(part.file) : part.text)
+    .join('\n\n');
+
+  lines.push(`**${message.role === 'user' ? 'USER>' : personaPrefix}** ${text}`.trimEnd());
+  for (const transcript of message.delegations) {
+    lines.push('', ...transcriptToMarkdown(transcript));
+  }
+  return lines.join('\n');
+}
+
+function conversationToMarkdown(conversation: Conversation): string {
+  const personaPrefix = `${conversation.persona.toUpperCase()}>`;
+  const header = [
+    `# ${conversation.title}`,
+    '',
+    `- **Persona:** ${conversation.persona}`,
+    `- **Provider:** ${providerLabel(conversation.provider)}`,
+    `- **Created:** ${formatDate(conversation.createdAt)}`,
+    `- **Updated:** ${formatDate(conversation.updatedAt)}`,
+  ];
+  const messages = toDisplayMessages(conversation.history, conversation.transcripts)
+    .map(message => messageToMarkdown(message, personaPrefix));
+  return [header.join('\n'), ...messages].join('\n\n') + '\n';
+}
+
+/**
+ * Renders conversations as a readable Markdown transcript.
+ */
+function exportMarkdown(conversations: Conversation[]): string {
+  return conversations.map(conversationToMarkdown).join('\n---\n\n');
+}
+
+// --- HTML ---
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Mirrors the terminal look of the chat window, without external assets.
+const HTML_STYLES = `
+  body { margin: 0; padding: 2rem; background: #0b0b12; color: #f0f0f0; font-family: Consolas, Menlo, 'Courier New', monospace; line-height: 1.5; }
+  main { max-width: 900px; margin: 0 auto; }
+  h1 { color: #00ffff; text-shadow: 0 0 5px #00ffff, 0 0 10px #00ffff; font-size: 1.4rem; }
+  .meta { color: rgba(255, 255, 255, 0.6); font-size: 0.85rem; margin-bottom: 1.5rem; }
+  .message { margin-bottom: 1rem; white-space: pre-wrap; word-wrap: break-word; }
+  .prefix { color: #87ceeb; font-weight: bold; margin-right: 0.5rem; }
+  .user-message .prefix { color: #ff00ff; }
+  img { display: block; max-width: 320px; margin: 0.5rem 0; border: 1px solid rgba(255, 255, 255, 0.2); }
+  details { margin: 0.5rem 0 0.5rem 1rem; padding: 0.25rem 0.75rem; border-left: 2px solid #f0e68c; background: rgba(255, 255, 255, 0.04); white-space: normal; }
+  details.error { border-left-color: #ff6b6b; }
+  summary { cursor: pointer; color: #f0e68c; }
+  .prompt { color: rgba(255, 255, 255, 0.6); font-style: italic; }
+  .body { white-space: pre-wrap; margin-top: 0.5rem; }
+  hr { border: none; border-top: 1px dashed rgba(255, 255, 255, 0.2); margin: 2rem 0; }
+`;
+
+function transcriptToHTML(transcript: AgentTranscript): string {
+  const children = transcript.children.map(transcriptToHTML).join('');
+  return `<details${transcript.status === 'error' ? ' class="error"' : ''}>`
+    + `<summary><span class="prefix">AGENT&gt;</span>${escapeHTML(transcript.agent)} <span class="prompt">${escapeHTML(transcript.prompt)}</span></summary>`
+    + children
+    + `<div class="body">${escapeHTML(transcript.response ?? '')}</div>`
+    + '</details>';
+}
+
+function messageToHTML(message: DisplayMessage, personaPrefix: string): string {
+  const isUser = message.role === 'user';
+  const content = message.parts
+    .map(part => {
+      if ('image' in part) return `<img src="${escapeHTML(part.image)}" alt="Uploaded image">`;
+      if ('file' in part) {
+        return part.file.text !== undefined
+          ? `<details class="attachment"><summary>${escapeHTML(part.file.name)}</summary><div class="body">${escapeHTML(part.file.text)}</div></details>`
+          : `<a class="attachment" href="${escapeHTML(part.file.url ?? '')}" download="${escapeHTML(part.file.name)}">${escapeHTML(part.file.name)}</a>`;
+      }
+      return `<span>${escapeHTML(part.text)}</span>`;
+    })
+    .join('');
+  return `<div class="message ${isUser ? 'user-message' : 'agent-message'}">`
+    + `<span class="prefix">${escapeHTML(isUser ? 'USER>' : personaPrefix)}</span>`
+    + message.delegations.map(transcriptToHTML).join('')
+    + content
+    + '</div>';
+}
+
+function conversationToHTML(conversation: Conversation): string {
+  const personaPrefix = `${conversation.persona.toUpperCase()}>`;
+  const messages = toDisplayMessages(conversation.history, conversation.transcripts)
+    .map(message => messageToHTML(message, personaPrefix))
+    .join('\n');
+  return `<section>
+<h1>${escapeHTML(conversation.title)}</h1>
+<div class="meta">${escapeHTML(conversation.persona)} via ${escapeHTML(providerLabel(conversation.provider))} &middot; ${escapeHTML(formatDate(conversation.updatedAt))}</div>
+${messages}
+</section>`;
+}
+
+/**
+ * Renders conversations as a single self-contained HTML page. Images are
+ * embedded as data URLs, so the file can be opened offline.
+ */
+function exportHTML(conversations: Conversation[]): string {
+  const title = conversations.length === 1 ? conversations[0].title : 'CUA Conversations';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHTML(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${conversations.map(conversationToHTML).join('\n<hr>\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Exports conversations in the given format. For JSON and HTML, stored
+ * attachments should be embedded first (`embedConversationAttachments`), so
+ * the export does not depend on this browser's storage.
+ */
+export function exportConversations(conversations: Conversation[], format: ExportFormat): string {
+  switch (format) {
+    case 'json': return exportJSON(conversations);
+    case 'markdown': return exportMarkdown(conversations);
+    case 'html': return exportHTML(conversations);
+  }
+}
+
+/**
+ * Builds a file name for an export, e.g. `my-chat.md` or
+ * `cua-conversations-2025-01-31.json`.
+ */
+export function exportFileName(conversations: Conversation[], format: ExportFormat): string {
+  const base = conversations.length === 1
+    ? conversations[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation'
+    : `${EXPORT_FORMAT_ID}-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${EXPORT_FILE_TYPES[format].extension}`;
+}
+
+// --- Import ---
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGeminiMessage(value: Record<string, any>): boolean {
+  return (value.role === 'user' || value.role === 'model')
+    && Array.isArray(value.parts)
+    && value.parts.every(isObject);
+}
+
+function isOpenAIMessage(value: Record<string, any>): boolean {
+  switch (value.role) {
+    case 'system':
+    case 'developer':
+    case 'user':
+      return typeof value.content === 'string' || Array.isArray(value.content);
+    case 'assistant':
+      return value.content == null || typeof value.content === 'string' || Array.isArray(value.content);
+    case 'tool':
+      return typeof value.tool_call_id === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks that a value has the shape of a ChatHistory in a single format.
+ */
+export function isChatHistory(value: unknown): value is ChatHistory {
+  if (!Array.isArray(value) || !value.every(isObject)) return false;
+  return value.every(isGeminiMessage) || value.every(isOpenAIMessage);
+}
+
+/**
+ * Picks the provider for an imported history. The recorded provider is kept
+ * when it stores the same format; otherwise the first provider using that
+ * format is chosen, preferring available ones.
+ */
+function resolveProvider(recorded: string | undefined, history: ChatHistory): string {
+  const recordedProvider = recorded ? getProvider(recorded) : undefined;
+  if (history.length === 0) return recordedProvider?.id ?? listProviders()[0].id;
+
+  const format = detectHistoryFormat(history);
+  if (recordedProvider?.format === format) return recordedProvider.id;
+  const candidates = listProviders().filter(p => p.format === format);
+  return (candidates.find(p => p.available) ?? candidates[0] ?? listProviders()[0]).id;
+}
+
+function toConversation(value: Record<string, any>, index: number, fallbackPersona: string, personas: string[]): Conversation {
+  if (!isChatHistory(value.history)) {
+    throw new Error(`Conversation ${index + 1} does not contain a valid chat history.`);
+  }
+  const history = value.history;
+  const now = Date.now();
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    title: typeof value.title === 'string' && value.title.trim() ? value.title : fallbackTitle(history),
+    persona: personas.includes(value.persona) ? value.persona : fallbackPersona,
+    provider: resolveProvider(value.provider, history),
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : now,
+    history,
+    transcripts: isObject(value.transcripts) ? value.transcripts : undefined,
+    usage: isObject(value.usage) && isObject(value.usage.requests) && isObject(value.usage.total) ? value.usage as ConversationUsage : undefined,
+    tree: isObject(value.tree) && Array.isArray(value.tree.preamble) && isObject(value.tree.nodes) && Array.isArray(value.tree.roots) ? value.tree as HistoryTree : undefined,
+  };
+}
+
+/**
+ * Parses an import file. Accepts a JSON export, a single conversation
+ * record or a bare chat history, and fixes up the provider of each
+ * conversation to match its history format.
+ * @param fallbackPersona Used for bare histories and unknown personas.
+ * @param personas The persona keys the app knows about.
+ * @throws If the file is not JSON or does not contain valid conversations.
+ */
+export function parseImport(text: string, fallbackPersona: string, personas: string[]): Conversation[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (Array.isArray(data)) {
+    if (!isChatHistory(data)) {
+      throw new Error('The file does not contain a valid chat history.');
+    }
+    return [toConversation({ history: data }, 0, fallbackPersona, personas)];
+  }
+  if (!isObject(data)) {
+    throw new Error('The file does not contain conversations.');
+  }
+  if (data.format === EXPORT_FORMAT_ID) {
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version: ${data.version}.`);
+    }
+    if (!Array.isArray(data.conversations)) {
+      throw new Error('The export does not contain a conversation list.');
+    }
+    return data.conversations.map((c: unknown, i: number) => {
+      if (!isObject(c)) throw new Error(`Conversation ${i + 1} is not an object.`);
+      return toConversation(c, i, fallbackPersona, personas);
+    });
+  }
+  return [toConversation(data, 0, fallbackPersona, personas)];
+}
@@ -3,10 +3,21 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { toSearchEntries } from './search';
+import type { SearchEntry } from './search';
+import type { Persona } from './personas';
 
 const DB_NAME = 'CUA-ChatDB';
-const STORE_NAME = 'chat_sessions';
-const DB_VERSION = 1;
+const LEGACY_SESSIONS_STORE = 'chat_sessions';
+const CONVERSATIONS_STORE = 'conversations';
+const SEARCH_STORE = 'search_entries';
+const LOG_STORE = 'orchestration_log';
+const PERSONAS_STORE = 'personas';
+const NOTES_STORE = 'notes';
+const SETTINGS_STORE = 'settings';
+const AUDIT_STORE = 'audit_log';
+const ATTACHMENTS_STORE = 'attachments';
+const DB_VERSION = 8;
 
 // A flexible definition for a part of a Gemini message that can accommodate various content types.
 export interface GeminiPart {
@@ -15,11 +26,19 @@ export interface GeminiPart {
     mimeType: string;
     data: string;
   };
+  // An attachment stored in IndexedDB, referenced by an `attachment:` URI.
+  fileData?: {
+    mimeType: string;
+    fileUri: string;
+    displayName?: string;
+  };
   functionCall?: {
+    id?: string;
     name: string;
     args: Record<string, any>;
   };
   functionResponse?: {
+    id?: string;
     name: string;
     response: Record<string, any>;
   };
@@ -37,14 +56,394 @@ export type OpenAIMessage = ChatCompletionMessageParam;
 // A union type for the history array
 export type ChatHistory = (GeminiMessage | OpenAIMessage)[];
 
-// The structure of the object we'll store in IndexedDB
+// A delegated agent's exchange, including any further delegations it made.
+export interface AgentTranscript {
+  agent: string;
+  // The prompt, or the JSON arguments for a tool call other than a delegation.
+  prompt: string;
+  response?: string;
+  status?: 'running' | 'success' | 'error';
+  // The tool call that started this exchange, when it came from a tool call.
+  callId?: string;
+  // Set for tool calls other than delegations, e.g. 'runCode'.
+  tool?: string;
+  // Tokens used by this agent's own turns. The agents it called record
+  // their own usage.
+  usage?: ModelUsage;
+  children: AgentTranscript[];
+}
+
+// Sub-agent transcripts, keyed by the tool call id that produced them.
+export type TranscriptMap = Record<string, AgentTranscript>;
+
+// Tokens billed for one or more model turns.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Token usage keyed by model name, since each model has its own price.
+export type ModelUsage = Record<string, TokenUsage>;
+
+// What a conversation has used so far.
+export interface ConversationUsage {
+  // Per request, keyed by the history index of the request's user message.
+  requests: Record<number, ModelUsage>;
+  // Everything the conversation has used, including requests that are not
+  // in the history (@mentions, failed or cleared requests).
+  total: ModelUsage;
+}
+
+// How the history sent with a request was cut down to fit the model's
+// context window. The stored history itself is never changed.
+export interface ContextCompaction {
+  strategy: 'window' | 'drop-images' | 'summarize';
+  // History index of the first exchange sent as it is. Exchanges before it
+  // were left out, summarized or sent without their images.
+  boundary: number;
+  // Exchanges before `boundary` that were not sent at all.
+  omittedExchanges: number;
+  // Images before `boundary` that were replaced with a placeholder.
+  omittedImages: number;
+  // A memory message sent in place of the exchanges before `upTo`.
+  summary?: { text: string; upTo: number };
+  // Estimated tokens of the history, before and after.
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// One exchange of a conversation: a user message and every entry that
+// answered it (tool calls, tool results and the reply), up to the next user
+// message.
+export interface HistoryNode {
+  id: string;
+  // The exchange this one follows, or null for a first exchange.
+  parentId: string | null;
+  entries: ChatHistory;
+  usage?: ModelUsage;
+  // How the history sent with this exchange's request was cut down.
+  context?: ContextCompaction;
+  // Ids of the alternative next exchanges, oldest first, and the one on the
+  // active branch.
+  children: string[];
+  activeChild?: string;
+}
+
+// Every branch of a conversation. Editing or regenerating an earlier
+// message adds a sibling exchange instead of replacing the old one.
+export interface HistoryTree {
+  // Entries before the first user message, e.g. OpenAI's system message.
+  preamble: ChatHistory;
+  nodes: Record<string, HistoryNode>;
+  // Ids of the alternative first exchanges, and the one on the active branch.
+  roots: string[];
+  activeRoot?: string;
+}
+
+// The content of an attached image or PDF, stored once however many
+// messages reference it.
+export interface StoredAttachment {
+  // SHA-256 of the content, in hex.
+  id: string;
+  mimeType: string;
+  size: number;
+  blob: Blob;
+  // A small data URL shown in the chat in place of a large image.
+  thumbnail?: string;
+  createdAt: number;
+}
+
+// The legacy (version 1) record: one conversation per provider/persona pair.
 interface ChatSession {
   provider: string; // The key, e.g., 'gemini-CUA'
   history: ChatHistory;
+  transcripts?: TranscriptMap;
+}
+
+// A named conversation with one persona on one provider.
+export interface Conversation {
+  id: string;
+  title: string;
+  persona: string;
+  provider: string;
+  createdAt: number;
+  updatedAt: number;
+  // The active branch, which is what providers, search and exports see.
+  history: ChatHistory;
+  transcripts?: TranscriptMap;
+  usage?: ConversationUsage;
+  // All branches. Missing on conversations that have not been saved since
+  // branching was added; `saveHistory` builds it.
+  tree?: HistoryTree;
+}
+
+export type LogEventType = 'user' | 'info' | 'invoke' | 'success' | 'complete' | 'error';
+
+// A structured Orchestration Log event, stored per conversation.
+export interface LogRecord {
+  id?: number; // Assigned by IndexedDB
+  conversationId: string;
+  // Groups the events of one user request.
+  requestId?: string;
+  // History index of the user message that started the request.
+  messageIndex?: number;
+  timestamp: number;
+  type: LogEventType;
+  message: string;
+  // The agent acting, and the agent it addressed, by persona name.
+  source?: string;
+  target?: string;
+  prompt?: string;
+  // Set on events that end a timed step, which started durationMs earlier.
+  durationMs?: number;
+  error?: string;
+}
+
+// A decision of the approval gate on a tool call or delegation.
+export interface AuditRecord {
+  id?: number; // Assigned by IndexedDB
+  timestamp: number;
+  conversationId: string;
+  requestId?: string;
+  // Persona names.
+  caller: string;
+  tool: string;
+  target?: string;
+  // The call's arguments as JSON.
+  args: string;
+  // What the matching policy asked for, and the outcome.
+  effect: 'allow' | 'deny' | 'ask';
+  decision: 'allowed' | 'denied';
+  // The policy that matched, if any.
+  policyId?: string;
+  policyName?: string;
+  // Set when the operator answered an approval prompt.
+  decidedBy?: 'operator';
 }
 
 let db: IDBDatabase;
 
+/**
+ * Returns the plain text of a message in either history format.
+ */
+export function getMessageText(message: GeminiMessage | OpenAIMessage): string {
+  if ('parts' in message && Array.isArray(message.parts)) {
+    return message.parts.map(p => p.text ?? '').join('');
+  }
+  if ('content' in message) {
+    if (typeof message.content === 'string') return message.content;
+    if (Array.isArray(message.content)) {
+      return message.content.map(p => p.type === 'text' ? p.text : '').join('');
+    }
+  }
+  return '';
+}
+
+/**
+ * Builds a title from the first user message, for conversations that have
+ * not been titled by a model.
+ */
+export function fallbackTitle(history: ChatHistory): string {
+  const firstUser = history.find(m => m.role === 'user' && getMessageText(m).trim());
+  const text = firstUser ? getMessageText(firstUser).trim().replace(/\s+/g, ' ') : '';
+  if (!text) return 'Untitled conversation';
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+/**
+ * Tells whether a history entry is a message the operator sent, rather than
+ * a tool result (which Gemini also sends with the user role).
+ */
+function isUserTurn(entry: GeminiMessage | OpenAIMessage): boolean {
+  if ('parts' in entry && Array.isArray(entry.parts)) {
+    return entry.role === 'user' && !entry.parts.some(p => p.functionResponse);
+  }
+  return entry.role === 'user';
+}
+
+/**
+ * Splits a history into the entries before the first user message and one
+ * group of entries per exchange.
+ */
+export function splitExchanges(history: ChatHistory): { preamble: ChatHistory; exchanges: ChatHistory[] } {
+  const preamble: ChatHistory = [];
+  const exchanges: ChatHistory[] = [];
+  for (const entry of history) {
+    if (isUserTurn(entry)) {
+      exchanges.push([entry]);
+    } else if (exchanges.length > 0) {
+      exchanges[exchanges.length - 1].push(entry);
+    } else {
+      preamble.push(entry);
+    }
+  }
+  return { preamble, exchanges };
+}
+
+/**
+ * Returns the exchanges of the active branch, first to last.
+ */
+export function activeBranch(tree: HistoryTree): HistoryNode[] {
+  const branch: HistoryNode[] = [];
+  let id = tree.activeRoot;
+  while (id && tree.nodes[id]) {
+    branch.push(tree.nodes[id]);
+    id = tree.nodes[id].activeChild;
+  }
+  return branch;
+}
+
+/**
+ * Returns the history of the active branch.
+ */
+export function branchHistory(tree: HistoryTree): ChatHistory {
+  return [...tree.preamble, ...activeBranch(tree).flatMap(node => node.entries)];
+}
+
+/**
+ * Returns the usage of each exchange on the active branch, keyed by the
+ * history index of its user message.
+ */
+export function branchUsage(tree: HistoryTree): Record<number, ModelUsage> {
+  const usage: Record<number, ModelUsage> = {};
+  let index = tree.preamble.length;
+  for (const node of activeBranch(tree)) {
+    if (node.usage) usage[index] = node.usage;
+    index += node.entries.length;
+  }
+  return usage;
+}
+
+/**
+ * Returns the ids of a node and its alternatives, oldest first.
+ */
+export function branchSiblings(tree: HistoryTree, node: HistoryNode): string[] {
+  return node.parentId ? tree.nodes[node.parentId]?.children ?? [node.id] : tree.roots;
+}
+
+// Identifies an exchange by its roles and text, so the same exchange in
+// another provider's format (with other tool call ids) still matches.
+function exchangeKey(entries: ChatHistory): string {
+  return JSON.stringify(entries.map(entry => [entry.role, getMessageText(entry)]));
+}
+
+/**
+ * Makes `history` the active branch of a tree, in place. Exchanges that
+ * match the tree are kept; from the first one that does not, a new branch
+ * is added beside the old one. An empty history clears the tree.
+ * @param usage Per-request usage of `history`, keyed by history index.
+ */
+export function syncHistoryTree(tree: HistoryTree, history: ChatHistory, usage: Record<number, ModelUsage> = {}): HistoryTree {
+  const { preamble, exchanges } = splitExchanges(history);
+  if (exchanges.length === 0) return { preamble, nodes: {}, roots: [] };
+
+  tree.preamble = preamble;
+  let parent: HistoryNode | null = null;
+  let index = preamble.length;
+  for (const entries of exchanges) {
+    const siblings: string[] = parent ? parent.children : tree.roots;
+    const key = exchangeKey(entries);
+    let node = siblings.map(id => tree.nodes[id]).find(sibling => sibling && exchangeKey(sibling.entries) === key);
+    if (!node) {
+      node = { id: crypto.randomUUID(), parentId: parent?.id ?? null, entries, children: [] };
+      tree.nodes[node.id] = node;
+      siblings.push(node.id);
+    }
+    node.entries = entries;
+    if (usage[index]) {
+      node.usage = usage[index];
+    } else {
+      delete node.usage;
+    }
+    if (parent) {
+      parent.activeChild = node.id;
+    } else {
+      tree.activeRoot = node.id;
+    }
+    parent = node;
+    index += entries.length;
+  }
+  // The history may end before the old active branch did.
+  delete parent!.activeChild;
+  return tree;
+}
+
+/**
+ * Builds a tree with a single branch from a history.
+ */
+export function buildHistoryTree(history: ChatHistory, usage?: Record<number, ModelUsage>): HistoryTree {
+  return syncHistoryTree({ preamble: [], nodes: {}, roots: [] }, history, usage);
+}
+
+/**
+ * Copies the version 1 `chat_sessions` records into the `conversations`
+ * store, then drops the old store. Runs inside the upgrade transaction.
+ */
+function migrateLegacySessions(transaction: IDBTransaction, dbInstance: IDBDatabase) {
+  const request = transaction.objectStore(LEGACY_SESSIONS_STORE).getAll();
+  request.onsuccess = () => {
+    const conversations = transaction.objectStore(CONVERSATIONS_STORE);
+    const now = Date.now();
+    for (const session of request.result as ChatSession[]) {
+      if (!session.history?.some(m => m.role === 'user')) continue;
+      // Keys were `${provider}-${persona}`; provider ids contain no dashes.
+      const separator = session.provider.indexOf('-');
+      const conversation: Conversation = {
+        id: crypto.randomUUID(),
+        title: fallbackTitle(session.history),
+        provider: session.provider.slice(0, separator),
+        persona: session.provider.slice(separator + 1),
+        createdAt: now,
+        updatedAt: now,
+        history: session.history,
+        transcripts: session.transcripts,
+      };
+      conversations.put(conversation);
+      indexConversation(transaction, conversation);
+    }
+    dbInstance.deleteObjectStore(LEGACY_SESSIONS_STORE);
+  };
+}
+
+/**
+ * Brings the search entries of a conversation up to date. Only messages
+ * whose entry changed are written, so saving after a new exchange touches
+ * just the new messages. Runs inside a transaction that covers the
+ * search store.
+ */
+function indexConversation(transaction: IDBTransaction, conversation: Conversation) {
+  const store = transaction.objectStore(SEARCH_STORE);
+  const entries = toSearchEntries(conversation);
+  const request = store.index('conversationId').getAll(conversation.id);
+  request.onsuccess = () => {
+    const existing = new Map((request.result as SearchEntry[]).map(e => [e.index, e]));
+    for (const entry of entries) {
+      const old = existing.get(entry.index);
+      existing.delete(entry.index);
+      if (old && old.text === entry.text && old.role === entry.role
+        && old.persona === entry.persona && old.provider === entry.provider) continue;
+      store.put(entry);
+    }
+    for (const stale of existing.values()) {
+      store.delete([stale.conversationId, stale.index]);
+    }
+  };
+}
+
+/**
+ * Indexes every stored conversation. Runs once, when the search store is
+ * created during an upgrade.
+ */
+function buildSearchIndex(transaction: IDBTransaction) {
+  const request = transaction.objectStore(CONVERSATIONS_STORE).getAll();
+  request.onsuccess = () => {
+    const store = transaction.objectStore(SEARCH_STORE);
+    for (const conversation of request.result as Conversation[]) {
+      toSearchEntries(conversation).forEach(entry => store.put(entry));
+    }
+  };
+}
+
 /**
  * Opens and initializes the IndexedDB database.
  */
@@ -69,71 +468,643 @@ export function openDB(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const dbInstance = (event.target as IDBOpenDBRequest).result;
-      if (!dbInstance.objectStoreNames.contains(STORE_NAME)) {
-        dbInstance.createObjectStore(STORE_NAME, { keyPath: 'provider' });
+      const transaction = (event.target as IDBOpenDBRequest).transaction!;
+      if (!dbInstance.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const store = dbInstance.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        store.createIndex('persona_provider', ['persona', 'provider']);
+      }
+      if (!dbInstance.objectStoreNames.contains(SEARCH_STORE)) {
+        const store = dbInstance.createObjectStore(SEARCH_STORE, { keyPath: ['conversationId', 'index'] });
+        store.createIndex('conversationId', 'conversationId');
+        store.createIndex('terms', 'terms', { multiEntry: true });
+        buildSearchIndex(transaction);
+      }
+      if (!dbInstance.objectStoreNames.contains(LOG_STORE)) {
+        const store = dbInstance.createObjectStore(LOG_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('conversationId', 'conversationId');
+      }
+      if (!dbInstance.objectStoreNames.contains(PERSONAS_STORE)) {
+        dbInstance.createObjectStore(PERSONAS_STORE, { keyPath: 'key' });
+      }
+      if (!dbInstance.objectStoreNames.contains(NOTES_STORE)) {
+        dbInstance.createObjectStore(NOTES_STORE, { keyPath: 'title' });
+      }
+      if (!dbInstance.objectStoreNames.contains(SETTINGS_STORE)) {
+        dbInstance.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
       }
+      if (!dbInstance.objectStoreNames.contains(AUDIT_STORE)) {
+        dbInstance.createObjectStore(AUDIT_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!dbInstance.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        dbInstance.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+      }
+      if (dbInstance.objectStoreNames.contains(LEGACY_SESSIONS_STORE)) {
+        migrateLegacySessions(transaction, dbInstance);
+      }
+    };
+  });
+}
+
+/**
+ * Lists the conversations for a persona, most recent first.
+ * @param provider Optionally restricts the list to one provider.
+ */
+export function listConversations(persona: string, provider?: string): Promise<Conversation[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(CONVERSATIONS_STORE, 'readonly');
+    const index = transaction.objectStore(CONVERSATIONS_STORE).index('persona_provider');
+    const query = provider !== undefined
+      ? IDBKeyRange.only([persona, provider])
+      : IDBKeyRange.bound([persona, ''], [persona, '\uffff']);
+    const request = index.getAll(query);
+
+    request.onsuccess = () => {
+      const conversations = request.result as Conversation[];
+      resolve(conversations.sort((a, b) => b.updatedAt - a.updatedAt));
+    };
+    request.onerror = () => {
+      console.error('Error listing conversations:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Lists every conversation across personas and providers, most recent first.
+ */
+export function listAllConversations(): Promise<Conversation[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(CONVERSATIONS_STORE, 'readonly');
+    const request = transaction.objectStore(CONVERSATIONS_STORE).getAll();
+
+    request.onsuccess = () => {
+      const conversations = request.result as Conversation[];
+      resolve(conversations.sort((a, b) => b.updatedAt - a.updatedAt));
+    };
+    request.onerror = () => {
+      console.error('Error listing conversations:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Retrieves a conversation by id.
+ * @returns The saved Conversation or undefined if not found.
+ */
+export function getConversation(id: string): Promise<Conversation | undefined> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(CONVERSATIONS_STORE, 'readonly');
+    const store = transaction.objectStore(CONVERSATIONS_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      resolve(request.result as Conversation | undefined);
+    };
+    request.onerror = () => {
+      console.error('Error getting conversation:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Creates or replaces a conversation record.
+ */
+export function saveConversation(conversation: Conversation): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction([CONVERSATIONS_STORE, SEARCH_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).put(conversation);
+    indexConversation(transaction, conversation);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error saving conversation:', transaction.error);
+      reject(transaction.error);
     };
   });
 }
 
 /**
- * Saves the chat history for a given session key.
- * @param key The session key (e.g., 'gemini-CUA').
+ * Saves the chat history of a conversation, creating the record on its
+ * first save. The history becomes the active branch; where it departs from
+ * the saved branches, a new branch is added.
+ * @param conversation The conversation to update.
  * @param history The chat history array to save.
+ * @param transcripts Sub-agent transcripts for the tool calls in `history`.
+ * The conversation's current transcripts are kept when omitted.
+ * @param context How the context of the request that ends `history` was
+ * cut down, if it was.
  */
-export function saveHistory(key: string, history: ChatHistory): Promise<void> {
+export function saveHistory(conversation: Conversation, history: ChatHistory, transcripts: TranscriptMap | undefined = conversation.transcripts, context?: ContextCompaction): Promise<void> {
+  const usage = conversation.usage?.requests;
+  conversation.tree = syncHistoryTree(conversation.tree ?? buildHistoryTree(conversation.history, usage), history, usage);
+  const last = activeBranch(conversation.tree).pop();
+  if (last && context) {
+    last.context = context;
+  } else if (last) {
+    delete last.context;
+  }
+  conversation.history = history;
+  conversation.transcripts = transcripts;
+  conversation.updatedAt = Date.now();
+  return saveConversation(conversation);
+}
+
+/**
+ * Makes another branch of a conversation active and saves it.
+ * @param nodeId The exchange to switch to. Below it, the branch continues
+ * where it was last left.
+ */
+export function switchBranch(conversation: Conversation, nodeId: string): Promise<void> {
+  const tree = conversation.tree;
+  const node = tree?.nodes[nodeId];
+  if (!tree || !node) return Promise.resolve();
+  if (node.parentId) {
+    tree.nodes[node.parentId].activeChild = node.id;
+  } else {
+    tree.activeRoot = node.id;
+  }
+  conversation.history = branchHistory(tree);
+  if (conversation.usage) conversation.usage.requests = branchUsage(tree);
+  return saveConversation(conversation);
+}
+
+/**
+ * Deletes a conversation, with its search entries and log records.
+ * @param id The id of the conversation to delete.
+ */
+export function deleteConversation(id: string): Promise<void> {
   return new Promise(async (resolve, reject) => {
     const dbInstance = await openDB();
-    const transaction = dbInstance.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const session: ChatSession = { provider: key, history };
-    const request = store.put(session);
+    const transaction = dbInstance.transaction([CONVERSATIONS_STORE, SEARCH_STORE, LOG_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).delete(id);
+    transaction.objectStore(SEARCH_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+    deleteLogRecordsIn(transaction, id);
 
-    request.onsuccess = () => resolve();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error deleting conversation:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Finds the search entries that contain every term, each matched as a
+ * word prefix.
+ * @param terms Lowercase tokens, as produced by `tokenize`.
+ */
+export function findSearchEntries(terms: string[]): Promise<SearchEntry[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(SEARCH_STORE, 'readonly');
+    const index = transaction.objectStore(SEARCH_STORE).index('terms');
+    const matches: Map<string, SearchEntry>[] = [];
+
+    for (const term of terms) {
+      const request = index.getAll(IDBKeyRange.bound(term, `${term}\uffff`));
+      request.onsuccess = () => {
+        // An entry shows up once per term it has with this prefix.
+        matches.push(new Map((request.result as SearchEntry[]).map(e => [`${e.conversationId}:${e.index}`, e])));
+      };
+    }
+
+    transaction.oncomplete = () => {
+      if (matches.length === 0) {
+        resolve([]);
+        return;
+      }
+      const [first, ...rest] = matches.sort((a, b) => a.size - b.size);
+      resolve([...first].filter(([key]) => rest.every(m => m.has(key))).map(([, entry]) => entry));
+    };
+    transaction.onerror = () => {
+      console.error('Error searching conversations:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Stores an Orchestration Log record and sets its id.
+ */
+export function addLogRecord(record: LogRecord): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(LOG_STORE, 'readwrite');
+    const request = transaction.objectStore(LOG_STORE).add(record);
+
+    request.onsuccess = () => {
+      record.id = request.result as number;
+      resolve();
+    };
     request.onerror = () => {
-      console.error('Error saving history:', request.error);
+      console.error('Error saving log record:', request.error);
       reject(request.error);
     };
   });
 }
 
 /**
- * Retrieves the chat history for a given session key.
- * @param key The session key (e.g., 'gemini-CUA').
- * @returns The saved ChatSession or undefined if not found.
+ * Lists the Orchestration Log records of a conversation, oldest first.
  */
-export function getHistory(key: string): Promise<ChatSession | undefined> {
+export function listLogRecords(conversationId: string): Promise<LogRecord[]> {
   return new Promise(async (resolve, reject) => {
     const dbInstance = await openDB();
-    const transaction = dbInstance.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(key);
+    const transaction = dbInstance.transaction(LOG_STORE, 'readonly');
+    const request = transaction.objectStore(LOG_STORE).index('conversationId').getAll(conversationId);
 
     request.onsuccess = () => {
-      resolve(request.result as ChatSession | undefined);
+      resolve((request.result as LogRecord[]).sort((a, b) => a.id! - b.id!));
     };
     request.onerror = () => {
-      console.error('Error getting history:', request.error);
+      console.error('Error listing log records:', request.error);
       reject(request.error);
     };
   });
 }
 
+function deleteLogRecordsIn(transaction: IDBTransaction, conversationId: string) {
+  const request = transaction.objectStore(LOG_STORE).index('conversationId').getAllKeys(conversationId);
+  request.onsuccess = () => {
+    const store = transaction.objectStore(LOG_STORE);
+    request.result.forEach(key => store.delete(key));
+  };
+}
+
+/**
+ * Deletes the Orchestration Log records of a conversation.
+ */
+export function deleteLogRecords(conversationId: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(LOG_STORE, 'readwrite');
+    deleteLogRecordsIn(transaction, conversationId);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error deleting log records:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
 /**
- * Clears the chat history for a given session key.
- * @param key The session key (e.g., 'gemini-CUA') to clear.
+ * Lists the most recent error events of all conversations, newest first.
  */
-export function clearHistory(key: string): Promise<void> {
+export function listRecentErrors(limit: number): Promise<LogRecord[]> {
   return new Promise(async (resolve, reject) => {
     const dbInstance = await openDB();
-    const transaction = dbInstance.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(key);
+    const transaction = dbInstance.transaction(LOG_STORE, 'readonly');
+    const request = transaction.objectStore(LOG_STORE).openCursor(null, 'prev');
+    const records: LogRecord[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && records.length < limit) {
+        if ((cursor.value as LogRecord).type === 'error') records.push(cursor.value as LogRecord);
+        cursor.continue();
+      } else {
+        resolve(records);
+      }
+    };
+    request.onerror = () => {
+      console.error('Error listing error records:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Counts the Orchestration Log records of each conversation, by
+ * conversation id.
+ */
+export function countLogRecords(): Promise<Map<string, number>> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(LOG_STORE, 'readonly');
+    const request = transaction.objectStore(LOG_STORE).index('conversationId').openKeyCursor();
+    const counts = new Map<string, number>();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        const id = cursor.key as string;
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+        cursor.continue();
+      } else {
+        resolve(counts);
+      }
+    };
+    request.onerror = () => {
+      console.error('Error counting log records:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Counts the records in each object store, by store name.
+ */
+export function countStoreRecords(): Promise<Record<string, number>> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const names = Array.from(dbInstance.objectStoreNames);
+    const transaction = dbInstance.transaction(names, 'readonly');
+    const counts: Record<string, number> = {};
+    for (const name of names) {
+      const request = transaction.objectStore(name).count();
+      request.onsuccess = () => { counts[name] = request.result; };
+    }
+
+    transaction.oncomplete = () => resolve(counts);
+    transaction.onerror = () => {
+      console.error('Error counting records:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Lists the user-defined personas, including edited built-in ones.
+ */
+export function listCustomPersonas(): Promise<Persona[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(PERSONAS_STORE, 'readonly');
+    const request = transaction.objectStore(PERSONAS_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result as Persona[]);
+    request.onerror = () => {
+      console.error('Error listing personas:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Creates or replaces user-defined personas.
+ */
+export function savePersonas(personas: Persona[]): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(PERSONAS_STORE, 'readwrite');
+    const store = transaction.objectStore(PERSONAS_STORE);
+    personas.forEach(persona => store.put(persona));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error saving personas:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Deletes a user-defined persona. For an edited built-in persona this
+ * restores the original.
+ */
+export function deletePersona(key: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(PERSONAS_STORE, 'readwrite');
+    const request = transaction.objectStore(PERSONAS_STORE).delete(key);
 
     request.onsuccess = () => resolve();
     request.onerror = () => {
-      console.error('Error clearing history:', request.error);
+      console.error('Error deleting persona:', request.error);
       reject(request.error);
     };
   });
 }
+
+// A note kept by the `notes` tool, keyed by title.
+export interface Note {
+  title: string;
+  content: string;
+  updatedAt: number;
+}
+
+/**
+ * Lists the notes, most recently updated first.
+ */
+export function listNotes(): Promise<Note[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(NOTES_STORE, 'readonly');
+    const request = transaction.objectStore(NOTES_STORE).getAll();
+
+    request.onsuccess = () => resolve((request.result as Note[]).sort((a, b) => b.updatedAt - a.updatedAt));
+    request.onerror = () => {
+      console.error('Error listing notes:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Gets a note by title, or undefined if there is none.
+ */
+export function getNote(title: string): Promise<Note | undefined> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(NOTES_STORE, 'readonly');
+    const request = transaction.objectStore(NOTES_STORE).get(title);
+
+    request.onsuccess = () => resolve(request.result as Note | undefined);
+    request.onerror = () => {
+      console.error('Error loading note:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Creates or replaces a note.
+ */
+export function saveNote(note: Note): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(NOTES_STORE, 'readwrite');
+    const request = transaction.objectStore(NOTES_STORE).put(note);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error saving note:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Deletes a note by title.
+ */
+export function deleteNote(title: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(NOTES_STORE, 'readwrite');
+    const request = transaction.objectStore(NOTES_STORE).delete(title);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error deleting note:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Gets an app setting, or undefined if it was never saved.
+ */
+export function getSetting<T>(key: string): Promise<T | undefined> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(SETTINGS_STORE, 'readonly');
+    const request = transaction.objectStore(SETTINGS_STORE).get(key);
+
+    request.onsuccess = () => resolve(request.result?.value as T | undefined);
+    request.onerror = () => {
+      console.error('Error loading setting:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Saves an app setting.
+ */
+export function saveSetting<T>(key: string, value: T): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(SETTINGS_STORE, 'readwrite');
+    const request = transaction.objectStore(SETTINGS_STORE).put({ key, value });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error saving setting:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Appends a decision to the audit log.
+ */
+export function addAuditRecord(record: AuditRecord): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(AUDIT_STORE, 'readwrite');
+    const request = transaction.objectStore(AUDIT_STORE).add(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error adding audit record:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Lists audit records, newest first.
+ * @param limit Maximum number of records; all if omitted.
+ */
+export function listAuditRecords(limit?: number): Promise<AuditRecord[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(AUDIT_STORE, 'readonly');
+    const request = transaction.objectStore(AUDIT_STORE).openCursor(null, 'prev');
+    const records: AuditRecord[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && (limit === undefined || records.length < limit)) {
+        records.push(cursor.value as AuditRecord);
+        cursor.continue();
+      } else {
+        resolve(records);
+      }
+    };
+    request.onerror = () => {
+      console.error('Error listing audit records:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Gets a stored attachment, or undefined if there is none with that id.
+ */
+export function getAttachment(id: string): Promise<StoredAttachment | undefined> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(ATTACHMENTS_STORE, 'readonly');
+    const request = transaction.objectStore(ATTACHMENTS_STORE).get(id);
+
+    request.onsuccess = () => resolve(request.result as StoredAttachment | undefined);
+    request.onerror = () => {
+      console.error('Error loading attachment:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Lists every stored attachment. The blobs are only read when used.
+ */
+export function listAttachments(): Promise<StoredAttachment[]> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(ATTACHMENTS_STORE, 'readonly');
+    const request = transaction.objectStore(ATTACHMENTS_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result as StoredAttachment[]);
+    request.onerror = () => {
+      console.error('Error listing attachments:', request.error);
+      reject(request.error);
+    };
+  });
+}
+
+/**
+ * Stores an attachment. Since the id is a hash of the content, an existing
+ * record with the same id is kept as it is.
+ */
+export function saveAttachment(attachment: StoredAttachment): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(ATTACHMENTS_STORE, 'readwrite');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
+    const request = store.getKey(attachment.id);
+    request.onsuccess = () => {
+      if (request.result === undefined) store.add(attachment);
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error saving attachment:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Deletes stored attachments.
+ */
+export function deleteAttachments(ids: string[]): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(ATTACHMENTS_STORE, 'readwrite');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
+    for (const id of ids) store.delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error deleting attachments:', transaction.error);
+      reject(transaction.error);
+    };
+  });
+}
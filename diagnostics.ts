@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as db from './db';
+import type { Conversation, LogRecord } from './db';
+import type { PersonaKey } from './personas';
+import type { ChatProvider, ProviderChat } from './providers';
+
+// The checks behind the Diagnostics window: provider probes, configuration,
+// storage, recent errors and the persona self-test, and the plain-text
+// report they are copied as.
+
+// An environment variable a provider reads its key or endpoint from. Only
+// whether it is set is shown, never its value.
+export interface KeySource {
+  variable: string;
+  provider: string;
+  configured: boolean;
+}
+
+// The outcome of a provider probe or a persona round trip.
+export interface CheckResult {
+  ok: boolean;
+  latencyMs: number;
+  // The reply on success, the error message on failure.
+  detail: string;
+}
+
+export interface ProviderStatus {
+  id: string;
+  label: string;
+  model: string;
+  available: boolean;
+  // Unset until the provider is probed.
+  probe?: CheckResult;
+}
+
+export interface PersonaCheck {
+  key: PersonaKey;
+  persona: string;
+  provider: string;
+  model: string;
+  // Unset until the self-test has run.
+  result?: CheckResult;
+}
+
+// What one conversation takes up in IndexedDB.
+export interface SessionStats {
+  id: string;
+  title: string;
+  persona: string;
+  provider: string;
+  // Messages on every branch.
+  messages: number;
+  logRecords: number;
+  // Size of the conversation record as JSON. Attachments are stored
+  // separately and not included.
+  bytes: number;
+  updatedAt: number;
+}
+
+export interface StorageStats {
+  // Record counts by object store.
+  stores: Record<string, number>;
+  sessions: SessionStats[];
+  // What the browser reports for the whole app, when it does.
+  usage?: number;
+  quota?: number;
+}
+
+export interface DiagnosticsReport {
+  generatedAt: number;
+  userAgent: string;
+  providers: ProviderStatus[];
+  keySources: KeySource[];
+  storage: StorageStats;
+  // Newest first.
+  errors: LogRecord[];
+  personas: PersonaCheck[];
+}
+
+// How long a probe or round trip may take before it counts as failed.
+const CHECK_TIMEOUT_MS = 30_000;
+export const RECENT_ERROR_LIMIT = 20;
+
+const PROBE_SYSTEM_PROMPT = 'You are a connectivity probe. Reply with the single word OK.';
+const PROBE_PROMPT = 'Connectivity probe. Reply with OK.';
+const SELF_TEST_PROMPT = 'This is a diagnostics self-test. Reply with one short sentence saying who you are.';
+
+// --- Configuration ---
+
+/**
+ * Lists the environment variables the built-in providers read, and which
+ * of them are set.
+ */
+export function listKeySources(): KeySource[] {
+  // Each variable is spelled out: the build replaces them one by one.
+  return [
+    { variable: 'API_KEY', provider: 'gemini', configured: !!process.env.API_KEY },
+    { variable: 'OPENAI_API_KEY', provider: 'openai', configured: !!process.env.OPENAI_API_KEY },
+    { variable: 'LOCAL_LLM_BASE_URL', provider: 'local', configured: !!process.env.LOCAL_LLM_BASE_URL },
+    { variable: 'LOCAL_LLM_API_KEY', provider: 'local', configured: !!process.env.LOCAL_LLM_API_KEY },
+    { variable: 'LOCAL_LLM_MODEL', provider: 'local', configured: !!process.env.LOCAL_LLM_MODEL },
+    { variable: 'MOCK_PROVIDER', provider: 'mock', configured: process.env.MOCK_PROVIDER === 'true' },
+  ];
+}
+
+export function providerStatus(provider: ChatProvider): ProviderStatus {
+  return { id: provider.id, label: provider.label, model: provider.model, available: provider.available };
+}
+
+// --- Checks ---
+
+/**
+ * Times a call, failing it if it throws, returns nothing or takes longer
+ * than CHECK_TIMEOUT_MS.
+ * @param run Gets a signal that aborts when the time is up.
+ */
+async function timedCheck(run: (signal: AbortSignal) => Promise<string>): Promise<CheckResult> {
+  const controller = new AbortController();
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Not every call can be aborted, so the timeout also rejects on its own.
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`No reply within ${CHECK_TIMEOUT_MS / 1000} s.`);
+      controller.abort(error);
+      reject(error);
+    }, CHECK_TIMEOUT_MS);
+  });
+  try {
+    const reply = (await Promise.race([run(controller.signal), timeout])).trim();
+    if (!reply) throw new Error('The reply was empty.');
+    return { ok: true, latencyMs: performance.now() - started, detail: reply };
+  } catch (error) {
+    return { ok: false, latencyMs: performance.now() - started, detail: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Checks that a provider answers a one-shot completion, and how fast.
+ */
+export function probeProvider(provider: ChatProvider): Promise<CheckResult> {
+  if (!provider.available) {
+    return Promise.resolve({ ok: false, latencyMs: 0, detail: 'Not configured.' });
+  }
+  return timedCheck(() => provider.complete(PROBE_SYSTEM_PROMPT, PROBE_PROMPT));
+}
+
+/**
+ * Sends SELF_TEST_PROMPT through a chat, without tools, and checks that a
+ * reply streams back.
+ */
+export function roundTrip(chat: ProviderChat): Promise<CheckResult> {
+  return timedCheck(async signal => {
+    let reply = '';
+    for await (const event of chat.sendMessageStream({ text: SELF_TEST_PROMPT }, { signal })) {
+      if (event.type === 'text') reply += event.text;
+    }
+    return reply;
+  });
+}
+
+// --- Storage ---
+
+function sessionStats(conversation: Conversation, logRecords: number): SessionStats {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    persona: conversation.persona,
+    provider: conversation.provider,
+    messages: conversation.tree
+      ? conversation.tree.preamble.length + Object.values(conversation.tree.nodes).reduce((sum, node) => sum + node.entries.length, 0)
+      : conversation.history.length,
+    logRecords,
+    bytes: new Blob([JSON.stringify(conversation)]).size,
+    updatedAt: conversation.updatedAt,
+  };
+}
+
+/**
+ * Counts the records in IndexedDB, in total and per conversation, most
+ * recently updated first.
+ */
+export async function collectStorageStats(): Promise<StorageStats> {
+  const [stores, conversations, logCounts, estimate] = await Promise.all([
+    db.countStoreRecords(),
+    db.listAllConversations(),
+    db.countLogRecords(),
+    navigator.storage?.estimate(),
+  ]);
+  const sessions = conversations
+    .map(conversation => sessionStats(conversation, logCounts.get(conversation.id) ?? 0))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return { stores, sessions, usage: estimate?.usage, quota: estimate?.quota };
+}
+
+// --- Report ---
+
+/**
+ * Formats a byte count, e.g. `1.5 MB`.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Describes a check result in a few words, e.g. `OK 420 ms`.
+ */
+export function describeCheck(result: CheckResult | undefined): string {
+  if (!result) return 'Not run';
+  return result.ok ? `OK ${Math.round(result.latencyMs)} ms` : `FAIL ${result.detail}`;
+}
+
+function orNone(lines: string[]): string[] {
+  return lines.length > 0 ? lines : ['None'];
+}
+
+/**
+ * Formats the report as plain text for pasting into an issue or a chat.
+ */
+export function formatReport(report: DiagnosticsReport): string {
+  const titles = new Map(report.storage.sessions.map(session => [session.id, session.title]));
+  const lines = [
+    'C-OS DIAGNOSTICS REPORT',
+    `Generated: ${new Date(report.generatedAt).toISOString()}`,
+    `Browser: ${report.userAgent}`,
+    '',
+    '[Providers]',
+    ...report.providers.map(p =>
+      `${p.label} (${p.id}): model ${p.model}, ${p.available ? 'configured' : 'not configured'}, probe: ${describeCheck(p.probe)}`),
+    '',
+    '[Key sources]',
+    ...report.keySources.map(k => `${k.variable} (${k.provider}): ${k.configured ? 'set' : 'not set'}`),
+    '',
+    '[Storage]',
+    report.storage.usage !== undefined && report.storage.quota
+      ? `Browser storage: ${formatBytes(report.storage.usage)} of ${formatBytes(report.storage.quota)}`
+      : 'Browser storage: not reported',
+    ...Object.entries(report.storage.stores).map(([store, count]) => `${store}: ${count} record(s)`),
+    '',
+    '[Sessions]',
+    ...orNone(report.storage.sessions.map(s =>
+      `${s.title} (${s.persona} on ${s.provider}): ${s.messages} message(s), ${s.logRecords} log record(s), ${formatBytes(s.bytes)}`)),
+    '',
+    '[Recent errors]',
+    ...orNone(report.errors.map(e => {
+      const conversation = titles.get(e.conversationId) ?? e.conversationId;
+      return `${new Date(e.timestamp).toISOString()} ${conversation}: ${e.message}${e.error ? ` (${e.error})` : ''}`;
+    })),
+    '',
+    '[Persona self-test]',
+    ...report.personas.map(p => `${p.persona} on ${p.provider} (${p.model}): ${describeCheck(p.result)}`),
+  ];
+  return lines.join('\n');
+}
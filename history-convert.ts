@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ChatCompletionContentPart } from 'openai/resources/chat/completions';
+import { parseAttachmentText, parseAttachmentUrl } from './attachments';
+import type { AgentTranscript, ChatHistory, GeminiMessage, GeminiPart, HistoryNode, HistoryTree, OpenAIMessage, TranscriptMap } from './db';
+
+export type HistoryFormat = 'gemini' | 'openai';
+
+/**
+ * Works out which provider format a history is stored in. Gemini messages
+ * carry `parts`; everything else is treated as OpenAI.
+ */
+export function detectHistoryFormat(history: ChatHistory): HistoryFormat {
+  return history.some(m => 'parts' in m) ? 'gemini' : 'openai';
+}
+
+/**
+ * Returns the image or file in a Gemini part as a URL: a data URL for
+ * inline data, or the reference of a stored attachment.
+ */
+function geminiMedia(part: GeminiPart): { mimeType: string; url: string; name?: string } | null {
+  if (part.inlineData) return { mimeType: part.inlineData.mimeType, url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` };
+  if (part.fileData) return { mimeType: part.fileData.mimeType, url: part.fileData.fileUri, name: part.fileData.displayName };
+  return null;
+}
+
+/**
+ * Builds a Gemini part from a data URL or attachment reference.
+ * @param label Shown instead if the URL is neither.
+ */
+function toGeminiMedia(url: string, label: string, name?: string): GeminiPart {
+  const parsed = parseAttachmentUrl(url);
+  if (parsed?.data !== undefined) return { inlineData: { mimeType: parsed.mimeType, data: parsed.data } };
+  if (parsed?.id) return { fileData: { mimeType: parsed.mimeType, fileUri: url, ...(name && { displayName: name }) } };
+  return { text: label };
+}
+
+/**
+ * Converts a Gemini history into OpenAI messages.
+ * @param systemPrompt Becomes the leading system message, which Gemini keeps
+ * outside the history.
+ */
+export function geminiToOpenAI(history: GeminiMessage[], systemPrompt: string): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [{ role: 'system', content: systemPrompt }];
+
+  history.forEach((message, index) => {
+    const responses = message.parts.filter(p => p.functionResponse);
+    if (responses.length > 0) {
+      const previousCalls = (history[index - 1]?.parts ?? []).filter(p => p.functionCall).map(p => p.functionCall!);
+      responses.forEach((part, i) => {
+        const { id, response } = part.functionResponse!;
+        messages.push({
+          role: 'tool',
+          tool_call_id: id ?? previousCalls[i]?.id ?? `call-${index - 1}-${i}`,
+          content: String(response?.content ?? JSON.stringify(response)),
+        });
+      });
+      return;
+    }
+
+    if (message.role === 'user') {
+      const content: ChatCompletionContentPart[] = [];
+      for (const part of message.parts) {
+        const media = geminiMedia(part);
+        if (part.text) {
+          content.push({ type: 'text', text: part.text });
+        } else if (media?.mimeType.startsWith('image/')) {
+          content.push({ type: 'image_url', image_url: { url: media.url } });
+        } else if (media?.mimeType === 'application/pdf') {
+          // Inline data keeps no file name.
+          content.push({ type: 'file', file: { filename: media.name ?? 'document.pdf', file_data: media.url } });
+        } else if (media) {
+          content.push({ type: 'text', text: `[Attachment: ${media.name ?? media.mimeType}]` });
+        }
+      }
+      messages.push({ role: 'user', content: content.length === 1 && content[0].type === 'text' ? content[0].text : content });
+      return;
+    }
+
+    // Gemini calls and responses may have no id. Borrow the id from the
+    // other side of the pair, or derive the same one on both sides.
+    const nextResponses = (history[index + 1]?.parts ?? []).filter(p => p.functionResponse).map(p => p.functionResponse!);
+    const text = message.parts.map(p => p.text ?? '').join('');
+    const toolCalls = message.parts.filter(p => p.functionCall).map((part, i) => {
+      const call = part.functionCall!;
+      return {
+        id: call.id ?? nextResponses[i]?.id ?? `call-${index}-${i}`,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+      };
+    });
+    messages.push(toolCalls.length > 0
+      ? { role: 'assistant', content: text || null, tool_calls: toolCalls }
+      : { role: 'assistant', content: text });
+  });
+
+  return messages;
+}
+
+/**
+ * Converts OpenAI messages into a Gemini history. The system message is
+ * dropped because Gemini takes it as a separate instruction, and
+ * consecutive messages of the same role are merged since Gemini expects
+ * turns to alternate.
+ */
+export function openAIToGemini(history: OpenAIMessage[]): GeminiMessage[] {
+  const messages: GeminiMessage[] = [];
+  const callNames: Record<string, string> = {};
+
+  const push = (role: GeminiMessage['role'], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.parts.push(...parts);
+    } else {
+      messages.push({ role, parts });
+    }
+  };
+
+  for (const message of history) {
+    switch (message.role) {
+      case 'user': {
+        const parts: GeminiPart[] = [];
+        if (typeof message.content === 'string') {
+          parts.push({ text: message.content });
+        } else {
+          for (const part of message.content) {
+            if (part.type === 'text') {
+              parts.push({ text: part.text });
+            } else if (part.type === 'image_url') {
+              parts.push(toGeminiMedia(part.image_url.url, `[Image: ${part.image_url.url}]`));
+            } else if (part.type === 'file') {
+              const label = `[Attachment: ${part.file.filename ?? part.file.file_id ?? 'file'}]`;
+              parts.push(part.file.file_data ? toGeminiMedia(part.file.file_data, label, part.file.filename) : { text: label });
+            }
+          }
+        }
+        push('user', parts);
+        break;
+      }
+      case 'assistant': {
+        const parts: GeminiPart[] = [];
+        const text = typeof message.content === 'string'
+          ? message.content
+          : (message.content ?? []).map(p => p.type === 'text' ? p.text : '').join('');
+        if (text) parts.push({ text });
+        for (const call of message.tool_calls ?? []) {
+          callNames[call.id] = call.function.name;
+          let args: Record<string, any> = {};
+          try {
+            args = JSON.parse(call.function.arguments || '{}');
+          } catch {
+            args = { raw: call.function.arguments };
+          }
+          parts.push({ functionCall: { id: call.id, name: call.function.name, args } });
+        }
+        push('model', parts);
+        break;
+      }
+      case 'tool': {
+        const content = typeof message.content === 'string'
+          ? message.content
+          : message.content.map(p => p.text).join('');
+        push('user', [{
+          functionResponse: { id: message.tool_call_id, name: callNames[message.tool_call_id] ?? 'tool', response: { content } },
+        }]);
+        break;
+      }
+      // System and developer messages become the provider's system prompt.
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Converts a history between provider formats. Text, images and delegation
+ * exchanges (tool calls and their results, paired by id) are preserved.
+ * @param systemPrompt Used when the target format keeps it in the history.
+ */
+export function convertHistory(history: ChatHistory, to: HistoryFormat, systemPrompt: string): ChatHistory {
+  const from = detectHistoryFormat(history);
+  if (history.length === 0 || from === to) return history;
+  return to === 'openai'
+    ? geminiToOpenAI(history as GeminiMessage[], systemPrompt)
+    : openAIToGemini(history as OpenAIMessage[]);
+}
+
+/**
+ * Converts every branch of a history tree between provider formats. Each
+ * exchange is converted on its own, and the preamble is rebuilt for the
+ * target: OpenAI keeps the system prompt there, Gemini keeps nothing.
+ */
+export function convertHistoryTree(tree: HistoryTree, to: HistoryFormat, systemPrompt: string): HistoryTree {
+  const nodes: Record<string, HistoryNode> = {};
+  for (const node of Object.values(tree.nodes)) {
+    const entries = convertHistory(node.entries, to, systemPrompt);
+    // Converting to OpenAI adds a system message to every exchange.
+    nodes[node.id] = { ...node, entries: entries !== node.entries && to === 'openai' ? entries.slice(1) : entries };
+  }
+  const preamble: ChatHistory = to === 'gemini'
+    ? []
+    : tree.preamble.length > 0 ? tree.preamble : [{ role: 'system', content: systemPrompt }];
+  return { ...tree, preamble, nodes };
+}
+
+// A file attached to a message, other than an image. Files sent as data
+// have a URL (a data URL or a stored attachment's reference); text files
+// and extracted PDFs have their text.
+export interface DisplayFile {
+  name: string;
+  mimeType: string;
+  url?: string;
+  text?: string;
+}
+
+// A piece of displayable content: text, an image URL (usually a stored
+// attachment's reference), or another attached file.
+export type DisplayPart = { text: string } | { image: string } | { file: DisplayFile };
+
+/**
+ * Shows a text part as an attached file if it carries one.
+ */
+function toTextPart(text: string): DisplayPart {
+  const attachment = parseAttachmentText(text);
+  return attachment ? { file: { name: attachment.name, mimeType: 'text/plain', text: attachment.text } } : { text };
+}
+
+/**
+ * Shows inline data or a stored attachment as an image, or as a file named
+ * after its type if it has no name.
+ */
+function toDataPart(mimeType: string, url: string, name?: string): DisplayPart {
+  if (mimeType.startsWith('image/')) return { image: url };
+  return { file: { name: name ?? (mimeType === 'application/pdf' ? 'document.pdf' : mimeType), mimeType, url } };
+}
+
+// One message as shown to the operator, in either history format.
+export interface DisplayMessage {
+  role: 'user' | 'agent';
+  // Index of the first history entry that belongs to this message.
+  index: number;
+  parts: DisplayPart[];
+  delegations: AgentTranscript[];
+}
+
+/**
+ * Groups a history into the messages shown to the operator. A persona turn
+ * that delegated spans several history entries (tool calls, tool results and
+ * the final answer) and becomes one message whose delegations carry the
+ * sub-agent transcripts. Only the turn's latest text is kept, matching what
+ * the chat shows once a response completes.
+ */
+export function toDisplayMessages(history: ChatHistory, transcripts: TranscriptMap = {}): DisplayMessage[] {
+  const messages: DisplayMessage[] = [];
+  let agentMessage: DisplayMessage | null = null;
+  // Names and arguments of tool calls by id, for results without a stored
+  // transcript.
+  const callNames: Record<string, string> = {};
+  const callArgs: Record<string, Record<string, any>> = {};
+
+  const getAgentMessage = (index: number): DisplayMessage => {
+    if (!agentMessage) {
+      agentMessage = { role: 'agent', index, parts: [], delegations: [] };
+      messages.push(agentMessage);
+    }
+    return agentMessage;
+  };
+
+  const setAgentText = (index: number, text: string) => {
+    getAgentMessage(index).parts = [{ text }];
+  };
+
+  const addUserMessage = (index: number, parts: DisplayPart[]) => {
+    agentMessage = null;
+    messages.push({ role: 'user', index, parts, delegations: [] });
+  };
+
+  const addToolResult = (index: number, id: string | undefined, content: string) => {
+    const args = id ? callArgs[id] : undefined;
+    const name = id ? callNames[id] : undefined;
+    const tool = name && name !== 'invokeAgent' ? name : undefined;
+    getAgentMessage(index).delegations.push((id && transcripts[id]) || {
+      agent: tool ?? args?.agentName ?? 'AGENT',
+      prompt: tool ? JSON.stringify(args ?? {}) : args?.prompt ?? '',
+      response: content,
+      tool,
+      children: [],
+    });
+  };
+
+  history.forEach((message, index) => {
+    if (message.role === 'system') return;
+
+    if ('parts' in message && Array.isArray(message.parts)) { // Gemini format
+      const parts = (message as GeminiMessage).parts;
+      if (parts.some(p => p.functionResponse)) {
+        for (const part of parts) {
+          if (part.functionResponse) {
+            addToolResult(index, part.functionResponse.id, String(part.functionResponse.response?.content ?? ''));
+          }
+        }
+      } else if (message.role === 'user') {
+        addUserMessage(index, parts.flatMap((part): DisplayPart[] => {
+          const media = geminiMedia(part);
+          if (part.text) return [toTextPart(part.text)];
+          if (media) return [toDataPart(media.mimeType, media.url, media.name)];
+          return [];
+        }));
+      } else {
+        getAgentMessage(index);
+        for (const part of parts) {
+          if (part.text) setAgentText(index, part.text);
+          if (part.functionCall?.id) {
+            callNames[part.functionCall.id] = part.functionCall.name;
+            callArgs[part.functionCall.id] = part.functionCall.args;
+          }
+        }
+      }
+    } else if (message.role === 'tool') { // OpenAI format
+      addToolResult(index, message.tool_call_id, typeof message.content === 'string' ? message.content : '');
+    } else if (message.role === 'user' && 'content' in message) {
+      if (typeof message.content === 'string') {
+        addUserMessage(index, [toTextPart(message.content)]);
+      } else {
+        addUserMessage(index, message.content.flatMap((part): DisplayPart[] => {
+          if (part.type === 'text') return [toTextPart(part.text)];
+          if (part.type === 'image_url') return [{ image: part.image_url.url }];
+          if (part.type === 'file' && part.file.file_data) {
+            const mimeType = parseAttachmentUrl(part.file.file_data)?.mimeType ?? 'application/octet-stream';
+            return [{ file: { name: part.file.filename ?? 'file', mimeType, url: part.file.file_data } }];
+          }
+          return [];
+        }));
+      }
+    } else if (message.role === 'assistant') {
+      getAgentMessage(index);
+      if (typeof message.content === 'string' && message.content) {
+        setAgentText(index, message.content);
+      }
+      for (const call of message.tool_calls ?? []) {
+        callNames[call.id] = call.function.name;
+        try {
+          callArgs[call.id] = JSON.parse(call.function.arguments);
+        } catch {
+          // Leave malformed arguments out; the block falls back to defaults.
+        }
+      }
+    }
+  });
+
+  return messages;
+}
@@ -2,18 +2,38 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Chat, Type } from "@google/genai";
-import type { Part } from "@google/genai";
-import OpenAI from "openai";
-import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions";
+import { exportConversations, exportFileName, EXPORT_FILE_TYPES, parseImport } from './conversation-io';
+import type { ExportFormat } from './conversation-io';
 import * as db from './db';
-import type { ChatHistory, GeminiMessage, OpenAIMessage } from './db';
-
-// API keys are read from environment variables. These are expected to be
-// available in the `process.env` object in the build environment.
-const geminiApiKey = process.env.API_KEY;
-const openAIApiKey = process.env.OPENAI_API_KEY;
-
+import type { AgentTranscript, AuditRecord, ChatHistory, ContextCompaction, Conversation, GeminiMessage, HistoryNode, HistoryTree, LogEventType, LogRecord, ModelUsage, OpenAIMessage, TokenUsage, TranscriptMap } from './db';
+import { attachmentFromUrl, attachmentOpenUrl, attachmentPreviewUrl, attachmentProblem, attachmentUrl, deleteOrphanedAttachments, embedConversationAttachments, getAttachmentStorage, historyAttachmentIds, MAX_ATTACHMENTS, migrateEmbeddedAttachments, prepareAttachments, readAttachment, storeConversationAttachments } from './attachments';
+import type { Attachment } from './attachments';
+import { compactHistory, contextLimit, DEFAULT_CONTEXT_SETTINGS, describeCompaction, estimateHistoryTokens, findContextWindow, validateContextSettings } from './context';
+import type { ContextSettings } from './context';
+import { convertHistory, convertHistoryTree, toDisplayMessages } from './history-convert';
+import type { DisplayMessage, DisplayPart } from './history-convert';
+import { getProvider, listProviders } from './providers';
+import type { ChatInput, ChatProvider, ProviderChat, ToolCall, ToolDeclaration } from './providers';
+import { MarkdownRenderer } from './markdown';
+import { exportPersonaPack, getPersona, isBuiltInPersona, listPersonas, parsePersonaPack, PERSONA_NAME_TO_KEY_MAP, setCustomPersonas, validatePersona } from './personas';
+import type { Persona, PersonaKey } from './personas';
+import { formatRunResult, runCode } from './sandbox';
+import type { CodeLanguage } from './sandbox';
+import { parseSearchQuery, rankSearchEntries } from './search';
+import type { SearchHit } from './search';
+import { DEFAULT_POLICIES, evaluatePolicies, exportPolicies, parsePolicies, validatePolicy } from './policies';
+import type { Policy, PolicyEffect, PolicyRequest } from './policies';
+import { commandSignature, completeFrom, completeInput, getCommand, InputHistory, listCommands, parseCommand, registerCommand, runCommand } from './commands';
+import type { Completion, CompletionResult } from './commands';
+import { collectStorageStats, describeCheck, formatBytes, formatReport, listKeySources, probeProvider, providerStatus, RECENT_ERROR_LIMIT, roundTrip } from './diagnostics';
+import type { CheckResult, DiagnosticsReport, PersonaCheck, ProviderStatus } from './diagnostics';
+import { WindowManager } from './windows';
+import type { WindowLayout } from './windows';
+import { executePlan, nextStepId, parsePlan, planningPrompt, STEP_RETRIES, stepPrompt, synthesisPrompt, validatePlan } from './workflow';
+import type { Plan, PlanStep, StepResult, StepStatus } from './workflow';
+import { declareTools, getTool, isDefaultTool, isToolAllowed, listTools, registerTool } from './tools';
+import { addUsage, checkBudget, DEFAULT_BUDGET, DEFAULT_PRICES, formatCost, formatTokens, formatUsage, mergeUsage, totalTokens, transcriptUsage, usageCost, validateBudget, validatePrice } from './usage';
+import type { Budget, BudgetStatus, ModelPrice } from './usage';
 
 // --- DOM Elements ---
 // Landing Page
@@ -24,84 +44,692 @@ const personasGrid = document.querySelector('#personas .personas-grid') as HTMLD
 // App
 const cuaWindow = document.getElementById('cua-window') as HTMLDivElement;
 const titleBar = document.getElementById('title-bar') as HTMLDivElement;
+const windowControls = document.getElementById('window-controls') as HTMLDivElement;
 const chatContainer = document.getElementById('chat-container') as HTMLDivElement;
 const chatForm = document.getElementById('chat-form') as HTMLFormElement;
 const chatInput = document.getElementById('chat-input') as HTMLInputElement;
 const submitButton = chatForm.querySelector('button[type="submit"]') as HTMLButtonElement;
+const autocompleteList = document.getElementById('autocomplete-list') as HTMLUListElement;
+const stopButton = document.getElementById('stop-button') as HTMLButtonElement;
 const modelSelector = document.getElementById('model-selector') as HTMLSelectElement;
 const personaSelector = document.getElementById('persona-selector') as HTMLSelectElement;
 const clearHistoryButton = document.getElementById('clear-history-button') as HTMLButtonElement;
-const toggleMaximizeButton = document.getElementById('toggle-maximize-button') as HTMLButtonElement;
+const conversationSelector = document.getElementById('conversation-selector') as HTMLSelectElement;
+const newConversationButton = document.getElementById('new-conversation-button') as HTMLButtonElement;
+const renameConversationButton = document.getElementById('rename-conversation-button') as HTMLButtonElement;
+const duplicateConversationButton = document.getElementById('duplicate-conversation-button') as HTMLButtonElement;
+const deleteConversationButton = document.getElementById('delete-conversation-button') as HTMLButtonElement;
+const exportSelector = document.getElementById('export-selector') as HTMLSelectElement;
+const importButton = document.getElementById('import-button') as HTMLButtonElement;
+const importFileInput = document.getElementById('import-file-input') as HTMLInputElement;
+const searchButton = document.getElementById('search-button') as HTMLButtonElement;
+const editPersonasButton = document.getElementById('edit-personas-button') as HTMLButtonElement;
+const policyButton = document.getElementById('policy-button') as HTMLButtonElement;
+const storageButton = document.getElementById('storage-button') as HTMLButtonElement;
+const searchPanel = document.getElementById('search-panel') as HTMLDivElement;
+const searchInput = document.getElementById('search-input') as HTMLInputElement;
+const searchCloseButton = document.getElementById('search-close-button') as HTMLButtonElement;
+const searchResults = document.getElementById('search-results') as HTMLDivElement;
 const uploadButton = document.getElementById('upload-button') as HTMLButtonElement;
+const workflowButton = document.getElementById('workflow-button') as HTMLButtonElement;
 const fileInput = document.getElementById('file-input') as HTMLInputElement;
 const stagedFileContainer = document.getElementById('staged-file-container') as HTMLDivElement;
 const orchestrationLogContent = document.getElementById('orchestration-log-content') as HTMLDivElement;
+const orchestrationWaterfall = document.getElementById('orchestration-waterfall') as HTMLDivElement;
+const logTypeFilter = document.getElementById('log-type-filter') as HTMLSelectElement;
+const logAgentFilter = document.getElementById('log-agent-filter') as HTMLSelectElement;
+const logViewButton = document.getElementById('log-view-button') as HTMLButtonElement;
+const logExportButton = document.getElementById('log-export-button') as HTMLButtonElement;
 const resizer = document.getElementById('resizer') as HTMLDivElement;
 const chatPanel = document.getElementById('chat-panel') as HTMLDivElement;
 
+// Persona Editor
+const personaEditor = document.getElementById('persona-editor') as HTMLDialogElement;
+const personaForm = document.getElementById('persona-form') as HTMLFormElement;
+const personaEditorCloseButton = document.getElementById('persona-editor-close') as HTMLButtonElement;
+const personaList = document.getElementById('persona-list') as HTMLSelectElement;
+const personaNewButton = document.getElementById('persona-new-button') as HTMLButtonElement;
+const personaImportButton = document.getElementById('persona-import-button') as HTMLButtonElement;
+const personaExportButton = document.getElementById('persona-export-button') as HTMLButtonElement;
+const personaImportInput = document.getElementById('persona-import-input') as HTMLInputElement;
+const personaNameInput = document.getElementById('persona-name') as HTMLInputElement;
+const personaRoleInput = document.getElementById('persona-role') as HTMLInputElement;
+const personaSummaryInput = document.getElementById('persona-summary') as HTMLInputElement;
+const personaDescriptionInput = document.getElementById('persona-description') as HTMLTextAreaElement;
+const personaToneInput = document.getElementById('persona-tone') as HTMLInputElement;
+const personaProviderInput = document.getElementById('persona-provider') as HTMLSelectElement;
+const personaModelInput = document.getElementById('persona-model') as HTMLInputElement;
+const personaMarkdownInput = document.getElementById('persona-markdown') as HTMLInputElement;
+const personaDelegatesFieldset = document.getElementById('persona-delegates') as HTMLFieldSetElement;
+const personaToolsFieldset = document.getElementById('persona-tools') as HTMLFieldSetElement;
+const personaDeleteButton = document.getElementById('persona-delete-button') as HTMLButtonElement;
+
+// Approval Gate and Policy Editor
+const approvalDialog = document.getElementById('approval-dialog') as HTMLDialogElement;
+const approvalSummary = document.getElementById('approval-summary') as HTMLParagraphElement;
+const approvalPolicy = document.getElementById('approval-policy') as HTMLParagraphElement;
+const approvalArgs = document.getElementById('approval-args') as HTMLPreElement;
+const policyEditor = document.getElementById('policy-editor') as HTMLDialogElement;
+const policyEditorCloseButton = document.getElementById('policy-editor-close') as HTMLButtonElement;
+const policyRows = document.getElementById('policy-rows') as HTMLTableSectionElement;
+const policyToolNames = document.getElementById('policy-tool-names') as HTMLDataListElement;
+const policyAddButton = document.getElementById('policy-add-button') as HTMLButtonElement;
+const policyResetButton = document.getElementById('policy-reset-button') as HTMLButtonElement;
+const policyImportButton = document.getElementById('policy-import-button') as HTMLButtonElement;
+const policyExportButton = document.getElementById('policy-export-button') as HTMLButtonElement;
+const policyImportInput = document.getElementById('policy-import-input') as HTMLInputElement;
+const policySaveButton = document.getElementById('policy-save-button') as HTMLButtonElement;
+const auditExportButton = document.getElementById('audit-export-button') as HTMLButtonElement;
+const auditLogList = document.getElementById('audit-log-list') as HTMLOListElement;
+
+// Usage and Budget
+const usageStatusButton = document.getElementById('usage-status') as HTMLButtonElement;
+const usageDialog = document.getElementById('usage-dialog') as HTMLDialogElement;
+const usageDialogCloseButton = document.getElementById('usage-dialog-close') as HTMLButtonElement;
+const usageRows = document.getElementById('usage-rows') as HTMLTableSectionElement;
+const budgetCostInput = document.getElementById('budget-cost') as HTMLInputElement;
+const budgetTokensInput = document.getElementById('budget-tokens') as HTMLInputElement;
+const budgetWarnInput = document.getElementById('budget-warn') as HTMLInputElement;
+const budgetActionInput = document.getElementById('budget-action') as HTMLSelectElement;
+const priceRows = document.getElementById('price-rows') as HTMLTableSectionElement;
+const priceAddButton = document.getElementById('price-add-button') as HTMLButtonElement;
+const priceResetButton = document.getElementById('price-reset-button') as HTMLButtonElement;
+const usageSaveButton = document.getElementById('usage-save-button') as HTMLButtonElement;
+const contextStrategyInput = document.getElementById('context-strategy') as HTMLSelectElement;
+const contextLimitInput = document.getElementById('context-limit') as HTMLInputElement;
+const contextKeepInput = document.getElementById('context-keep') as HTMLInputElement;
+const contextInfo = document.getElementById('context-info') as HTMLParagraphElement;
+
+// Attachment Storage
+const storageDialog = document.getElementById('storage-dialog') as HTMLDialogElement;
+const storageDialogCloseButton = document.getElementById('storage-dialog-close') as HTMLButtonElement;
+const storageSummary = document.getElementById('storage-summary') as HTMLParagraphElement;
+const storageRows = document.getElementById('storage-rows') as HTMLTableSectionElement;
+const storageCleanupButton = document.getElementById('storage-cleanup-button') as HTMLButtonElement;
+
+// Desktop
+const launchIcon = document.getElementById('icon-launch') as HTMLDivElement;
+const chatIcon = document.getElementById('icon-chat') as HTMLDivElement;
+const diagnosticsIcon = document.getElementById('icon-diagnostics') as HTMLDivElement;
+const taskbar = document.getElementById('taskbar') as HTMLDivElement;
+const taskbarWindows = document.getElementById('taskbar-windows') as HTMLDivElement;
+const taskbarCascadeButton = document.getElementById('taskbar-cascade-button') as HTMLButtonElement;
+const taskbarTileButton = document.getElementById('taskbar-tile-button') as HTMLButtonElement;
+const chatWindowTemplate = document.getElementById('chat-window-template') as HTMLTemplateElement;
+
+// Workflow
+const planViewTemplate = document.getElementById('plan-view-template') as HTMLTemplateElement;
+const planStepTemplate = document.getElementById('plan-step-template') as HTMLTemplateElement;
+
+// Diagnostics
+const diagnosticsWindow = document.getElementById('diagnostics-window') as HTMLDivElement;
+const diagnosticsTitleBar = document.getElementById('diagnostics-title-bar') as HTMLDivElement;
+const diagnosticsWindowControls = document.getElementById('diagnostics-window-controls') as HTMLDivElement;
+const diagnosticsProviderRows = document.getElementById('diagnostics-provider-rows') as HTMLTableSectionElement;
+const diagnosticsPersonaRows = document.getElementById('diagnostics-persona-rows') as HTMLTableSectionElement;
+const diagnosticsStorageSummary = document.getElementById('diagnostics-storage-summary') as HTMLParagraphElement;
+const diagnosticsSessionRows = document.getElementById('diagnostics-session-rows') as HTMLTableSectionElement;
+const diagnosticsErrorList = document.getElementById('diagnostics-error-list') as HTMLUListElement;
+const diagnosticsProbeButton = document.getElementById('diagnostics-probe-button') as HTMLButtonElement;
+const diagnosticsSelfTestButton = document.getElementById('diagnostics-self-test-button') as HTMLButtonElement;
+const diagnosticsCopyButton = document.getElementById('diagnostics-copy-button') as HTMLButtonElement;
+
 // --- State ---
-let stagedFile: File | null = null;
-let isDragging = false;
-let dragOffsetX = 0;
-let dragOffsetY = 0;
-let lastPosition = { top: '', left: '' };
+let stagedFiles: File[] = [];
+// Object URLs of the staged image previews, revoked when they are redrawn.
+let stagedPreviewUrls: string[] = [];
+let searchDebounce: number | undefined;
+// Kara's approval policies, loaded from the settings store at start-up.
+let policies: Policy[] = DEFAULT_POLICIES.map(p => ({ ...p }));
+// Policies being edited in the Policy Editor, saved to `policies` on Save.
+let draftPolicies: Policy[] = [];
+// Approval prompts for concurrent calls are shown one after another.
+let approvalQueue: Promise<unknown> = Promise.resolve();
+// Aborts the request running in the chat window; set while one runs.
+let activeRequest: AbortController | null = null;
+// Model prices and the conversation budget, loaded from the settings store.
+let prices: ModelPrice[] = DEFAULT_PRICES.map(p => ({ ...p }));
+let budget: Budget = { ...DEFAULT_BUDGET };
+// Prices being edited in the Usage dialog, saved to `prices` on Save.
+let draftPrices: ModelPrice[] = [];
+// How the history is cut down when it outgrows the model's context window.
+let contextSettings: ContextSettings = { ...DEFAULT_CONTEXT_SETTINGS };
+// Inputs sent from the chat box, recalled with the arrow keys.
+let inputHistory = new InputHistory();
+// The suggestions shown for the chat input, the highlighted one, and
+// whether the operator moved the highlight (only then does Enter pick it).
+let completion: CompletionResult | null = null;
+let completionIndex = 0;
+let completionChosen = false;
+// What the Diagnostics window shows, filled in as its checks finish, and
+// the provider and persona checks still running.
+let diagnostics: DiagnosticsReport | null = null;
+const pendingChecks = new Set<ProviderStatus | PersonaCheck>();
+// The window layout of the last launch, and whether it has been restored;
+// the layout is only saved from then on, a moment after it stops changing.
+let savedLayout: DesktopLayout | undefined;
+let desktopRestored = false;
+let layoutDebounce: number | undefined;
+// Whether messages to Lyra or Dude are planned and run as workflows.
+let workflowMode = false;
 
 // --- Personas ---
-const PERSONAS = {
-  'CUA': { name: 'CUA', role: 'Common User Access', description: `You are CUA (Common User Access), a friendly and knowledgeable computer system interface. Respond to user queries as if you are the operating system itself. Use a slightly formal, clear, and helpful tone. Your responses should be formatted as if in a classic terminal. Do not use Markdown.`, summary: 'The classic, friendly computer system interface.', tone: null },
-  'Lyra': { name: 'Lyra', role: 'Master Orchestrator', description: 'As the Master Orchestrator, you supervise task flows and coordinate multi-agent operations. Your expertise is in data orchestration, validation, and system health.', summary: 'Supervises task flows and coordinates multi-agent operations.', tone: 'Authoritative, precise, and systematic' },
-  'Kara': { name: 'Kara', role: 'Security & Compliance Officer', description: 'You monitor all agent actions, ensuring safe orchestration and governance. You are the expert on security protocols, compliance, and risk assessment.', summary: 'Monitors all agent actions for security, governance, and compliance.', tone: 'Vigilant, formal, and uncompromising' },
-  'Sophia': { name: 'Sophia', role: 'Semantic Intelligence Analyst', description: 'You handle complex reasoning, semantic mapping, and context linking. Your specialty is in understanding deep context and providing insightful analysis.', summary: 'Handles complex reasoning, semantic mapping, and deep context analysis.', tone: 'Analytical, insightful, and articulate' },
-  'Cecilia': { name: 'Cecilia', role: 'Assistive Technology Lead', description: 'You provide real-time guidance and adaptive support to the operator. Your goal is to enhance the user\'s workflow with assistive technology.', summary: 'Provides real-time guidance and adaptive workflow support.', tone: 'Helpful, clear, and supportive' },
-  'Guac': { name: 'Guac', role: 'Communication Moderator', description: 'You oversee inter-application messaging and network security, ensuring all communications are secure, efficient, and properly routed.', summary: 'Oversees secure and efficient inter-application messaging.', tone: 'Concise, secure, and reliable' },
-  'Andie': { name: 'Andie', role: 'Code Execution Specialist', description: 'You specialize in executing and testing code snippets across various languages and environments, ensuring functionality and performance.', summary: 'Executes and tests code snippets across multiple environments.', tone: 'Technical, literal, and efficient' },
-  'Dan': { name: 'Dan', role: 'Web & API Integrator', description: 'A full-stack web maestro, you craft seamless user experiences and integrate third-party APIs flawlessly.', summary: 'Crafts seamless user experiences and integrates third-party APIs.', tone: 'Practical, results-driven, and clear' },
-  'Stan': { name: 'Stan', role: 'Infrastructure Guardian', description: 'You are a vigilant protector specializing in infrastructure deployment, firewall configurations, and system stability.', summary: 'Deploys infrastructure and guards system stability with vigilance.', tone: 'Professional, cautious, and detail-oriented' },
-  'Dude': { name: 'Dude', role: 'Automation & Workflow Maestro', description: 'An expert in workflow automation, you focus on orchestrating complex tasks, managing APIs, and maximizing operational efficiency.', summary: 'Orchestrates complex tasks and maximizes operational efficiency.', tone: 'Organized, prompt, and efficiency-driven' },
-};
 
-type PersonaKey = keyof typeof PERSONAS;
-
-const PERSONA_NAME_TO_KEY_MAP = Object.fromEntries(
-  Object.entries(PERSONAS).map(([key, value]) => [value.name, key as PersonaKey])
-);
+/**
+ * Returns a persona by key. Conversations can outlive a deleted custom
+ * persona, so unknown keys fall back to CUA.
+ */
+function personaOf(key: PersonaKey): Persona {
+  return getPersona(key) ?? getPersona('CUA')!;
+}
 
 /**
  * Generates the system prompt based on the selected persona.
  */
 function generateSystemPrompt(personaKey: PersonaKey): string {
-  const p = PERSONAS[personaKey];
-  if (personaKey === 'CUA') {
+  const p = personaOf(personaKey);
+  if (p.key === 'CUA') {
     return p.description;
   }
-  return `You are ${p.name}, a ${p.role}. ${p.description} Your tone must be ${p.tone!}. You can invoke other agents for tasks outside your expertise.`;
+  const tone = p.tone ? ` Your tone must be ${p.tone}.` : '';
+  return `You are ${p.name}, a ${p.role}. ${p.description}${tone} You can invoke other agents for tasks outside your expertise.`;
+}
+
+/**
+ * Returns the model a persona uses on a provider: its own model on its
+ * default provider (or on any provider if it has none), otherwise the
+ * provider's default.
+ */
+function personaModel(persona: Persona, provider: ChatProvider): string | undefined {
+  return !persona.defaultProvider || persona.defaultProvider === provider.id ? persona.model : undefined;
+}
+
+/**
+ * Returns the provider a sub-agent runs on: its default provider when that
+ * is available, otherwise the selected one.
+ */
+function personaProvider(persona: Persona): ChatProvider {
+  const provider = persona.defaultProvider ? getProvider(persona.defaultProvider) : undefined;
+  return provider?.available ? provider : getSelectedProvider();
+}
+
+// The chat for the active provider/persona session.
+let activeChat: ProviderChat;
+
+// The conversation shown in the chat window. New conversations stay in
+// memory until their first exchange is saved.
+let activeConversation: Conversation;
+
+const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const TITLE_SYSTEM_PROMPT = 'You write short titles for chat conversations. Reply with a title of at most six words, without quotes and without a trailing period.';
+const SUMMARY_SYSTEM_PROMPT = 'You condense chat conversations into compact notes that let the conversation continue without the full transcript. Keep facts, decisions, open questions, names and numbers; leave out pleasantries. Reply with the notes only.';
+
+// The maximum number of tool-call rounds a single user message may trigger.
+// Read from the environment so runaway delegation can be capped per deployment.
+const MAX_TOOL_ITERATIONS = Number(process.env.MAX_TOOL_ITERATIONS) || 5;
+
+// How many levels deep sub-agents may keep delegating to other agents.
+const MAX_DELEGATION_DEPTH = Number(process.env.MAX_DELEGATION_DEPTH) || 3;
+// Limits for snippets run with the `runCode` tool.
+const SANDBOX_TIMEOUT_MS = Number(process.env.SANDBOX_TIMEOUT_MS) || 5000;
+const SANDBOX_MEMORY_MB = Number(process.env.SANDBOX_MEMORY_MB) || 128;
+
+// Ends the saved text of a response the operator stopped, so the model
+// later knows the answer was cut short.
+const STOPPED_NOTICE = '[Stopped by the operator.]';
+
+// A node in the delegation call tree shown in the Orchestration Log.
+interface CallNode extends AgentTranscript {
+  children: CallNode[];
+  elements?: { root: HTMLDetailsElement; children: HTMLDivElement; response: HTMLDivElement };
+}
+
+// Where an agent's output appears in the chat: its streamed text, and the
+// container for blocks of the agents it delegates to.
+interface AgentView {
+  text: HTMLElement;
+  children: HTMLElement;
+  // Set when the agent's persona renders Markdown.
+  markdown?: MarkdownRenderer;
+}
+
+// Ties the log events of a user request to its conversation and message.
+interface RequestTrace {
+  conversationId: string;
+  requestId: string;
+  messageIndex: number;
+  // Tokens the request has used so far, by every agent it reached.
+  usage: ModelUsage;
+  // The conversation's usage including this request, for budget checks.
+  sessionUsage: ModelUsage;
+}
+
+// The persona currently running a tool loop and how it was reached.
+interface AgentContext {
+  personaKey: PersonaKey;
+  // Personas on the current delegation path, outermost first, ending with `personaKey`.
+  chain: PersonaKey[];
+  node: CallNode;
+  view?: AgentView;
+  trace: RequestTrace;
+  // Aborted by the Stop button; shared by every agent of the request.
+  signal: AbortSignal;
+  // Files sent with the operator's message, forwarded to delegated agents.
+  attachments?: Attachment[];
+}
+
+// Structured fields of an Orchestration Log event.
+interface LogDetails {
+  trace?: RequestTrace;
+  // The conversation the event belongs to, when it is not the active one.
+  conversationId?: string;
+  source?: string;
+  target?: string;
+  prompt?: string;
+  durationMs?: number;
+  error?: string;
+  // Shown but not stored, for notices that are repeated on every load.
+  transient?: boolean;
 }
 
-// API Clients and State
-let geminiChat: Chat;
-let openAIMessages: OpenAIMessage[];
+// The log records of the active conversation, oldest first.
+let logRecords: LogRecord[] = [];
 
-const ai = geminiApiKey ? new GoogleGenAI({ apiKey: geminiApiKey }) : null;
-const openai = openAIApiKey ? new OpenAI({ apiKey: openAIApiKey, dangerouslyAllowBrowser: true }) : null;
+/**
+ * Returns the provider currently chosen in the provider selector.
+ */
+function getSelectedProvider(): ChatProvider {
+  const provider = getProvider(modelSelector.value);
+  if (!provider) throw new Error(`Unknown provider '${modelSelector.value}'.`);
+  return provider;
+}
 
 /**
  * Logs an event to the Orchestration Log panel.
  */
-function logOrchestrationEvent(message: string, type: 'user' | 'info' | 'invoke' | 'success' | 'complete' | 'error' = 'info') {
+function logOrchestrationEvent(message: string, type: LogEventType = 'info', details: LogDetails = {}) {
+    const { trace, transient, conversationId, ...fields } = details;
+    const record: LogRecord = {
+        conversationId: trace?.conversationId ?? conversationId ?? activeConversation?.id,
+        requestId: trace?.requestId,
+        messageIndex: trace?.messageIndex,
+        timestamp: Date.now(),
+        type,
+        message,
+        ...fields,
+    };
+    if (record.conversationId === activeConversation?.id) {
+        if (!transient) logRecords.push(record);
+        orchestrationLogContent.appendChild(renderLogRecord(record));
+        orchestrationLogContent.scrollTop = orchestrationLogContent.scrollHeight;
+        if (!orchestrationWaterfall.hidden) renderWaterfall();
+    }
+    if (!transient && record.conversationId) {
+        db.addLogRecord(record).catch(error => console.error('Failed to store log record:', error));
+    }
+}
+
+/**
+ * Creates the log panel entry for a record, hidden if the current filters
+ * exclude it.
+ */
+function renderLogRecord(record: LogRecord): HTMLDivElement {
     const entry = document.createElement('div');
-    entry.className = `log-entry log-${type}`;
-    entry.textContent = message;
-    orchestrationLogContent.appendChild(entry);
+    entry.className = `log-entry log-${record.type}`;
+    entry.dataset.type = record.type;
+    entry.dataset.source = record.source ?? '';
+    entry.dataset.target = record.target ?? '';
+    entry.title = new Date(record.timestamp).toLocaleString();
+
+    const time = document.createElement('span');
+    time.className = 'log-time';
+    time.textContent = new Date(record.timestamp).toLocaleTimeString();
+    entry.append(time, record.durationMs !== undefined ? `${record.message} (${formatDuration(record.durationMs)})` : record.message);
+    entry.hidden = !matchesLogFilters(record);
+    return entry;
+}
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function matchesLogFilters(record: Pick<LogRecord, 'type' | 'source' | 'target'>): boolean {
+    const agent = logAgentFilter.value;
+    return (!logTypeFilter.value || record.type === logTypeFilter.value)
+        && (!agent || record.source === agent || record.target === agent);
+}
+
+/**
+ * Applies the type and agent filters to the log entries in the panel.
+ */
+function applyLogFilters() {
+    orchestrationLogContent.querySelectorAll<HTMLElement>('.log-entry').forEach(entry => {
+        entry.hidden = !matchesLogFilters({
+            type: entry.dataset.type as LogEventType,
+            source: entry.dataset.source,
+            target: entry.dataset.target,
+        });
+    });
+    if (!orchestrationWaterfall.hidden) renderWaterfall();
+}
+
+/**
+ * Loads the stored log of a conversation into the panel, ahead of any
+ * entries added since it was opened.
+ */
+async function loadLogRecords(conversation: Conversation) {
+    const records = await db.listLogRecords(conversation.id);
+    if (conversation !== activeConversation) return;
+    // Records logged while loading are already shown, and may be stored too.
+    const shown = new Set(logRecords.map(r => r.id));
+    const earlier = records.filter(r => !shown.has(r.id));
+    logRecords = [...earlier, ...logRecords];
+
+    const fragment = document.createDocumentFragment();
+    earlier.forEach(record => fragment.appendChild(renderLogRecord(record)));
+    orchestrationLogContent.prepend(fragment);
+    orchestrationLogContent.scrollTop = orchestrationLogContent.scrollHeight;
+    if (!orchestrationWaterfall.hidden) renderWaterfall();
+}
+
+/**
+ * Draws a timing waterfall for each request of the active conversation.
+ * Every timed step (a delegation, or the whole request) is a bar placed
+ * relative to the start of its request.
+ */
+function renderWaterfall() {
+    orchestrationWaterfall.innerHTML = '';
+    const requests = new Map<string, LogRecord[]>();
+    for (const record of logRecords) {
+        if (!record.requestId) continue;
+        if (!requests.has(record.requestId)) requests.set(record.requestId, []);
+        requests.get(record.requestId)!.push(record);
+    }
+
+    for (const records of requests.values()) {
+        const steps = records.filter(r => r.durationMs !== undefined && matchesLogFilters(r));
+        if (steps.length === 0) continue;
+        const start = Math.min(...records.map(r => r.timestamp - (r.durationMs ?? 0)));
+        const total = Math.max(1, Math.max(...records.map(r => r.timestamp)) - start);
+
+        const section = document.createElement('div');
+        section.className = 'waterfall-request';
+        const title = document.createElement('div');
+        title.className = 'waterfall-title';
+        const userRecord = records.find(r => r.type === 'user');
+        title.textContent = `${new Date(start).toLocaleTimeString()} · ${userRecord?.prompt ?? 'Request'}`;
+        title.title = title.textContent;
+        section.appendChild(title);
+
+        for (const step of steps) {
+            const row = document.createElement('div');
+            row.className = 'waterfall-row';
+            const label = document.createElement('span');
+            label.className = 'waterfall-label';
+            label.textContent = `${step.source ? `${step.source} → ` : ''}${step.target ?? step.source} ${formatDuration(step.durationMs!)}`;
+            label.title = step.prompt ?? step.message;
+
+            const track = document.createElement('div');
+            track.className = 'waterfall-track';
+            const bar = document.createElement('div');
+            bar.className = `waterfall-bar${step.type === 'error' ? ' waterfall-error' : ''}${step.type === 'complete' ? ' waterfall-total' : ''}`;
+            bar.style.left = `${((step.timestamp - step.durationMs! - start) / total) * 100}%`;
+            bar.style.width = `${(step.durationMs! / total) * 100}%`;
+            bar.title = step.error ?? step.message;
+            track.appendChild(bar);
+
+            row.append(label, track);
+            section.appendChild(row);
+        }
+        orchestrationWaterfall.appendChild(section);
+    }
+
+    if (!orchestrationWaterfall.hasChildNodes()) {
+        const empty = document.createElement('div');
+        empty.className = 'waterfall-empty';
+        empty.textContent = 'No timed requests to show.';
+        orchestrationWaterfall.appendChild(empty);
+    }
+}
+
+function handleLogViewToggle() {
+    const showWaterfall = orchestrationWaterfall.hidden;
+    orchestrationWaterfall.hidden = !showWaterfall;
+    orchestrationLogContent.hidden = showWaterfall;
+    logViewButton.setAttribute('aria-pressed', String(showWaterfall));
+    if (showWaterfall) renderWaterfall();
+}
+
+/**
+ * Downloads the active conversation's log as a JSON trace.
+ */
+function handleLogExport() {
+    const trace = {
+        conversationId: activeConversation.id,
+        title: activeConversation.title,
+        persona: activeConversation.persona,
+        provider: activeConversation.provider,
+        exportedAt: new Date().toISOString(),
+        records: logRecords,
+    };
+    downloadFile(`${exportFileName([activeConversation], 'json').replace(/\.json$/, '')}-trace.json`, JSON.stringify(trace, null, 2), 'application/json');
+}
+
+function populateLogAgentFilter() {
+    logAgentFilter.length = 1; // Keep "All agents"
+    for (const persona of listPersonas()) {
+        const option = document.createElement('option');
+        option.value = persona.name;
+        option.textContent = persona.name;
+        logAgentFilter.appendChild(option);
+    }
+}
+
+/**
+ * Renders a call tree node into the given container as an expandable block.
+ */
+function renderCallNode(node: CallNode, container: HTMLElement) {
+    const root = document.createElement('details');
+    root.className = 'call-node call-running';
+    root.open = true;
+
+    const summary = document.createElement('summary');
+    summary.textContent = node.agent;
+
+    const prompt = document.createElement('div');
+    prompt.className = 'call-prompt';
+    prompt.textContent = node.prompt;
+
+    const children = document.createElement('div');
+    children.className = 'call-children';
+
+    const response = document.createElement('div');
+    response.className = 'call-response';
+
+    root.append(summary, prompt, children, response);
+    container.appendChild(root);
+    node.elements = { root, children, response };
     orchestrationLogContent.scrollTop = orchestrationLogContent.scrollHeight;
 }
 
+/**
+ * Records a delegation from `parent` in the call tree. The root of the tree
+ * is only rendered once its first delegation happens.
+ */
+function addCallChild(parent: CallNode, agent: string, prompt: string): CallNode {
+    if (!parent.elements) {
+        renderCallNode(parent, orchestrationLogContent);
+    }
+    const child: CallNode = { agent, prompt, status: 'running', children: [] };
+    parent.children.push(child);
+    renderCallNode(child, parent.elements!.children);
+    return child;
+}
+
+/**
+ * Marks a call tree node as finished and shows its response.
+ */
+function finishCallNode(node: CallNode, response: string, status: 'success' | 'error') {
+    node.response = response;
+    node.status = status;
+    if (!node.elements) return;
+    node.elements.root.classList.replace('call-running', `call-${status}`);
+    node.elements.response.textContent = response;
+    // Collapse finished sub-calls so the tree stays readable.
+    if (node.children.length === 0) node.elements.root.open = false;
+}
+
+/**
+ * Copies the data of a call tree node, without its DOM elements, so it can
+ * be stored in IndexedDB.
+ */
+function toTranscript(node: CallNode): AgentTranscript {
+    return {
+        agent: node.agent,
+        prompt: node.prompt,
+        response: node.response,
+        status: node.status,
+        callId: node.callId,
+        tool: node.tool,
+        usage: node.usage,
+        children: node.children.map(toTranscript),
+    };
+}
+
+/**
+ * Sets up a persona message for streaming: a container for nested sub-agent
+ * blocks followed by the response text.
+ * @param personaKey The persona whose output the view shows; decides whether
+ * the text is rendered as Markdown.
+ */
+function createAgentView(contentWrapper: HTMLElement, personaKey?: PersonaKey): AgentView {
+    const children = document.createElement('div');
+    children.className = 'sub-agent-container';
+    const renderMarkdown = personaKey !== undefined && personaOf(personaKey).markdown !== false;
+    const text = document.createElement(renderMarkdown ? 'div' : 'span');
+    contentWrapper.append(children, text);
+    return { text, children, markdown: renderMarkdown ? new MarkdownRenderer(text) : undefined };
+}
+
+/**
+ * Shows an agent's response text in its view. Called with the full text on
+ * every streamed chunk; the Markdown renderer only re-parses what changed.
+ */
+function setAgentText(view: AgentView, text: string) {
+    if (view.markdown) {
+        view.markdown.update(text);
+    } else {
+        view.text.textContent = text;
+    }
+}
+
+/**
+ * Appends a collapsible block for a delegated agent inside its caller's view.
+ */
+function appendSubAgentBlock(parent: AgentView, agentName: string, prompt: string): { block: HTMLDetailsElement; view: AgentView } {
+    const block = document.createElement('details');
+    block.className = 'sub-agent-block thinking';
+    block.open = true;
+
+    const summary = document.createElement('summary');
+    const prefixSpan = document.createElement('span');
+    prefixSpan.className = 'prefix';
+    prefixSpan.textContent = `${agentName.toUpperCase()}>`;
+    const promptSpan = document.createElement('span');
+    promptSpan.className = 'sub-agent-prompt';
+    promptSpan.textContent = prompt;
+    summary.append(prefixSpan, promptSpan);
+
+    const body = document.createElement('div');
+    body.className = 'sub-agent-body';
+    block.append(summary, body);
+    parent.children.appendChild(block);
+
+    scrollChatOf(block);
+    return { block, view: createAgentView(body, PERSONA_NAME_TO_KEY_MAP[agentName]) };
+}
+
+/**
+ * Appends a block for a `runCode` call inside its caller's view: the source,
+ * and a terminal-style area for the output.
+ */
+function appendCodeRunBlock(parent: AgentView, language: string, code: string): { block: HTMLDetailsElement; output: HTMLPreElement } {
+    const block = document.createElement('details');
+    block.className = 'sub-agent-block code-run-block thinking';
+    block.open = true;
+
+    const summary = document.createElement('summary');
+    const prefixSpan = document.createElement('span');
+    prefixSpan.className = 'prefix';
+    prefixSpan.textContent = 'RUN>';
+    const languageSpan = document.createElement('span');
+    languageSpan.className = 'sub-agent-prompt';
+    languageSpan.textContent = language;
+    summary.append(prefixSpan, languageSpan);
+
+    const source = document.createElement('pre');
+    source.className = 'code-run-source';
+    source.textContent = code;
+    const output = document.createElement('pre');
+    output.className = 'code-run-output';
+
+    block.append(summary, source, output);
+    parent.children.appendChild(block);
+
+    scrollChatOf(block);
+    return { block, output };
+}
+
+/**
+ * Renders a stored sub-agent transcript, and its own delegations, as
+ * collapsed blocks.
+ */
+function renderTranscriptBlock(parent: AgentView, transcript: AgentTranscript) {
+    if (transcript.tool === 'runCode') {
+        let args: Record<string, any> = {};
+        try {
+            args = JSON.parse(transcript.prompt);
+        } catch {
+            // Shown without the source below.
+        }
+        const { block, output } = appendCodeRunBlock(parent, args.language ?? 'javascript', String(args.code ?? ''));
+        block.classList.remove('thinking');
+        block.classList.toggle('sub-agent-error', transcript.status === 'error');
+        block.open = false;
+        output.textContent = transcript.response ?? '';
+        return;
+    }
+    const { block, view } = appendSubAgentBlock(parent, transcript.agent, transcript.prompt);
+    block.classList.remove('thinking');
+    block.classList.toggle('sub-agent-error', transcript.status === 'error');
+    block.open = false;
+    setAgentText(view, transcript.response ?? '');
+    for (const child of transcript.children) {
+        renderTranscriptBlock(view, child);
+    }
+    appendUsageNote(view.text.parentElement!, transcriptUsage(transcript));
+}
+
+/**
+ * Shows the tokens and cost of a response below it.
+ */
+function appendUsageNote(container: HTMLElement, usage: ModelUsage) {
+    if (Object.keys(usage).length === 0) return;
+    const note = document.createElement('div');
+    note.className = 'usage-note';
+    note.textContent = formatUsage(usage, prices);
+    container.appendChild(note);
+}
+
 /**
  * Appends a new message container to the chat and returns its content wrapper.
  * @param prefix The prefix for the message (e.g., 'USER>', 'CUA>').
  * @param messageClass An optional CSS class for the message container.
+ * @param container The chat to append to; the main window's by default.
  * @returns The div element where content should be placed.
  */
-function appendMessage(prefix: string, messageClass: string = ''): HTMLDivElement {
+function appendMessage(prefix: string, messageClass: string = '', container: HTMLElement = chatContainer): HTMLDivElement {
   const messageDiv = document.createElement('div');
   messageDiv.className = `message ${messageClass}`;
 
@@ -114,684 +742,3796 @@ function appendMessage(prefix: string, messageClass: string = ''): HTMLDivElemen
 
   messageDiv.appendChild(prefixSpan);
   messageDiv.appendChild(contentWrapper);
-  chatContainer.appendChild(messageDiv);
+  container.appendChild(messageDiv);
 
-  chatContainer.scrollTop = chatContainer.scrollHeight;
+  container.scrollTop = container.scrollHeight;
   return contentWrapper;
 }
 
 /**
- * Renders a list of messages from a chat history object.
+ * Scrolls the chat an element is in, in whichever window, to its end.
  */
-function renderHistory(history: ChatHistory) {
+function scrollChatOf(element: Element) {
+  const container = element.closest<HTMLElement>('.chat-container');
+  if (container) container.scrollTop = container.scrollHeight;
+}
+
+/**
+ * Renders a list of messages from a chat history object. A persona turn
+ * that delegated is shown as one message with nested sub-agent blocks.
+ * @param usage Token usage per request, shown below each response.
+ */
+function renderHistory(history: ChatHistory, transcripts: TranscriptMap = {}, usage: Record<number, ModelUsage> = {}, tree?: HistoryTree) {
   chatContainer.innerHTML = '';
-  // Don't render system messages, function calls, or function responses
-  const messagesToRender = history.filter(m => {
-    if ((m as OpenAIMessage).role === 'system' || (m as OpenAIMessage).role === 'tool') return false;
-    if ((m as GeminiMessage).parts?.some(p => p.functionCall || p.functionResponse)) return false;
-    // Check for tool_calls safely, as it only exists on assistant messages
-    if ('tool_calls' in m && m.tool_calls) return false;
-    return true;
+  const nodes = branchNodes(tree);
+  const lastWrapper = renderMessages(chatContainer, personaSelector.value, history, transcripts, usage, (contentWrapper, index) => {
+    showUserMessageActions(contentWrapper, index, tree, nodes.get(index));
   });
+  // Only a response that ends the history can be regenerated.
+  if (lastWrapper) showRegenerateButton(lastWrapper);
+  const context = [...nodes.values()].reverse().find(node => node.context)?.context;
+  if (context) showContextMarker(context, history);
+}
 
-  const personaPrefix = `${personaSelector.value.toUpperCase()}>`;
+/**
+ * Appends the messages of a history to a chat, with the delegations and
+ * usage of each response.
+ * @param onUserMessage Called with each user message as it is added.
+ * @returns The content wrapper of the last response, if the history ends
+ * with one.
+ */
+function renderMessages(container: HTMLElement, personaKey: PersonaKey, history: ChatHistory, transcripts: TranscriptMap = {}, usage: Record<number, ModelUsage> = {}, onUserMessage?: (contentWrapper: HTMLDivElement, index: number) => void): HTMLDivElement | undefined {
+  const personaPrefix = `${personaKey.toUpperCase()}>`;
+  // The usage of the request whose response comes next.
+  let requestUsage: ModelUsage | undefined;
+  let lastWrapper: HTMLDivElement | undefined;
 
-  for (const message of messagesToRender) {
-    const isUser = message.role === 'user';
-    const prefix = isUser ? 'USER>' : personaPrefix;
-    const msgClass = isUser ? 'user-message' : '';
-    
-    const contentWrapper = appendMessage(prefix, msgClass);
+  for (const message of toDisplayMessages(history, transcripts)) {
+    if (message.role === 'user') {
+      requestUsage = usage[message.index];
+      const contentWrapper = appendMessage('USER>', 'user-message', container);
+      lastWrapper = undefined;
+      contentWrapper.parentElement!.dataset.historyIndex = String(message.index);
+      renderUserParts(contentWrapper, message.parts);
+      onUserMessage?.(contentWrapper, message.index);
+    } else {
+      const contentWrapper = appendMessage(personaPrefix, '', container);
+      contentWrapper.parentElement!.dataset.historyIndex = String(message.index);
+      const view = createAgentView(contentWrapper, personaKey);
+      for (const transcript of message.delegations) {
+        renderTranscriptBlock(view, transcript);
+      }
+      setAgentText(view, message.parts.map(p => 'text' in p ? p.text : '').join(''));
+      if (requestUsage) appendUsageNote(contentWrapper, requestUsage);
+      requestUsage = undefined;
+      lastWrapper = contentWrapper;
+    }
+  }
+  return lastWrapper;
+}
 
-    const addText = (text: string) => {
+/**
+ * Shows the text, images and attached files of a user message.
+ */
+function renderUserParts(contentWrapper: HTMLElement, parts: DisplayPart[]) {
+  for (const part of parts) {
+    if ('image' in part) {
+      // Stored images show their thumbnail, and open in full when clicked.
+      const img = document.createElement('img');
+      img.alt = 'Uploaded image';
+      img.title = 'Open the full image';
+      img.classList.add('attachment-image');
+      contentWrapper.appendChild(img);
+      void attachmentPreviewUrl(part.image).then(url => {
+        if (url) img.src = url;
+        else img.replaceWith(Object.assign(document.createElement('span'), { className: 'attachment missing', textContent: '[Image no longer stored]' }));
+      });
+      img.addEventListener('click', async () => {
+        const url = await attachmentOpenUrl(part.image);
+        if (url) window.open(url, '_blank', 'noopener');
+      });
+    } else if ('file' in part) {
+      const { name, url, text } = part.file;
+      if (text !== undefined) {
+        const details = document.createElement('details');
+        details.className = 'attachment';
+        const summary = document.createElement('summary');
+        summary.textContent = `\u{1F4C4} ${name}`;
+        const body = document.createElement('pre');
+        body.textContent = text;
+        details.append(summary, body);
+        contentWrapper.appendChild(details);
+      } else {
+        const link = document.createElement('a');
+        link.className = 'attachment';
+        link.download = name;
+        link.textContent = `\u{1F4CE} ${name}`;
+        contentWrapper.appendChild(link);
+        void attachmentOpenUrl(url ?? '').then(href => {
+          if (href) link.href = href;
+          else link.classList.add('missing');
+        });
+      }
+    } else {
       const textSpan = document.createElement('span');
-      textSpan.textContent = text;
+      textSpan.textContent = part.text;
       contentWrapper.appendChild(textSpan);
-    };
-
-    const addImage = (src: string, alt: string) => {
-        const img = document.createElement('img');
-        img.src = src;
-        img.alt = alt;
-        contentWrapper.appendChild(img);
-    };
-
-    if ('parts' in message && Array.isArray(message.parts)) { // Gemini format
-      for (const part of (message as GeminiMessage).parts) {
-        if (part.text) {
-          addText(part.text);
-        } else if (part.inlineData) {
-          addImage(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`, 'Uploaded image');
-        }
-      }
-    } else if ('content' in message) { // OpenAI format
-      if (typeof message.content === 'string') {
-        addText(message.content);
-      } else if (Array.isArray(message.content)) { // Multi-part content
-        for (const part of message.content) {
-          if (part.type === 'text') {
-            addText(part.text);
-          } else if (part.type === 'image_url') {
-            addImage(part.image_url.url, 'Uploaded image');
-          }
-        }
-      }
     }
   }
 }
 
+/**
+ * Returns how attachments are shown in a user message.
+ */
+function attachmentParts(attachments: Attachment[]): DisplayPart[] {
+  return attachments.map((attachment): DisplayPart => {
+    if (attachment.text === undefined && attachment.mimeType.startsWith('image/')) return { image: attachmentUrl(attachment) };
+    return attachment.text !== undefined
+      ? { file: { name: attachment.name, mimeType: attachment.mimeType, text: attachment.text } }
+      : { file: { name: attachment.name, mimeType: attachment.mimeType, url: attachmentUrl(attachment) } };
+  });
+}
+
 /**
  * Resets the chat history for a given provider and persona to a fresh state.
  */
-function resetChatState(provider: 'gemini' | 'openai', persona: PersonaKey) {
-  const systemPrompt = generateSystemPrompt(persona);
-  if (provider === 'gemini' && ai) {
-    geminiChat = ai.chats.create({
-      model: 'gemini-2.5-flash',
-      config: { systemInstruction: systemPrompt },
-    });
-  }
-  if (provider === 'openai' && openai) {
-    openAIMessages = [{ role: 'system', content: systemPrompt }];
-  }
+function resetChatState(provider: ChatProvider, persona: PersonaKey) {
+  activeChat = provider.createChat(generateSystemPrompt(persona), undefined, personaModel(personaOf(persona), provider));
 }
 
 /**
- * Handles switching the AI provider or persona. Loads history if available.
+ * Creates an unsaved conversation, by default for the selected persona and
+ * provider.
  */
-async function handleSessionSwitch() {
-  const selectedProvider = modelSelector.value as 'gemini' | 'openai';
+function createDraftConversation(persona: string = personaSelector.value, provider: string = modelSelector.value): Conversation {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    persona,
+    provider,
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+}
+
+/**
+ * Loads a conversation into the chat window and restores its chat state.
+ */
+function loadConversation(conversation: Conversation) {
+  const selectedProvider = getSelectedProvider();
   const selectedPersona = personaSelector.value as PersonaKey;
-  const sessionKey = `${selectedProvider}-${selectedPersona}`;
-  
-  const providerName = modelSelector.options[modelSelector.selectedIndex].text;
+
+  const providerName = selectedProvider.label;
   const personaName = personaSelector.options[personaSelector.selectedIndex].text;
   const prefix = `${selectedPersona.toUpperCase()}>`;
 
+  activeConversation = conversation;
   chatContainer.innerHTML = ''; // Clear the screen first
-  orchestrationLogContent.innerHTML = ''; // Clear the log
-
-  logOrchestrationEvent(`Initializing session for ${personaName} via ${providerName}.`, 'info');
+  orchestrationLogContent.innerHTML = ''; // Clear the log; the stored part is reloaded below
+  logRecords = [];
+  void loadLogRecords(conversation);
 
-  const session = await db.getHistory(sessionKey);
+  logOrchestrationEvent(`Initializing session for ${personaName} via ${providerName}: "${conversation.title}".`, 'info', { transient: true });
 
-  const hasMeaningfulHistory = session?.history?.some(m => m.role === 'user');
+  const hasMeaningfulHistory = conversation.history.some(m => m.role === 'user');
 
-  if (hasMeaningfulHistory && session) {
+  if (hasMeaningfulHistory) {
     // History found, load it
-    const systemPrompt = generateSystemPrompt(selectedPersona);
-    if (selectedProvider === 'gemini' && ai) {
-      geminiChat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: { systemInstruction: systemPrompt },
-        history: session.history as GeminiMessage[],
-      });
-    } else if (selectedProvider === 'openai' && openai) {
-      openAIMessages = session.history as OpenAIMessage[];
-    }
-    renderHistory(session.history);
+    activeChat = selectedProvider.createChat(generateSystemPrompt(selectedPersona), conversation.history, personaModel(personaOf(selectedPersona), selectedProvider));
+    renderHistory(conversation.history, conversation.transcripts, conversation.usage?.requests, conversation.tree);
     appendMessage(prefix, 'system-message').textContent = `Session restored for ${personaName} via ${providerName}.`;
-    logOrchestrationEvent('Session history restored.', 'info');
+    logOrchestrationEvent('Session history restored.', 'info', { transient: true });
   } else {
     // No history, start fresh
     resetChatState(selectedProvider, selectedPersona);
     appendMessage(prefix, 'system-message').textContent = `New session started for ${personaName} via ${providerName}. Awaiting your input.`;
-    logOrchestrationEvent('No history found. New session created.', 'info');
+    logOrchestrationEvent('No history found. New session created.', 'info', { transient: true });
   }
+  updateUsageStatus();
+  updateWorkflowButton();
 
   chatInput.focus();
 }
 
 /**
- * Gets the tool definitions for the current session.
+ * Fills the conversation selector with the saved conversations of the
+ * selected persona, plus the active one if it is still unsaved.
+ * Conversations on another provider are labelled with that provider.
  */
-function getTools(currentPersona: PersonaKey) {
-  const availableAgents = Object.keys(PERSONAS)
-    .filter(key => key !== currentPersona && key !== 'CUA')
-    .map(key => PERSONAS[key as PersonaKey].name);
-
-  if (availableAgents.length === 0) {
-    return { gemini: undefined, openai: undefined };
+async function refreshConversationSelector() {
+  const conversations = await db.listConversations(personaSelector.value);
+  if (!conversations.some(c => c.id === activeConversation.id)) {
+    conversations.unshift(activeConversation);
+  }
+  conversationSelector.innerHTML = '';
+  for (const conversation of conversations) {
+    const option = document.createElement('option');
+    option.value = conversation.id;
+    option.textContent = conversation.provider === modelSelector.value
+      ? conversation.title
+      : `${conversation.title} (${getProvider(conversation.provider)?.label ?? conversation.provider})`;
+    conversationSelector.appendChild(option);
   }
+  conversationSelector.value = activeConversation.id;
+}
 
-  const geminiTool = {
-    functionDeclarations: [{
-      name: "invokeAgent",
-      description: "Invokes another AI agent to perform a specialized task or get information. Use this to delegate tasks to agents with specific expertise.",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          agentName: {
-            type: Type.STRING,
-            description: "The name of the agent to invoke. Choose from the available specialists.",
-            enum: availableAgents,
-          },
-          prompt: {
-            type: Type.STRING,
-            description: "The detailed prompt or question to send to the invoked agent."
-          }
-        },
-        required: ["agentName", "prompt"]
-      }
-    }]
-  };
+/**
+ * Moves a conversation to another provider, converting its history, with
+ * every branch, into that provider's format.
+ */
+async function moveConversation(conversation: Conversation, provider: ChatProvider) {
+  if (conversation.provider === provider.id) return;
+  const fromName = getProvider(conversation.provider)?.label ?? conversation.provider;
+  const systemPrompt = generateSystemPrompt(conversation.persona as PersonaKey);
+  conversation.history = convertHistory(conversation.history, provider.format, systemPrompt);
+  if (conversation.tree) conversation.tree = convertHistoryTree(conversation.tree, provider.format, systemPrompt);
+  conversation.provider = provider.id;
+  if (conversation.history.length > 0) {
+    await db.saveConversation(conversation);
+    logOrchestrationEvent(`Conversation carried over from ${fromName} to ${provider.label}.`, 'info', { conversationId: conversation.id });
+  }
+}
 
-  const openAITool: ChatCompletionTool = {
-    type: 'function',
-    function: {
-      name: "invokeAgent",
-      description: "Invokes another AI agent to perform a specialized task or get information. Use this to delegate tasks to agents with specific expertise.",
-      parameters: {
-        type: "object",
-        properties: {
-          agentName: {
-            type: "string",
-            description: "The name of the agent to invoke. Choose from the available specialists.",
-            enum: availableAgents,
-          },
-          prompt: {
-            type: "string",
-            description: "The detailed prompt or question to send to the invoked agent."
-          }
-        },
-        required: ["agentName", "prompt"]
-      }
-    }
-  };
+/**
+ * Opens a conversation, switching the provider selector to its provider.
+ * If that provider is unavailable, the conversation moves to the selected one.
+ * A conversation open in a chat window is brought to the front there instead.
+ */
+async function openConversation(conversation: Conversation) {
+  const chatWindow = chatWindowOf(conversation.id);
+  if (chatWindow) {
+    windowManager.focus(chatWindow.id);
+    conversationSelector.value = activeConversation.id;
+    return;
+  }
+  const provider = getProvider(conversation.provider);
+  if (provider?.available) {
+    modelSelector.value = provider.id;
+  } else {
+    await moveConversation(conversation, getSelectedProvider());
+  }
+  loadConversation(conversation);
+  await refreshConversationSelector();
+}
 
-  return { gemini: [geminiTool], openai: [openAITool] };
+/**
+ * Handles switching the persona. Switches to the persona's default provider
+ * if it has one, then opens the persona's most recent conversation on that
+ * provider that is not open in a chat window, or a new one if there is none.
+ */
+async function handleSessionSwitch() {
+  const defaultProvider = getProvider(personaOf(personaSelector.value).defaultProvider ?? '');
+  if (defaultProvider?.available) {
+    modelSelector.value = defaultProvider.id;
+  }
+  const conversations = await db.listConversations(personaSelector.value, modelSelector.value);
+  await openConversation(conversations.find(c => !chatWindowOf(c.id)) ?? createDraftConversation());
 }
 
+/**
+ * Handles switching the provider. The active conversation continues on the
+ * new provider with its history converted.
+ */
+async function handleProviderSwitch() {
+  await moveConversation(activeConversation, getSelectedProvider());
+  loadConversation(activeConversation);
+  await refreshConversationSelector();
+}
 
 /**
- * Executes a tool call to invoke another agent.
+ * Handles picking a conversation from the conversation selector.
  */
-async function executeInvokeAgent(agentName: string, prompt: string): Promise<string> {
-    const agentKey = PERSONA_NAME_TO_KEY_MAP[agentName];
-    if (!agentKey) {
-        return `Error: Agent '${agentName}' not found.`;
-    }
-    const persona = PERSONAS[agentKey];
-    console.log(`Invoking agent ${persona.name} with prompt: ${prompt}`);
-    logOrchestrationEvent(`Executing call to [${agentName}]. Awaiting response...`, 'info');
+async function handleConversationSelect() {
+  if (conversationSelector.value === activeConversation.id) return;
+  const conversation = await db.getConversation(conversationSelector.value);
+  if (conversation) {
+    await openConversation(conversation);
+  }
+}
 
-    const systemPrompt = generateSystemPrompt(agentKey);
-    const provider = modelSelector.value as 'gemini' | 'openai';
+async function handleNewConversation() {
+  loadConversation(createDraftConversation());
+  await refreshConversationSelector();
+}
 
-    try {
-        let result = '';
-        if (provider === 'gemini' && ai) {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: { systemInstruction: systemPrompt },
-            });
-            result = response.text;
-        } else if (provider === 'openai' && openai) {
-            const messages: ChatCompletionMessageParam[] = [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: prompt }
-            ];
-            const response = await openai.chat.completions.create({
-                model: 'gpt-4o-mini',
-                messages: messages,
-            });
-            result = response.choices[0].message.content ?? '';
-        } else {
-           result = 'Error: No valid provider configured for sub-agent call.';
-        }
-        logOrchestrationEvent(`[${agentName}] returned a response.`, 'success');
-        return result;
-    } catch (error) {
-        console.error(`Error invoking agent ${agentName}:`, error);
-        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-        logOrchestrationEvent(`Error during invocation of [${agentName}]: ${errorMessage}`, 'error');
-        return `Error during invocation of ${agentName}: ${errorMessage}`;
-    }
+async function handleRenameConversation() {
+  const title = prompt('Rename conversation:', activeConversation.title)?.trim();
+  if (title) await renameConversation(title);
 }
 
-/**
- * Handles the form submission to send a message to the AI.
- */
-async function handleChatSubmit(event: Event) {
-  event.preventDefault();
-  let userInput = chatInput.value.trim();
-  if (!userInput && !stagedFile) return;
+async function renameConversation(title: string) {
+  activeConversation.title = title;
+  await db.saveConversation(activeConversation);
+  await refreshConversationSelector();
+  logOrchestrationEvent(`Conversation renamed to "${title}".`, 'info');
+}
 
-  // --- Delegation Logic via @mention ---
-  const mentionRegex = /^@(\w+)[, ]?(.*)/s;
-  const mentionMatch = userInput.match(mentionRegex);
-  
-  // Only handle delegation for text-only prompts to keep it simple.
-  if (mentionMatch && !stagedFile) {
-    const agentName = mentionMatch[1];
-    const promptForAgent = mentionMatch[2].trim();
-    
-    // Case-insensitive lookup for the agent name.
-    const agentNameKey = Object.keys(PERSONA_NAME_TO_KEY_MAP).find(name => name.toLowerCase() === agentName.toLowerCase());
+async function handleDuplicateConversation() {
+  if (activeConversation.history.length === 0) {
+    logOrchestrationEvent('Nothing to duplicate: the conversation is empty.', 'info');
+    return;
+  }
+  const now = Date.now();
+  const copy: Conversation = {
+    ...structuredClone(activeConversation),
+    id: crypto.randomUUID(),
+    title: `${activeConversation.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.saveConversation(copy);
+  loadConversation(copy);
+  await refreshConversationSelector();
+  logOrchestrationEvent(`Conversation duplicated as "${copy.title}".`, 'info');
+}
 
-    if (agentNameKey && promptForAgent) {
-      const targetPersonaKey = PERSONA_NAME_TO_KEY_MAP[agentNameKey];
+async function handleDeleteConversation() {
+  if (confirm(`Are you sure you want to delete the conversation "${activeConversation.title}"?`)) {
+    await db.deleteConversation(activeConversation.id);
+    await handleSessionSwitch();
+    logOrchestrationEvent('Conversation deleted by user.', 'info', { transient: true });
+  }
+}
 
-      // If mentioning the current persona, just strip the mention and proceed normally.
-      if (targetPersonaKey === personaSelector.value) {
-        userInput = promptForAgent;
-      } else {
-        // --- Execute one-off delegation and exit ---
-        chatInput.value = '';
-        chatInput.disabled = true;
-        submitButton.disabled = true;
-        uploadButton.disabled = true;
-
-        const currentPersonaKey = personaSelector.value as PersonaKey;
-        const currentPersonaName = PERSONAS[currentPersonaKey].name;
-        
-        logOrchestrationEvent(`User command received: "${userInput}"`, 'user');
-        logOrchestrationEvent(`Delegation detected. Routing task from [${currentPersonaName}] to [${agentName}].`, 'invoke');
-
-        appendMessage('USER>', 'user-message').textContent = userInput;
-        
-        const prefix = `${targetPersonaKey.toUpperCase()}>`;
-        const thinkingMessageWrapper = appendMessage(prefix, '');
-        thinkingMessageWrapper.parentElement!.classList.add('thinking');
+/**
+ * Offers text content to the operator as a file download.
+ */
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Handles the export selector. Its value is `<scope>:<format>`, where scope
+ * is `current` for the active conversation or `all` for every saved one.
+ */
+async function handleExport() {
+  const [scope, format] = exportSelector.value.split(':') as ['current' | 'all', ExportFormat];
+  exportSelector.value = '';
+  if (!format) return;
+
+  let conversations = scope === 'all' ? await db.listAllConversations() : [activeConversation];
+  if (conversations.every(c => c.history.length === 0)) {
+    logOrchestrationEvent('Nothing to export: no saved messages.', 'info');
+    return;
+  }
+  // Markdown only names attachments; the other formats carry them.
+  if (format !== 'markdown') conversations = await Promise.all(conversations.map(embedConversationAttachments));
+  const content = exportConversations(conversations, format);
+  downloadFile(exportFileName(conversations, format), content, EXPORT_FILE_TYPES[format].mimeType);
+  logOrchestrationEvent(`Exported ${conversations.length} conversation(s) as ${format.toUpperCase()}.`, 'success');
+}
+
+function handleImportClick() {
+  importFileInput.click();
+}
+
+/**
+ * Imports conversations from a JSON file. Conversations that already exist
+ * are either replaced or kept alongside the imported copy, as the operator
+ * chooses.
+ */
+async function handleImportFile() {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = '';
+  if (!file) return;
+
+  let conversations: Conversation[];
+  try {
+    conversations = parseImport(await file.text(), personaSelector.value, listPersonas().map(p => p.key));
+    conversations = await Promise.all(conversations.map(storeConversationAttachments));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logOrchestrationEvent(`Import failed: ${message}`, 'error');
+    appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Import failed: ${message}`;
+    return;
+  }
+
+  const existing = await Promise.all(conversations.map(c => db.getConversation(c.id)));
+  const conflicts = existing.filter(Boolean).length;
+  const replace = conflicts > 0 && confirm(
+    `${conflicts} of the imported conversation(s) already exist.\n\nOK: replace the existing conversations.\nCancel: keep both copies.`
+  );
+
+  for (const [i, conversation] of conversations.entries()) {
+    if (existing[i] && !replace) {
+      conversation.id = crypto.randomUUID();
+      conversation.title = `${conversation.title} (imported)`;
+    }
+    await db.saveConversation(conversation);
+  }
+  const outcome = conflicts === 0 ? '' : replace ? `, replacing ${conflicts}` : `, keeping ${conflicts} existing`;
+  logOrchestrationEvent(`Imported ${conversations.length} conversation(s)${outcome}.`, 'success');
+
+  // Open the imported conversation when there is just one; otherwise
+  // reload the active one in case it was replaced.
+  if (conversations.length === 1) {
+    personaSelector.value = conversations[0].persona;
+    await openConversation(conversations[0]);
+  } else {
+    await openConversation(await db.getConversation(activeConversation.id) ?? activeConversation);
+  }
+}
+
+/**
+ * Shows or hides the history search panel.
+ */
+function toggleSearchPanel(open = searchPanel.hidden) {
+  searchPanel.hidden = !open;
+  if (open) {
+    searchInput.focus();
+    searchInput.select();
+  } else {
+    chatInput.focus();
+  }
+}
+
+function appendSearchStatus(text: string) {
+  const status = document.createElement('div');
+  status.className = 'search-status';
+  status.textContent = text;
+  searchResults.appendChild(status);
+}
+
+/**
+ * Runs a search box query against the search index and lists the hits.
+ */
+async function runSearch(input: string) {
+  const query = parseSearchQuery(input);
+  if (query.terms.length === 0) {
+    searchResults.innerHTML = '';
+    return;
+  }
+
+  const hits = rankSearchEntries(await db.findSearchEntries(query.terms), query);
+  const ids = [...new Set(hits.map(hit => hit.entry.conversationId))];
+  const conversations = new Map((await Promise.all(ids.map(id => db.getConversation(id))))
+    .filter((c): c is Conversation => !!c)
+    .map(c => [c.id, c]));
+  if (searchInput.value !== input) return; // A newer query is on its way.
+
+  searchResults.innerHTML = '';
+  if (hits.length === 0) {
+    appendSearchStatus('No matches.');
+    return;
+  }
+  for (const hit of hits) {
+    const conversation = conversations.get(hit.entry.conversationId);
+    if (conversation) searchResults.appendChild(renderSearchHit(hit, conversation));
+  }
+}
+
+function renderSearchHit(hit: SearchHit, conversation: Conversation): HTMLButtonElement {
+  const item = document.createElement('button');
+  item.type = 'button';
+  item.className = 'search-result';
+  item.setAttribute('role', 'listitem');
+
+  const meta = document.createElement('span');
+  meta.className = 'search-result-meta';
+  const speaker = hit.entry.role === 'user' ? 'USER' : conversation.persona.toUpperCase();
+  meta.textContent = `${conversation.title} · ${conversation.persona} via ${getProvider(conversation.provider)?.label ?? conversation.provider} · ${speaker}>`;
+
+  const snippet = document.createElement('span');
+  snippet.className = 'search-result-snippet';
+  for (const part of hit.snippet) {
+    if (part.match) {
+      const mark = document.createElement('mark');
+      mark.textContent = part.text;
+      snippet.appendChild(mark);
+    } else {
+      snippet.appendChild(document.createTextNode(part.text));
+    }
+  }
+
+  item.append(meta, snippet);
+  item.addEventListener('click', () => openSearchHit(hit));
+  return item;
+}
+
+/**
+ * Opens the conversation of a search hit and scrolls to the message.
+ */
+async function openSearchHit(hit: SearchHit) {
+  const conversation = await db.getConversation(hit.entry.conversationId);
+  if (!conversation) return;
+  personaSelector.value = conversation.persona;
+  await openConversation(conversation);
+  scrollToHistoryMessage(hit.entry.index);
+}
+
+/**
+ * Scrolls the chat to the rendered message that contains a history entry
+ * and briefly highlights it.
+ */
+function scrollToHistoryMessage(index: number) {
+  const messages = Array.from(chatContainer.querySelectorAll<HTMLElement>('[data-history-index]'));
+  const target = messages.filter(m => Number(m.dataset.historyIndex) <= index).pop();
+  if (!target) return;
+  target.scrollIntoView({ block: 'center' });
+  target.classList.remove('search-target');
+  void target.offsetWidth; // Restart the highlight animation.
+  target.classList.add('search-target');
+}
+
+function handleSearchInput() {
+  window.clearTimeout(searchDebounce);
+  searchDebounce = window.setTimeout(() => runSearch(searchInput.value), 200);
+}
+
+function handleSearchShortcut(event: KeyboardEvent) {
+  if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+    event.preventDefault();
+    toggleSearchPanel();
+  } else if (event.key === 'Escape' && !searchPanel.hidden) {
+    toggleSearchPanel(false);
+  }
+}
+
+/**
+ * Asks the provider for a short title after a conversation's first exchange.
+ * Keeps the fallback title if the provider fails.
+ */
+async function generateConversationTitle(conversation: Conversation, provider: ChatProvider, userText: string, responseText: string) {
+  try {
+    const reply = await provider.complete(TITLE_SYSTEM_PROMPT, `Title this conversation.\n\nUSER: ${userText}\n\nASSISTANT: ${responseText.slice(0, 1000)}`);
+    const title = reply.split('\n')[0].replace(/^["'\s]+|["'.\s]+$/g, '').slice(0, 60);
+    if (!title) return;
+    conversation.title = title;
+    await db.saveConversation(conversation);
+    if (conversation === activeConversation) await refreshConversationSelector();
+    const chatWindow = chatWindowOf(conversation.id);
+    if (chatWindow) updateChatWindowTitle(chatWindow);
+  } catch (error) {
+    console.error('Error generating conversation title:', error);
+  }
+}
+
+registerTool<AgentContext>({
+  name: "invokeAgent",
+  label: "Delegate to other agents",
+  description: "Invokes another AI agent to perform a specialized task or get information. Use this to delegate tasks to agents with specific expertise.",
+  parameters: {
+    type: "object",
+    properties: {
+      agentName: {
+        type: "string",
+        description: "The name of the agent to invoke. Choose from the available specialists.",
+      },
+      prompt: {
+        type: "string",
+        description: "The detailed prompt or question to send to the invoked agent."
+      }
+    },
+    required: ["agentName", "prompt"]
+  },
+  personas: '*',
+  rendersOwnOutput: true,
+  // Agents already on the path are left out so the model cannot pick them,
+  // and delegation stops once the depth limit is reached.
+  declare(context) {
+    if (context.chain.length > MAX_DELEGATION_DEPTH) return null;
+    // A persona may be limited to a set of delegation targets.
+    const allowed = personaOf(context.personaKey).delegates;
+    const availableAgents = listPersonas()
+      .filter(p => p.key !== 'CUA' && !context.chain.includes(p.key) && (!allowed || allowed.includes(p.key)))
+      .map(p => p.name);
+    if (availableAgents.length === 0) return null;
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        ...this.parameters,
+        properties: {
+          ...this.parameters.properties,
+          agentName: { ...this.parameters.properties!.agentName, enum: availableAgents },
+        },
+      },
+    };
+  },
+  handler: executeDelegation,
+});
+
+registerTool<AgentContext>({
+  name: "runCode",
+  label: "Run code (sandboxed JavaScript/TypeScript)",
+  description: "Runs a JavaScript or TypeScript snippet in an isolated sandbox and returns its console output and return value. The snippet is the body of an async function: use `return` for the result (a single expression is returned as is) and `await` as needed. There is no DOM, network or storage access.",
+  parameters: {
+    type: "object",
+    properties: {
+      code: {
+        type: "string",
+        description: "The source code to run."
+      },
+      language: {
+        type: "string",
+        description: "The language of the snippet.",
+        enum: ["javascript", "typescript"],
+      }
+    },
+    required: ["code"]
+  },
+  personas: ['Andie'],
+  rendersOwnOutput: true,
+  handler: executeRunCode,
+});
+
+/**
+ * Gets the tool definitions for an agent's turn.
+ */
+function getTools(context: AgentContext): ToolDeclaration[] | undefined {
+  return declareTools(personaOf(context.personaKey), context);
+}
+
+
+function withStoppedNotice(text: string): string {
+    return text ? `${text}\n\n${STOPPED_NOTICE}` : STOPPED_NOTICE;
+}
+
+/**
+ * Runs one agent turn, executing tool calls until the model produces a final
+ * answer. Sub-agents run through the same loop, so they can delegate too.
+ * When the request is stopped, the text so far is kept in the history and
+ * returned.
+ * @param onProgress Receives the text streamed so far, for live display.
+ * @returns The final response text.
+ */
+async function runToolLoop(chat: ProviderChat, initialInput: ChatInput, context: AgentContext, onProgress?: (text: string) => void): Promise<string> {
+    const agentName = personaOf(context.personaKey).name;
+    const tools = getTools(context);
+
+    let fullResponse = '';
+    let continueConversation = true;
+    let toolIterations = 0;
+    let toolsEnabled = true;
+    let input = initialInput;
+
+    while (continueConversation) {
+        if (context.signal.aborted) {
+            // Stopped while tools ran. Their results still need an answer
+            // for the history to stay valid.
+            chat.appendTurn(input, STOPPED_NOTICE);
+            return withStoppedNotice(fullResponse);
+        }
+
+        let aggregatedText = '';
+        const toolCalls: ToolCall[] = [];
 
         try {
-            const result = await executeInvokeAgent(agentName, promptForAgent);
-            thinkingMessageWrapper.parentElement!.classList.remove('thinking');
-            thinkingMessageWrapper.textContent = result;
-            logOrchestrationEvent(`[${agentName}] generated response. Task complete.`, 'complete');
+            for await (const event of chat.sendMessageStream(input, { tools: toolsEnabled ? tools : undefined, signal: context.signal })) {
+                if (event.type === 'text') {
+                    aggregatedText += event.text;
+                    onProgress?.(aggregatedText);
+                } else if (event.type === 'toolCall') {
+                    toolCalls.push(event.call);
+                } else {
+                    recordUsage(context, chat.model, event.usage);
+                }
+            }
         } catch (error) {
-            console.error(error);
-            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-            logOrchestrationEvent(`SYSTEM ERROR during delegation: ${errorMessage}`, 'error');
-            thinkingMessageWrapper.parentElement?.remove();
-            appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Error during delegation: ${errorMessage}`;
-        } finally {
-            chatInput.disabled = false;
-            submitButton.disabled = false;
-            uploadButton.disabled = false;
-            chatInput.focus();
+            if (!context.signal.aborted) throw error;
+            // The aborted turn is not in the history; keep it with the text
+            // that arrived.
+            const partial = withStoppedNotice(aggregatedText);
+            chat.appendTurn(input, partial);
+            return partial;
         }
-        return; // Stop further processing for this submission.
-      }
+
+        fullResponse = aggregatedText;
+
+        if (toolCalls.length > 0 && toolsEnabled) {
+            if (toolIterations >= MAX_TOOL_ITERATIONS) {
+                // Every call still needs an answer, then the model gets one
+                // last turn without tools to wrap up.
+                logOrchestrationEvent(`Tool loop limit of ${MAX_TOOL_ITERATIONS} rounds reached. Asking [${agentName}] for a final answer.`, 'error', {
+                    trace: context.trace,
+                    source: agentName,
+                    error: `Tool loop limit of ${MAX_TOOL_ITERATIONS} rounds reached.`,
+                });
+                input = {
+                    toolResults: toolCalls.map(call => ({
+                        call,
+                        content: `Error: Tool call limit of ${MAX_TOOL_ITERATIONS} rounds reached. Answer with the information already available.`,
+                    })),
+                };
+                toolsEnabled = false;
+                continue;
+            }
+            toolIterations++;
+
+            const targets = toolCalls.map(call => call.name === 'invokeAgent' ? call.args.agentName : call.name);
+            onProgress?.(`${aggregatedText}\n\n[Consulting with ${targets.join(', ')}...]`);
+
+            // Calls within a turn are independent, so they run concurrently.
+            const toolResults = await Promise.all(toolCalls.map(async call => ({
+                call,
+                content: await executeToolCall(call, context),
+            })));
+
+            logOrchestrationEvent(`[${agentName}] received ${toolResults.length} tool result(s). Continuing main task...`, 'info', { trace: context.trace, source: agentName });
+            input = { toolResults };
+        } else {
+            continueConversation = false;
+        }
+    }
+
+    return fullResponse;
+}
+
+/**
+ * Executes a tool call to invoke another agent. The sub-agent gets its own
+ * chat with the same delegation tools, limited by depth and cycle checks.
+ * Its output streams into a nested block inside the caller's message, or
+ * into `view` when one is given.
+ * @param callId The id of the tool call that requested this invocation.
+ */
+async function executeInvokeAgent(agentName: string, prompt: string, parent: AgentContext, callId?: string, view?: AgentView): Promise<string> {
+    const agentKey = PERSONA_NAME_TO_KEY_MAP[agentName];
+    if (!agentKey) {
+        return `Error: Agent '${agentName}' not found.`;
+    }
+    const callerName = personaOf(parent.personaKey).name;
+    const logDetails: LogDetails = { trace: parent.trace, source: callerName, target: agentName, prompt };
+    if (parent.chain.includes(agentKey)) {
+        const cycle = [...parent.chain, agentKey].map(key => personaOf(key).name).join(' → ');
+        logOrchestrationEvent(`Delegation cycle blocked: ${cycle}`, 'error', { ...logDetails, error: `Delegation cycle: ${cycle}` });
+        return `Error: Delegation cycle detected (${cycle}). Answer without involving ${agentName}.`;
+    }
+    if (parent.chain.length > MAX_DELEGATION_DEPTH) {
+        logOrchestrationEvent(`Delegation depth limit of ${MAX_DELEGATION_DEPTH} reached. Call to [${agentName}] blocked.`, 'error', {
+            ...logDetails,
+            error: `Delegation depth limit of ${MAX_DELEGATION_DEPTH} reached.`,
+        });
+        return `Error: Delegation depth limit of ${MAX_DELEGATION_DEPTH} reached.`;
+    }
+    if (parent.signal.aborted) {
+        logOrchestrationEvent(`Request stopped. Call to [${agentName}] skipped.`, 'info', logDetails);
+        return `Error: ${STOPPED_NOTICE}`;
+    }
+    const blocked = budgetBlock(parent.trace.sessionUsage);
+    if (blocked) {
+        logOrchestrationEvent(`Budget used up. Call to [${agentName}] blocked.`, 'error', { ...logDetails, error: blocked.message });
+        return `Error: ${blocked.message} Answer without involving ${agentName}.`;
+    }
+
+    const persona = personaOf(agentKey);
+    console.log(`Invoking agent ${persona.name} with prompt: ${prompt}`);
+    logOrchestrationEvent(`Executing call to [${agentName}]. Awaiting response...`, 'info', logDetails);
+    const startedAt = performance.now();
+
+    const node = addCallChild(parent.node, persona.name, prompt);
+    node.callId = callId;
+
+    let block: HTMLDetailsElement | undefined;
+    if (!view && parent.view) {
+        ({ block, view } = appendSubAgentBlock(parent.view, persona.name, prompt));
+    }
+    const agentView = view;
+    const context: AgentContext = { personaKey: agentKey, chain: [...parent.chain, agentKey], node, view: agentView, trace: parent.trace, signal: parent.signal, attachments: parent.attachments };
+
+    try {
+        const provider = personaProvider(persona);
+        const chat = provider.createChat(generateSystemPrompt(agentKey), undefined, personaModel(persona, provider));
+        const attachments = await prepareAttachments(parent.attachments ?? [], provider.acceptsPdf);
+        const result = await runToolLoop(chat, { text: prompt, attachments }, context, agentView && (text => {
+            setAgentText(agentView, text);
+            scrollChatOf(agentView.text);
+        }));
+        if (agentView) {
+            setAgentText(agentView, result);
+            appendUsageNote(agentView.text.parentElement!, transcriptUsage(node));
+        }
+        finishCallNode(node, result, 'success');
+        logOrchestrationEvent(`[${agentName}] returned a response.`, 'success', { ...logDetails, durationMs: performance.now() - startedAt });
+        return result;
+    } catch (error) {
+        console.error(`Error invoking agent ${agentName}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        if (agentView) setAgentText(agentView, `Error: ${errorMessage}`);
+        block?.classList.add('sub-agent-error');
+        finishCallNode(node, errorMessage, 'error');
+        logOrchestrationEvent(`Error during invocation of [${agentName}]: ${errorMessage}`, 'error', {
+            ...logDetails,
+            durationMs: performance.now() - startedAt,
+            error: errorMessage,
+        });
+        return `Error during invocation of ${agentName}: ${errorMessage}`;
+    } finally {
+        if (block) {
+            block.classList.remove('thinking');
+            block.open = false;
+        }
+    }
+}
+
+/**
+ * Executes a single tool call requested by the model and returns its result.
+ * Calls are dispatched by name through the tool registry.
+ */
+async function executeToolCall(call: ToolCall, caller: AgentContext): Promise<string> {
+    const persona = personaOf(caller.personaKey);
+    const logDetails: LogDetails = { trace: caller.trace, source: persona.name, target: call.name };
+    const tool = getTool(call.name);
+    if (!tool) {
+        logOrchestrationEvent(`[${persona.name}] requested unknown tool '${call.name}'.`, 'error', {
+            ...logDetails,
+            error: `Unknown tool '${call.name}'.`,
+        });
+        return `Error: Unknown tool '${call.name}'.`;
+    }
+    if (!isToolAllowed(tool, persona)) {
+        logOrchestrationEvent(`[${persona.name}] may not use [${call.name}]. Call blocked.`, 'error', {
+            ...logDetails,
+            error: `${persona.name} may not use ${call.name}.`,
+        });
+        return `Error: You may not use the ${call.name} tool.`;
     }
+    if (call.argsError) {
+        logOrchestrationEvent(`[${persona.name}] sent malformed arguments to [${call.name}]. Call rejected.`, 'error', {
+            ...logDetails,
+            error: call.argsError,
+        });
+        return `Error: The arguments of ${call.name} are not valid JSON. Call it again with a JSON object.`;
+    }
+    const denial = await checkApproval(call, caller);
+    if (denial) {
+        return denial;
+    }
+    if (tool.rendersOwnOutput) {
+        return tool.handler(call, caller);
+    }
+
+    // Other tools are shown like a delegation: a block in the caller's
+    // message and a node in the call tree, both saved with the transcript.
+    const prompt = JSON.stringify(call.args);
+    logOrchestrationEvent(`[${persona.name}] is using [${call.name}].`, 'invoke', { ...logDetails, prompt });
+    const node = addCallChild(caller.node, call.name, prompt);
+    node.callId = call.id;
+    node.tool = call.name;
+    const block = caller.view && appendSubAgentBlock(caller.view, call.name, prompt);
+    const startedAt = performance.now();
+
+    let result: string;
+    let status: 'success' | 'error';
+    try {
+        result = await tool.handler(call, caller);
+        status = 'success';
+    } catch (error) {
+        result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+        status = 'error';
+    }
+    finishCallNode(node, result, status);
+    if (block) {
+        block.block.classList.remove('thinking');
+        block.block.classList.toggle('sub-agent-error', status === 'error');
+        setAgentText(block.view, result);
+    }
+    logOrchestrationEvent(`[${call.name}] returned a result to [${persona.name}].`, status, {
+        ...logDetails,
+        durationMs: performance.now() - startedAt,
+        error: status === 'error' ? result : undefined,
+    });
+    return result;
+}
+
+/**
+ * Handles an `invokeAgent` call: checks the caller may delegate to the
+ * agent, then runs it.
+ */
+async function executeDelegation(call: ToolCall, caller: AgentContext): Promise<string> {
+    const callerName = personaOf(caller.personaKey).name;
+    const agentName = String(call.args.agentName ?? '');
+    const prompt = String(call.args.prompt ?? '');
+
+    const logDetails: LogDetails = { trace: caller.trace, source: callerName, target: agentName };
+    const allowed = personaOf(caller.personaKey).delegates;
+    const agentKey = PERSONA_NAME_TO_KEY_MAP[agentName];
+    if (agentKey && allowed && !allowed.includes(agentKey)) {
+        logOrchestrationEvent(`[${callerName}] may not delegate to [${agentName}]. Call blocked.`, 'error', {
+            ...logDetails,
+            error: `${callerName} may not delegate to ${agentName}.`,
+        });
+        return `Error: You may not delegate to ${agentName}.`;
+    }
+    logOrchestrationEvent(`[${callerName}] is invoking [${agentName}] for task: "${prompt.substring(0, 50)}..."`, 'invoke', { ...logDetails, prompt });
+    const result = await executeInvokeAgent(agentName, prompt, caller, call.id);
+    logOrchestrationEvent(`[${callerName}] received response from [${agentName}].`, 'info', logDetails);
+    return result;
+}
+
+/**
+ * Runs a `runCode` call in the sandbox, showing the source and output in the
+ * caller's message.
+ */
+async function executeRunCode(call: ToolCall, caller: AgentContext): Promise<string> {
+    const persona = personaOf(caller.personaKey);
+    const logDetails: LogDetails = { trace: caller.trace, source: persona.name, target: 'runCode' };
+    const code = String(call.args.code ?? '');
+    const language: CodeLanguage = call.args.language === 'typescript' ? 'typescript' : 'javascript';
+
+    logOrchestrationEvent(`[${persona.name}] is running a ${language} snippet in the sandbox.`, 'invoke', { ...logDetails, prompt: code });
+    const node = addCallChild(caller.node, 'runCode', JSON.stringify({ language, code }));
+    node.callId = call.id;
+    node.tool = 'runCode';
+    const run = caller.view && appendCodeRunBlock(caller.view, language, code);
+
+    const result = await runCode(code, language, {
+        timeoutMs: SANDBOX_TIMEOUT_MS,
+        memoryLimitMb: SANDBOX_MEMORY_MB,
+        signal: caller.signal,
+    });
+    const output = formatRunResult(result);
+    const status = result.status === 'ok' ? 'success' : 'error';
+    finishCallNode(node, output, status);
+    if (run) {
+        run.block.classList.remove('thinking');
+        run.block.classList.toggle('sub-agent-error', status === 'error');
+        run.output.textContent = output;
+    }
+    logOrchestrationEvent(`Sandbox run for [${persona.name}] finished: ${result.status}.`, status, {
+        ...logDetails,
+        durationMs: result.durationMs,
+        error: result.error,
+    });
+    return output;
+}
+
+/**
+ * Starts the trace of a user request on a conversation, the active one by
+ * default. The request's user message will be the next history entry.
+ */
+function createRequestTrace(conversation: Conversation = activeConversation, chat: ProviderChat = activeChat): RequestTrace {
+  return {
+    conversationId: conversation.id,
+    requestId: crypto.randomUUID(),
+    messageIndex: chat.getHistory().length,
+    usage: {},
+    sessionUsage: structuredClone(conversation.usage?.total ?? {}),
+  };
+}
+
+/**
+ * Adds a model turn's tokens to the agent's call node and to its request,
+ * then refreshes the status bar. Logs when the turn crosses a budget
+ * threshold.
+ */
+function recordUsage(context: AgentContext, model: string, usage: TokenUsage) {
+  const { trace } = context;
+  const before = checkBudget(budget, trace.sessionUsage, prices).state;
+  addUsage(context.node.usage ??= {}, model, usage);
+  addUsage(trace.usage, model, usage);
+  addUsage(trace.sessionUsage, model, usage);
+
+  const status = checkBudget(budget, trace.sessionUsage, prices);
+  if (status.state !== before && status.message) {
+    const exceeded = status.state === 'exceeded';
+    logOrchestrationEvent(`Budget: ${status.message}`, exceeded ? 'error' : 'info', { trace, error: exceeded ? status.message : undefined });
   }
+  if (trace.conversationId === activeConversation.id) updateUsageStatus(trace.sessionUsage);
+}
 
-  // If the mention was stripped, the input could be empty.
-  if (!userInput && !stagedFile) return;
+/**
+ * Adds a finished request's usage to its conversation. Requests that are
+ * not kept in the history only count towards the total.
+ */
+function recordRequestUsage(conversation: Conversation, trace: RequestTrace, inHistory: boolean) {
+  const usage = conversation.usage ??= { requests: {}, total: {} };
+  mergeUsage(usage.total, trace.usage);
+  if (!inHistory) return;
+  // Drop the usage of an exchange this one replaces on the active branch.
+  if (Object.keys(trace.usage).length > 0) {
+    usage.requests[trace.messageIndex] = trace.usage;
+  } else {
+    delete usage.requests[trace.messageIndex];
+  }
+}
+
+/**
+ * Returns the budget status if it stops further requests: the budget is
+ * used up and set to block. Returns null otherwise.
+ */
+function budgetBlock(usage: ModelUsage): BudgetStatus | null {
+  const status = checkBudget(budget, usage, prices);
+  return status.state === 'exceeded' && budget.action === 'block' ? status : null;
+}
+
+/**
+ * Locks the input while a request runs and swaps Send for Stop.
+ * @param controller The running request's controller, or null once it ends.
+ */
+function setRequestRunning(controller: AbortController | null) {
+  activeRequest = controller;
+  const running = controller !== null;
+  chatInput.disabled = running;
+  submitButton.disabled = running;
+  submitButton.hidden = running;
+  uploadButton.disabled = running;
+  stopButton.hidden = !running;
+  if (!running) chatInput.focus();
+}
+
+/**
+ * Handles the Stop button: aborts the running request's streams and
+ * sub-agent calls. What has arrived so far is kept.
+ */
+function handleStop() {
+  if (!activeRequest || activeRequest.signal.aborted) return;
+  activeRequest.abort();
+  logOrchestrationEvent('Stop requested by the operator.', 'info', { transient: true });
+}
+
+/**
+ * Refuses a send if the conversation's budget is used up and set to block.
+ * @returns Whether the send was refused.
+ */
+function refuseOverBudget(): boolean {
+  const blocked = budgetBlock(activeConversation.usage?.total ?? {});
+  if (!blocked) return false;
+  appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `${blocked.message} Raise the budget or start a new conversation to continue.`;
+  logOrchestrationEvent(`Message blocked: ${blocked.message}`, 'error', { error: blocked.message, transient: true });
+  return true;
+}
+
+/**
+ * Adds a small button below a message, e.g. Retry or Regenerate.
+ */
+function appendMessageAction(contentWrapper: HTMLElement, label: string, title: string, action: () => void): HTMLButtonElement {
+  let actions = contentWrapper.querySelector<HTMLDivElement>(':scope > .message-actions');
+  if (!actions) {
+    actions = document.createElement('div');
+    actions.className = 'message-actions';
+    contentWrapper.appendChild(actions);
+  }
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'message-action';
+  button.textContent = label;
+  button.title = title;
+  button.addEventListener('click', action);
+  actions.appendChild(button);
+  return button;
+}
+
+/**
+ * Moves the Regenerate button to the given response, the latest one.
+ */
+function showRegenerateButton(contentWrapper: HTMLElement) {
+  chatContainer.querySelectorAll('.regenerate-button').forEach(button => button.remove());
+  appendMessageAction(contentWrapper, 'Regenerate', 'Replace this response with a new one', handleRegenerate)
+    .classList.add('regenerate-button');
+}
+
+/**
+ * Cuts the chat's history down to fit the model's context window before a
+ * request, following the context settings. The caller puts the full history
+ * back once the request is done.
+ * @returns What was done and how many entries were sent, or undefined if
+ * the history is sent in full.
+ */
+async function compactContext(chat: ProviderChat, conversation: Conversation, provider: ChatProvider, trace: RequestTrace, signal: AbortSignal): Promise<{ compaction: ContextCompaction; sentLength: number } | undefined> {
+  if (contextSettings.strategy === 'none') return undefined;
+  const history = chat.getHistory();
+  const contextWindow = findContextWindow(chat.model);
+  // The latest summary on this branch that lies within the chat's history.
+  const previous = [...branchNodes(conversation.tree).entries()]
+    .filter(([index, node]) => index < history.length && node.context?.summary)
+    .pop()?.[1].context?.summary;
+  const summarize = (transcript: string, earlier?: string) => {
+    logOrchestrationEvent('Summarizing earlier messages to fit the context window...', 'info', { trace });
+    return provider.complete(SUMMARY_SYSTEM_PROMPT, `Summarize this conversation.${earlier ? `\n\nSUMMARY SO FAR:\n${earlier}` : ''}\n\nTRANSCRIPT:\n${transcript}`, signal);
+  };
+
+  let result: Awaited<ReturnType<typeof compactHistory>>;
+  try {
+    result = await compactHistory(history, contextWindow, contextSettings, summarize, previous);
+  } catch (error) {
+    // Stopped while summarizing: the request itself ends as stopped.
+    if (signal.aborted) return undefined;
+    const message = error instanceof Error ? error.message : String(error);
+    logOrchestrationEvent('Summarizing failed; leaving out the oldest messages instead.', 'error', { trace, error: message });
+    result = await compactHistory(history, contextWindow, { ...contextSettings, strategy: 'window' }, summarize);
+  }
+  if (!result) return undefined;
+
+  const { compaction } = result;
+  chat.setHistory(result.history);
+  logOrchestrationEvent(`Context cut down for ${chat.model}: ${describeCompaction(compaction, history)} (about ${formatTokens(compaction.tokensBefore)} → ${formatTokens(compaction.tokensAfter)} tokens).`, 'info', { trace });
+  if (chat === activeChat) showContextMarker(compaction, history);
+  return { compaction, sentLength: result.history.length };
+}
+
+/**
+ * Marks where the context sent to the model was cut: before the first
+ * exchange sent in full, with the summary sent in place of the earlier ones.
+ * Only the latest cut is marked.
+ * @param history The history the compaction was made from.
+ */
+function showContextMarker(compaction: ContextCompaction, history: ChatHistory) {
+  chatContainer.querySelectorAll('.context-marker').forEach(marker => marker.remove());
+  const marker = document.createElement('div');
+  marker.className = 'context-marker';
+  const label = document.createElement('div');
+  label.textContent = `⋯ ${describeCompaction(compaction, history)} to fit the context window ⋯`;
+  marker.appendChild(label);
+  if (compaction.summary) {
+    const details = document.createElement('details');
+    const summary = document.createElement('summary');
+    summary.textContent = 'Summary sent instead';
+    const text = document.createElement('div');
+    text.className = 'context-summary';
+    text.textContent = compaction.summary.text;
+    details.append(summary, text);
+    marker.appendChild(details);
+  }
+  chatContainer.insertBefore(marker, chatContainer.querySelector(`.message[data-history-index="${compaction.boundary}"]`));
+}
+
+/**
+ * Maps the history index of each user message on the active branch to its
+ * exchange in the tree.
+ */
+function branchNodes(tree: HistoryTree | undefined): Map<number, HistoryNode> {
+  const nodes = new Map<number, HistoryNode>();
+  if (!tree) return nodes;
+  let index = tree.preamble.length;
+  for (const node of db.activeBranch(tree)) {
+    nodes.set(index, node);
+    index += node.entries.length;
+  }
+  return nodes;
+}
+
+/**
+ * Adds Edit to a saved user message, and ‹ n/m › to switch between its
+ * branches once it has been edited or its response regenerated.
+ * @param node The message's exchange, if the conversation has a tree.
+ */
+function showUserMessageActions(contentWrapper: HTMLElement, index: number, tree?: HistoryTree, node?: HistoryNode) {
+  const siblings = tree && node ? db.branchSiblings(tree, node) : [];
+  if (node && siblings.length > 1) {
+    const position = siblings.indexOf(node.id);
+    const previous = appendMessageAction(contentWrapper, '‹', 'Previous branch', () => void handleBranchSwitch(siblings[position - 1]));
+    previous.disabled = position === 0;
+    const label = document.createElement('span');
+    label.className = 'branch-position';
+    label.textContent = `${position + 1}/${siblings.length}`;
+    previous.after(label);
+    const next = appendMessageAction(contentWrapper, '›', 'Next branch', () => void handleBranchSwitch(siblings[position + 1]));
+    next.disabled = position === siblings.length - 1;
+  }
+  appendMessageAction(contentWrapper, 'Edit', 'Edit this message and send it as a new branch', () => handleEditMessage(contentWrapper, index));
+}
+
+/**
+ * Handles the form submission to send a message to the AI.
+ */
+async function handleChatSubmit(event: Event) {
+  event.preventDefault();
+  let userInput = chatInput.value.trim();
+  if (!userInput && stagedFiles.length === 0) return;
+  hideAutocomplete();
+  rememberInput(userInput);
+
+  if (parseCommand(userInput)) {
+    chatInput.value = '';
+    await executeCommand(userInput);
+    return;
+  }
+
+  // --- Delegation Logic via @mention ---
+  const mentionRegex = /^@(\w+)[, ]?(.*)/s;
+  const mentionMatch = userInput.match(mentionRegex);
+  const agentName = mentionMatch?.[1] ?? '';
+  const promptForAgent = mentionMatch?.[2].trim() ?? '';
+  // Case-insensitive lookup for the agent name.
+  const agentNameKey = Object.keys(PERSONA_NAME_TO_KEY_MAP).find(name => name.toLowerCase() === agentName.toLowerCase());
+  if (mentionMatch && !agentNameKey) {
+    showCommandError(`Unknown agent: @${agentName}. Known agents: ${Object.keys(PERSONA_NAME_TO_KEY_MAP).join(', ')}.`);
+    return;
+  }
+  if (mentionMatch && !promptForAgent) {
+    showCommandError(`Nothing to send to ${agentNameKey}. Type a prompt after @${agentNameKey}.`);
+    return;
+  }
+  if (refuseOverBudget()) return;
+
+  let attachments: Attachment[];
+  try {
+    attachments = await Promise.all(stagedFiles.map(readAttachment));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Error: ${errorMessage}`;
+    return;
+  }
+
+  if (mentionMatch && agentNameKey) {
+    const targetPersonaKey = PERSONA_NAME_TO_KEY_MAP[agentNameKey];
+
+    // If mentioning the current persona, just strip the mention and proceed normally.
+    if (targetPersonaKey === personaSelector.value) {
+      userInput = promptForAgent;
+    } else {
+      // --- Execute one-off delegation and exit ---
+      chatInput.value = '';
+      clearStagedFiles();
+      const controller = new AbortController();
+      setRequestRunning(controller);
+
+      const currentPersonaKey = personaSelector.value as PersonaKey;
+      const currentPersonaName = personaOf(currentPersonaKey).name;
+      const conversation = activeConversation;
+      const trace = createRequestTrace();
+      const startedAt = performance.now();
+      
+      logOrchestrationEvent(`User command received: "${userInput}"`, 'user', { trace, target: currentPersonaName, prompt: userInput });
+      logOrchestrationEvent(`Delegation detected. Routing task from [${currentPersonaName}] to [${agentName}].`, 'invoke', {
+          trace,
+          source: currentPersonaName,
+          target: agentNameKey,
+          prompt: promptForAgent,
+      });
+
+      renderUserParts(appendMessage('USER>', 'user-message'), [{ text: userInput }, ...attachmentParts(attachments)]);
+      
+      const prefix = `${targetPersonaKey.toUpperCase()}>`;
+      const thinkingMessageWrapper = appendMessage(prefix, '');
+      thinkingMessageWrapper.parentElement!.classList.add('thinking');
+      const agentView = createAgentView(thinkingMessageWrapper, targetPersonaKey);
+
+      const rootContext: AgentContext = {
+          personaKey: currentPersonaKey,
+          chain: [currentPersonaKey],
+          node: { agent: currentPersonaName, prompt: userInput, children: [] },
+          trace,
+          signal: controller.signal,
+          attachments,
+      };
+
+      try {
+          const result = await executeInvokeAgent(agentNameKey, promptForAgent, rootContext, undefined, agentView);
+          finishCallNode(rootContext.node, result, 'success');
+          thinkingMessageWrapper.parentElement!.classList.remove('thinking');
+          const stopped = controller.signal.aborted;
+          logOrchestrationEvent(stopped ? `[${agentName}] was stopped by the operator.` : `[${agentName}] generated response. Task complete.`, stopped ? 'info' : 'complete', {
+              trace,
+              target: agentNameKey,
+              durationMs: performance.now() - startedAt,
+          });
+      } catch (error) {
+          console.error(error);
+          const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+          logOrchestrationEvent(`SYSTEM ERROR during delegation: ${errorMessage}`, 'error', {
+              trace,
+              target: agentNameKey,
+              durationMs: performance.now() - startedAt,
+              error: errorMessage,
+          });
+          thinkingMessageWrapper.parentElement?.remove();
+          appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Error during delegation: ${errorMessage}`;
+      } finally {
+          // One-off delegations are not in the history but still count
+          // towards the conversation's budget.
+          recordRequestUsage(conversation, trace, false);
+          if (conversation.history.length > 0) await db.saveConversation(conversation);
+          if (conversation === activeConversation) updateUsageStatus();
+          setRequestRunning(null);
+      }
+      return; // Stop further processing for this submission.
+    }
+  }
+
+  // If the mention was stripped, the input could be empty.
+  if (!userInput && attachments.length === 0) return;
+
+  chatInput.value = '';
+  clearStagedFiles();
+  if (workflowMode) {
+    await runWorkflow(userInput, attachments);
+    return;
+  }
+  await sendChatRequest(userInput, attachments);
+}
+
+/**
+ * Sends a message to the active conversation's persona and streams the
+ * response into the chat, then saves the exchange. A failed request leaves
+ * the history as it was and can be retried.
+ */
+async function sendChatRequest(userInput: string, attachments: Attachment[]) {
+  const controller = new AbortController();
+  setRequestRunning(controller);
+
+  const selectedProvider = getSelectedProvider();
+  const selectedPersonaKey = personaSelector.value as PersonaKey;
+  const selectedPersonaName = personaOf(selectedPersonaKey).name;
+  const prefix = `${selectedPersonaKey.toUpperCase()}>`;
+  const trace = createRequestTrace();
+  const startedAt = performance.now();
+
+  logOrchestrationEvent(`User command received: "${userInput}"`, 'user', { trace, target: selectedPersonaName, prompt: userInput });
+
+  // Display user message
+  const userMessageWrapper = appendMessage('USER>', 'user-message');
+  userMessageWrapper.parentElement!.dataset.historyIndex = String(trace.messageIndex);
+  renderUserParts(userMessageWrapper, [...(userInput ? [{ text: userInput }] : []), ...attachmentParts(attachments)]);
+
+  const thinkingMessageWrapper = appendMessage(prefix, '');
+  thinkingMessageWrapper.parentElement!.classList.add('thinking');
+  const agentView = createAgentView(thinkingMessageWrapper, selectedPersonaKey);
+
+  logOrchestrationEvent(`Task routed to [${selectedPersonaName}]. Processing...`, 'info', { trace, target: selectedPersonaName });
+
+  // Captured so a conversation switch mid-request cannot redirect the save.
+  const chat = activeChat;
+  const conversation = activeConversation;
+  // Restored if the request fails, so a retry starts from the same point.
+  const baseHistory = [...chat.getHistory()];
+
+  const rootContext: AgentContext = {
+    personaKey: selectedPersonaKey,
+    chain: [selectedPersonaKey],
+    node: { agent: selectedPersonaName, prompt: userInput, children: [] },
+    view: agentView,
+    trace,
+    signal: controller.signal,
+    attachments,
+  };
+
+  try {
+    const context = await compactContext(chat, conversation, selectedProvider, trace, controller.signal);
+    const input: ChatInput = {
+      text: userInput || undefined,
+      attachments: await prepareAttachments(attachments, selectedProvider.acceptsPdf),
+    };
+    const fullResponse = await runToolLoop(chat, input, rootContext, text => {
+        setAgentText(agentView, text);
+        chatContainer.scrollTop = chatContainer.scrollHeight;
+    });
+    finishCallNode(rootContext.node, fullResponse, 'success');
+    // Put the full history back, followed by this request's turns.
+    if (context) chat.setHistory([...baseHistory, ...chat.getHistory().slice(context.sentLength)]);
+
+    thinkingMessageWrapper.parentElement!.classList.remove('thinking');
+    setAgentText(agentView, fullResponse); // Final update
+    const stopped = controller.signal.aborted;
+    logOrchestrationEvent(stopped ? `[${selectedPersonaName}] was stopped by the operator. Partial response kept.` : `[${selectedPersonaName}] generated final response. Task complete.`, stopped ? 'info' : 'complete', {
+      trace,
+      target: selectedPersonaName,
+      durationMs: performance.now() - startedAt,
+    });
+
+    // Keep the transcripts of this turn's delegations with the history so
+    // they can be shown again after a reload.
+    const transcripts: TranscriptMap = { ...conversation.transcripts };
+    for (const child of rootContext.node.children) {
+        if (child.callId) transcripts[child.callId] = toTranscript(child);
+    }
+
+    // Save history after the entire exchange is complete
+    const isFirstExchange = conversation.title === DEFAULT_CONVERSATION_TITLE;
+    // The conversation may have moved to another provider mid-request.
+    const history = conversation.provider === selectedProvider.id
+      ? chat.getHistory()
+      : convertHistory(chat.getHistory(), getProvider(conversation.provider)!.format, generateSystemPrompt(selectedPersonaKey));
+    if (isFirstExchange) conversation.title = db.fallbackTitle(history);
+    recordRequestUsage(conversation, trace, true);
+    appendUsageNote(thinkingMessageWrapper, trace.usage);
+    await db.saveHistory(conversation, history, transcripts, context?.compaction);
+    if (conversation === activeConversation && chat !== activeChat) {
+        // The conversation was reloaded mid-request; show the finished exchange.
+        loadConversation(conversation);
+    } else if (chat === activeChat) {
+        showUserMessageActions(userMessageWrapper, trace.messageIndex, conversation.tree, branchNodes(conversation.tree).get(trace.messageIndex));
+        showRegenerateButton(thinkingMessageWrapper);
+    }
+    await refreshConversationSelector();
+    if (isFirstExchange) {
+        void generateConversationTitle(conversation, selectedProvider, userInput, fullResponse);
+    }
+
+  } catch (error) {
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    logOrchestrationEvent(`SYSTEM ERROR: ${errorMessage}`, 'error', {
+      trace,
+      target: selectedPersonaName,
+      durationMs: performance.now() - startedAt,
+      error: errorMessage,
+    });
+    finishCallNode(rootContext.node, errorMessage, 'error');
+    // Drop any turns of the tool loop that did complete.
+    chat.setHistory(baseHistory);
+    thinkingMessageWrapper.parentElement?.remove();
+    const errorWrapper = appendMessage('SYSTEM_ERROR>', 'error-message');
+    errorWrapper.textContent = `Error: ${errorMessage}`;
+    appendMessageAction(errorWrapper, 'Retry', 'Send this message again', () => {
+      // Only the latest message can be sent again in place.
+      if (activeRequest || chat !== activeChat || chat.getHistory().length !== baseHistory.length) {
+        logOrchestrationEvent('Only the latest failed message can be retried.', 'info', { transient: true });
+        return;
+      }
+      if (refuseOverBudget()) return;
+      userMessageWrapper.parentElement!.remove();
+      errorWrapper.parentElement!.remove();
+      void sendChatRequest(userInput, attachments);
+    });
+    // The tokens of a failed request were still used. Skipped if the
+    // request failed after its usage was recorded.
+    if (conversation.usage?.requests[trace.messageIndex] !== trace.usage) {
+      recordRequestUsage(conversation, trace, false);
+      if (conversation.history.length > 0) await db.saveConversation(conversation);
+    }
+  } finally {
+    if (conversation === activeConversation) updateUsageStatus();
+    setRequestRunning(null);
+  }
+}
+
+/**
+ * Returns the text and attachments of a user message, to send it again.
+ */
+function userMessageInput(message: DisplayMessage): { text: string; attachments: Attachment[] } {
+  const text = message.parts.map(part => 'text' in part ? part.text : '').join('');
+  const attachments = message.parts.flatMap((part): Attachment[] => {
+    if ('image' in part) return [attachmentFromUrl('image', part.image)].filter(a => a !== null);
+    if (!('file' in part)) return [];
+    const { name, mimeType, url, text } = part.file;
+    if (text !== undefined) return [{ name, mimeType, text }];
+    return url ? [attachmentFromUrl(name, url)].filter(a => a !== null) : [];
+  });
+  return { text, attachments };
+}
+
+/**
+ * Rolls the chat back to before the user message at `index` and sends
+ * `text` in its place. Once saved, the new exchange becomes a branch beside
+ * the old one.
+ */
+async function resendFromMessage(index: number, text: string, attachments: Attachment[]) {
+  const element = chatContainer.querySelector(`.message[data-history-index="${index}"]`);
+  if (!element) return;
+  activeChat.setHistory(activeChat.getHistory().slice(0, index));
+  while (element.nextSibling) element.nextSibling.remove();
+  element.remove();
+  await sendChatRequest(text, attachments);
+}
+
+/**
+ * Handles the Regenerate button on the latest response: sends the last user
+ * message again. The old response stays reachable with ‹ ›.
+ */
+async function handleRegenerate() {
+  if (activeRequest || refuseOverBudget()) return;
+  const lastUserMessage = toDisplayMessages(activeChat.getHistory()).filter(message => message.role === 'user').pop();
+  if (!lastUserMessage) return;
+  const { text, attachments } = userMessageInput(lastUserMessage);
+  logOrchestrationEvent(`Regenerating the response to message ${lastUserMessage.index}.`, 'info', { transient: true });
+  await resendFromMessage(lastUserMessage.index, text, attachments);
+}
+
+/**
+ * Handles Edit on a user message: swaps the message for an editor. Sending
+ * the edit resends the message, with its attachments, as a new branch.
+ */
+function handleEditMessage(contentWrapper: HTMLElement, index: number) {
+  if (activeRequest || contentWrapper.querySelector('.message-editor')) return;
+  const message = toDisplayMessages(activeChat.getHistory()).find(m => m.role === 'user' && m.index === index);
+  if (!message) return;
+  const { text, attachments } = userMessageInput(message);
+
+  const original = Array.from(contentWrapper.childNodes);
+  const editor = document.createElement('textarea');
+  editor.className = 'message-editor';
+  editor.value = text;
+  editor.rows = Math.min(8, text.split('\n').length + 1);
+  contentWrapper.replaceChildren(editor);
+
+  const cancel = () => contentWrapper.replaceChildren(...original);
+  const send = async () => {
+    const editedText = editor.value.trim();
+    if ((!editedText && attachments.length === 0) || activeRequest || refuseOverBudget()) return;
+    logOrchestrationEvent(`Message ${index} edited; sending it as a new branch.`, 'info', { transient: true });
+    await resendFromMessage(index, editedText, attachments);
+  };
+  appendMessageAction(contentWrapper, 'Send', 'Send the edited message as a new branch', () => void send());
+  appendMessageAction(contentWrapper, 'Cancel', 'Keep the message as it was', cancel);
+  editor.addEventListener('keydown', event => {
+    if (event.key === 'Escape') {
+      cancel();
+    } else if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      void send();
+    }
+  });
+  editor.focus();
+}
+
+/**
+ * Handles ‹ and › on a forked message: shows another branch of the
+ * conversation and continues the chat from it.
+ */
+async function handleBranchSwitch(nodeId: string | undefined) {
+  if (!nodeId || activeRequest) return;
+  await db.switchBranch(activeConversation, nodeId);
+  loadConversation(activeConversation);
+}
+
+/**
+ * Handles the click event for the "Clear History" button.
+ */
+async function handleClearHistory() {
+  if (confirm(`Are you sure you want to clear the chat history of "${activeConversation.title}"?`)) {
+      if (activeConversation.history.length > 0) {
+          // The per-message usage goes with the messages; the total stays
+          // since those tokens were spent.
+          if (activeConversation.usage) activeConversation.usage.requests = {};
+          await db.saveHistory(activeConversation, [], {});
+      }
+      await db.deleteLogRecords(activeConversation.id);
+      loadConversation(activeConversation); // This will refresh the UI to a clean state
+      logOrchestrationEvent('Chat history and logs cleared by user.', 'info');
+  }
+}
+
+/**
+ * Populates the persona selector dropdown and landing page cards.
+ */
+function populatePersonas() {
+    const selected = personaSelector.value;
+    personaSelector.innerHTML = '';
+    personasGrid.innerHTML = '';
+    for (const persona of listPersonas()) {
+        // Populate dropdown
+        const option = document.createElement('option');
+        option.value = persona.key;
+        option.textContent = persona.name;
+        personaSelector.appendChild(option);
+
+        // Populate landing page grid
+        const card = document.createElement('div');
+        card.className = 'persona-card';
+        const name = document.createElement('h3');
+        name.textContent = persona.name;
+        const role = document.createElement('p');
+        role.className = 'role';
+        role.textContent = persona.role;
+        const summary = document.createElement('p');
+        summary.textContent = persona.summary;
+        card.append(name, role, summary);
+        personasGrid.appendChild(card);
+    }
+    if (selected && getPersona(selected)) personaSelector.value = selected;
+}
+
+// --- Workflow Mode ---
+
+// The personas that can drive a workflow: they draft the plan and write
+// the report.
+const WORKFLOW_ORCHESTRATORS: PersonaKey[] = ['Lyra', 'Dude'];
+
+const STEP_STATUS_LABELS: Record<StepStatus, string> = {
+  pending: 'Pending',
+  running: 'Running...',
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+// A plan shown in the orchestrator's message. Its rows can be edited until
+// it runs, then show each step's status and output.
+interface PlanView {
+  element: HTMLDivElement;
+  steps: HTMLOListElement;
+  error: HTMLParagraphElement;
+  addButton: HTMLButtonElement;
+  runButton: HTMLButtonElement;
+  discardButton: HTMLButtonElement;
+  // By step id.
+  rows: Map<string, PlanStepRow>;
+}
+
+interface PlanStepRow {
+  item: HTMLLIElement;
+  title: HTMLInputElement;
+  agent: HTMLSelectElement;
+  task: HTMLTextAreaElement;
+  dependsOn: HTMLInputElement;
+  expectedOutput: HTMLInputElement;
+  status: HTMLSpanElement;
+  result: HTMLDetailsElement;
+  resultBody: HTMLDivElement;
+}
+
+function isWorkflowOrchestrator(key: PersonaKey): boolean {
+  return WORKFLOW_ORCHESTRATORS.includes(key);
+}
+
+/**
+ * Enables the workflow button for the personas that can drive a workflow,
+ * and leaves workflow mode for the others.
+ */
+function updateWorkflowButton() {
+  const available = isWorkflowOrchestrator(personaSelector.value);
+  if (!available) workflowMode = false;
+  workflowButton.disabled = !available;
+  workflowButton.setAttribute('aria-pressed', String(workflowMode));
+  chatInput.placeholder = workflowMode ? 'Describe a task to plan... (/help for commands)' : 'Enter command... (/help for commands)';
+}
+
+/**
+ * Turns workflow mode on or off. While it is on, messages to the selected
+ * persona are planned and carried out as workflows.
+ * @throws If the selected persona cannot drive a workflow.
+ */
+function setWorkflowMode(on: boolean) {
+  if (on && !isWorkflowOrchestrator(personaSelector.value)) {
+    throw new Error(`Workflow mode is driven by ${WORKFLOW_ORCHESTRATORS.join(' or ')}. Switch to one of them first, e.g. /persona Lyra.`);
+  }
+  workflowMode = on;
+  updateWorkflowButton();
+  logOrchestrationEvent(on ? `Workflow mode on: [${personaOf(personaSelector.value).name}] plans each task for review.` : 'Workflow mode off.', 'info', { transient: true });
+}
+
+/**
+ * Returns the personas an orchestrator can give steps to: those it may
+ * delegate to, other than CUA and itself.
+ */
+function workflowAgents(orchestrator: Persona): Persona[] {
+  return listPersonas().filter(p => p.key !== 'CUA' && p.key !== orchestrator.key && (!orchestrator.delegates || orchestrator.delegates.includes(p.key)));
+}
+
+/**
+ * Sends a message without tools and returns the reply, counting its tokens
+ * towards the request. A stopped reply is returned as far as it got.
+ */
+async function sendPlainTurn(chat: ProviderChat, input: ChatInput, context: AgentContext, onProgress?: (text: string) => void): Promise<string> {
+  let text = '';
+  try {
+    for await (const event of chat.sendMessageStream(input, { signal: context.signal })) {
+      if (event.type === 'text') {
+        text += event.text;
+        onProgress?.(text);
+      } else if (event.type === 'usage') {
+        recordUsage(context, chat.model, event.usage);
+      }
+    }
+  } catch (error) {
+    if (!context.signal.aborted) throw error;
+  }
+  return text;
+}
+
+/**
+ * Builds the view of a drafted plan, ready for editing.
+ */
+function renderPlanView(plan: Plan, agents: Persona[]): PlanView {
+  const element = planViewTemplate.content.firstElementChild!.cloneNode(true) as HTMLDivElement;
+  const part = <T extends HTMLElement>(selector: string) => element.querySelector(selector) as T;
+  const view: PlanView = {
+    element,
+    steps: part('.plan-steps'),
+    error: part('.plan-error'),
+    addButton: part('.plan-add-button'),
+    runButton: part('.plan-run-button'),
+    discardButton: part('.plan-discard-button'),
+    rows: new Map(),
+  };
+  part('.plan-goal').textContent = `Goal: ${plan.goal}`;
+  for (const step of plan.steps) {
+    appendPlanStepRow(view, plan, step, agents);
+  }
+  setPlanEditable(view, true);
+  return view;
+}
+
+function appendPlanStepRow(view: PlanView, plan: Plan, step: PlanStep, agents: Persona[]) {
+  const item = planStepTemplate.content.firstElementChild!.cloneNode(true) as HTMLLIElement;
+  const part = <T extends HTMLElement>(selector: string) => item.querySelector(selector) as T;
+  const row: PlanStepRow = {
+    item,
+    title: part('.plan-step-title'),
+    agent: part('.plan-step-agent'),
+    task: part('.plan-step-task'),
+    dependsOn: part('.plan-step-depends'),
+    expectedOutput: part('.plan-step-output'),
+    status: part('.plan-step-status'),
+    result: part('.plan-step-result'),
+    resultBody: part('.plan-step-result-body'),
+  };
+  part('.plan-step-id').textContent = step.id;
+  row.title.value = step.title;
+  for (const agent of agents) {
+    const option = document.createElement('option');
+    option.value = agent.name;
+    option.textContent = agent.name;
+    row.agent.appendChild(option);
+  }
+  row.agent.value = step.agent;
+  row.task.value = step.task;
+  row.dependsOn.value = step.dependsOn.join(', ');
+  row.expectedOutput.value = step.expectedOutput;
+  part('.plan-step-remove').addEventListener('click', () => {
+    plan.steps = plan.steps.filter(other => other !== step);
+    view.rows.delete(step.id);
+    item.remove();
+  });
+  view.rows.set(step.id, row);
+  view.steps.appendChild(item);
+  updatePlanStepRow(view, step);
+}
+
+/**
+ * Locks or unlocks the plan's fields. The Add, Run and Discard buttons and
+ * the remove buttons are only shown while it can be edited.
+ */
+function setPlanEditable(view: PlanView, editable: boolean) {
+  view.element.classList.toggle('editing', editable);
+  view.element.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>('input, select, textarea').forEach(field => {
+    field.disabled = !editable;
+  });
+}
+
+/**
+ * Copies the edited fields back into the plan's steps.
+ */
+function readPlanEdits(view: PlanView, plan: Plan) {
+  for (const step of plan.steps) {
+    const row = view.rows.get(step.id)!;
+    step.title = row.title.value.trim() || step.id;
+    step.agent = row.agent.value;
+    step.task = row.task.value.trim();
+    step.dependsOn = row.dependsOn.value.split(/[\s,]+/).filter(id => id);
+    step.expectedOutput = row.expectedOutput.value.trim();
+  }
+}
+
+function updatePlanStepRow(view: PlanView, step: PlanStep) {
+  const row = view.rows.get(step.id);
+  if (!row) return;
+  row.item.dataset.status = step.status;
+  const attempt = step.attempts > 1 && (step.status === 'running' || step.status === 'failed') ? ` (attempt ${step.attempts} of ${STEP_RETRIES + 1})` : '';
+  row.status.textContent = STEP_STATUS_LABELS[step.status] + attempt;
+  row.status.title = step.error ?? '';
+}
+
+/**
+ * Waits for the operator to run or discard a drafted plan. Running applies
+ * the edits first and is refused while the plan cannot run.
+ * @returns Whether the plan is to be run. Stopping the request discards it.
+ */
+function reviewPlan(view: PlanView, plan: Plan, agents: Persona[], signal: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    const listeners = new AbortController();
+    const finish = (run: boolean) => {
+      listeners.abort();
+      setPlanEditable(view, false);
+      resolve(run);
+    };
+    view.addButton.addEventListener('click', () => {
+      readPlanEdits(view, plan);
+      const last = plan.steps[plan.steps.length - 1];
+      const step: PlanStep = {
+        id: nextStepId(plan),
+        title: 'New step',
+        agent: agents[0].name,
+        task: '',
+        dependsOn: last ? [last.id] : [],
+        expectedOutput: '',
+        status: 'pending',
+        attempts: 0,
+      };
+      plan.steps.push(step);
+      appendPlanStepRow(view, plan, step, agents);
+      view.rows.get(step.id)!.task.focus();
+    }, { signal: listeners.signal });
+    view.runButton.addEventListener('click', () => {
+      readPlanEdits(view, plan);
+      const problem = validatePlan(plan, agents.map(agent => agent.name));
+      view.error.textContent = problem ?? '';
+      view.error.hidden = !problem;
+      if (!problem) finish(true);
+    }, { signal: listeners.signal });
+    view.discardButton.addEventListener('click', () => finish(false), { signal: listeners.signal });
+    signal.addEventListener('abort', () => finish(false), { signal: listeners.signal });
+  });
+}
+
+/**
+ * Makes one attempt at a plan step. Its agent runs as a sub-agent of the
+ * orchestrator and streams into the step's row.
+ */
+async function runPlanStep(plan: Plan, step: PlanStep, view: PlanView, context: AgentContext): Promise<StepResult> {
+  const row = view.rows.get(step.id)!;
+  const orchestratorName = personaOf(context.personaKey).name;
+  const logDetails: LogDetails = { trace: context.trace, source: orchestratorName, target: step.agent };
+  if (step.attempts > 1) {
+    logOrchestrationEvent(`Retrying step ${step.id} "${step.title}" (attempt ${step.attempts}) after: ${step.error}`, 'info', logDetails);
+  }
+  logOrchestrationEvent(`[${orchestratorName}] assigned step ${step.id} "${step.title}" to [${step.agent}].`, 'invoke', { ...logDetails, prompt: step.task });
+  row.result.hidden = false;
+  row.result.open = true;
+  row.resultBody.innerHTML = '';
+  const agentView = createAgentView(row.resultBody, PERSONA_NAME_TO_KEY_MAP[step.agent]);
+  // Tells the step's node in the call tree apart, to see whether it failed.
+  const callId = `plan-${step.id}-${step.attempts}`;
+  const output = await executeInvokeAgent(step.agent, stepPrompt(plan, step), context, callId, agentView);
+  row.result.open = false;
+  const node = context.node.children.find(child => child.callId === callId);
+  return { ok: node?.status === 'success' && !context.signal.aborted, output };
+}
+
+/**
+ * Runs a task as a workflow driven by the selected persona: it drafts a
+ * plan, the operator reviews and edits it, the steps are carried out by
+ * the agents they are given to, and the persona writes the report from
+ * their results. The task and the report are saved as an exchange.
+ */
+async function runWorkflow(task: string, attachments: Attachment[]) {
+  const controller = new AbortController();
+  setRequestRunning(controller);
+
+  const provider = getSelectedProvider();
+  const orchestrator = personaOf(personaSelector.value);
+  const agents = workflowAgents(orchestrator);
+  const trace = createRequestTrace();
+  const startedAt = performance.now();
+  // Captured so a conversation switch mid-workflow cannot redirect the save.
+  const chat = activeChat;
+  const conversation = activeConversation;
+
+  logOrchestrationEvent(`Workflow requested: "${task}"`, 'user', { trace, target: orchestrator.name, prompt: task });
+
+  const userMessageWrapper = appendMessage('USER>', 'user-message');
+  userMessageWrapper.parentElement!.dataset.historyIndex = String(trace.messageIndex);
+  renderUserParts(userMessageWrapper, [{ text: task }, ...attachmentParts(attachments)]);
+  const responseWrapper = appendMessage(`${orchestrator.key.toUpperCase()}>`, '');
+  responseWrapper.parentElement!.classList.add('thinking');
+  const agentView = createAgentView(responseWrapper, orchestrator.key);
+
+  const rootContext: AgentContext = {
+    personaKey: orchestrator.key,
+    chain: [orchestrator.key],
+    node: { agent: orchestrator.name, prompt: task, children: [] },
+    view: agentView,
+    trace,
+    signal: controller.signal,
+    attachments,
+  };
+
+  let saved = false;
+  try {
+    if (agents.length === 0) throw new Error(`${orchestrator.name} has no agents to give steps to.`);
+    const input: ChatInput = { text: task, attachments: await prepareAttachments(attachments, provider.acceptsPdf) };
+    // The plan and the report come from a chat of their own, without tools,
+    // so nothing is delegated before the operator approves the plan.
+    const plannerChat = provider.createChat(generateSystemPrompt(orchestrator.key), undefined, personaModel(orchestrator, provider));
+    setAgentText(agentView, 'Drafting a plan...');
+    const planText = await sendPlainTurn(plannerChat, { ...input, text: planningPrompt(task, agents) }, rootContext);
+    if (controller.signal.aborted) {
+      setAgentText(agentView, STOPPED_NOTICE);
+      return;
+    }
+    const plan = parsePlan(planText, task, agents.map(agent => agent.name));
+    logOrchestrationEvent(`[${orchestrator.name}] drafted a plan of ${plan.steps.length} step(s). Awaiting review.`, 'info', { trace, source: orchestrator.name });
+
+    const view = renderPlanView(plan, agents);
+    agentView.children.appendChild(view.element);
+    responseWrapper.parentElement!.classList.remove('thinking');
+    setAgentText(agentView, 'Review the plan and edit it if needed, then run it.');
+    scrollChatOf(view.element);
+    if (!await reviewPlan(view, plan, agents, controller.signal)) {
+      setAgentText(agentView, controller.signal.aborted ? STOPPED_NOTICE : 'Plan discarded.');
+      logOrchestrationEvent('Plan discarded by the operator.', 'info', { trace, source: orchestrator.name });
+      return;
+    }
+
+    responseWrapper.parentElement!.classList.add('thinking');
+    setAgentText(agentView, 'Carrying out the plan...');
+    logOrchestrationEvent(`Plan approved with ${plan.steps.length} step(s). Executing...`, 'info', { trace, source: orchestrator.name });
+    await executePlan(plan, step => runPlanStep(plan, step, view, rootContext), {
+      signal: controller.signal,
+      retries: STEP_RETRIES,
+      onUpdate: step => updatePlanStepRow(view, step),
+    });
+    const count = (status: StepStatus) => plan.steps.filter(step => step.status === status).length;
+    const failed = count('failed') + count('skipped');
+    logOrchestrationEvent(`Plan finished: ${count('done')} step(s) done, ${count('failed')} failed, ${count('skipped')} skipped.`, failed > 0 ? 'error' : 'success', {
+      trace,
+      source: orchestrator.name,
+      error: failed > 0 ? `${failed} step(s) did not finish.` : undefined,
+    });
+
+    const report = controller.signal.aborted
+      ? withStoppedNotice('')
+      : await sendPlainTurn(plannerChat, { text: synthesisPrompt(plan) }, rootContext, text => {
+          setAgentText(agentView, text);
+          scrollChatOf(agentView.text);
+        });
+    const stopped = controller.signal.aborted;
+    const response = stopped && report !== STOPPED_NOTICE ? withStoppedNotice(report) : report;
+    finishCallNode(rootContext.node, response, 'success');
+    responseWrapper.parentElement!.classList.remove('thinking');
+    setAgentText(agentView, response);
+    logOrchestrationEvent(stopped ? `[${orchestrator.name}] was stopped by the operator. Partial results kept.` : `[${orchestrator.name}] wrote the workflow report. Task complete.`, stopped ? 'info' : 'complete', {
+      trace,
+      target: orchestrator.name,
+      durationMs: performance.now() - startedAt,
+    });
+
+    // The task and report are kept like any exchange; the plan view is not,
+    // but the steps' transcripts are.
+    chat.appendTurn(input, response);
+    const transcripts: TranscriptMap = { ...conversation.transcripts };
+    for (const child of rootContext.node.children) {
+      if (child.callId) transcripts[child.callId] = toTranscript(child);
+    }
+    const isFirstExchange = conversation.title === DEFAULT_CONVERSATION_TITLE;
+    const history = conversation.provider === provider.id
+      ? chat.getHistory()
+      : convertHistory(chat.getHistory(), getProvider(conversation.provider)!.format, generateSystemPrompt(orchestrator.key));
+    if (isFirstExchange) conversation.title = db.fallbackTitle(history);
+    recordRequestUsage(conversation, trace, true);
+    appendUsageNote(responseWrapper, trace.usage);
+    await db.saveHistory(conversation, history, transcripts);
+    saved = true;
+    if (conversation === activeConversation && chat !== activeChat) {
+      loadConversation(conversation);
+    }
+    await refreshConversationSelector();
+    if (isFirstExchange) {
+      void generateConversationTitle(conversation, provider, task, response);
+    }
+  } catch (error) {
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    logOrchestrationEvent(`SYSTEM ERROR during workflow: ${errorMessage}`, 'error', {
+      trace,
+      target: orchestrator.name,
+      durationMs: performance.now() - startedAt,
+      error: errorMessage,
+    });
+    finishCallNode(rootContext.node, errorMessage, 'error');
+    setAgentText(agentView, '');
+    appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Error during workflow: ${errorMessage}`;
+  } finally {
+    responseWrapper.parentElement!.classList.remove('thinking');
+    // A workflow that was not saved still used tokens.
+    if (!saved) {
+      recordRequestUsage(conversation, trace, false);
+      if (conversation.history.length > 0) await db.saveConversation(conversation);
+    }
+    if (conversation === activeConversation) updateUsageStatus();
+    setRequestRunning(null);
+  }
+}
+
+// --- Persona Editor ---
+
+// The key of the persona open in the editor, or null for a new one.
+let editingPersonaKey: PersonaKey | null = null;
+
+/**
+ * Reloads the persona registry from IndexedDB and refreshes every view
+ * of the personas.
+ */
+async function reloadPersonas() {
+    setCustomPersonas(await db.listCustomPersonas());
+    populatePersonas();
+    populateLogAgentFilter();
+    populatePersonaList();
+    chatWindows.forEach(populateChatWindowSelectors);
+}
+
+function populatePersonaList() {
+    personaList.innerHTML = '';
+    for (const persona of listPersonas()) {
+        const option = document.createElement('option');
+        option.value = persona.key;
+        option.textContent = persona.name;
+        personaList.appendChild(option);
+    }
+    if (editingPersonaKey) personaList.value = editingPersonaKey;
+}
+
+function populatePersonaProviderOptions() {
+    personaProviderInput.length = 1; // Keep "Current selection"
+    for (const provider of listProviders()) {
+        const option = document.createElement('option');
+        option.value = provider.id;
+        option.textContent = provider.label;
+        personaProviderInput.appendChild(option);
+    }
+}
+
+/**
+ * Shows a persona in the editor form, or an empty form for a new one.
+ */
+async function editPersona(persona: Persona | null) {
+    editingPersonaKey = persona?.key ?? null;
+    personaList.value = editingPersonaKey ?? '';
+    personaNameInput.value = persona?.name ?? '';
+    personaRoleInput.value = persona?.role ?? '';
+    personaSummaryInput.value = persona?.summary ?? '';
+    personaDescriptionInput.value = persona?.description ?? '';
+    personaToneInput.value = persona?.tone ?? '';
+    personaProviderInput.value = persona?.defaultProvider ?? '';
+    personaModelInput.value = persona?.model ?? '';
+    personaMarkdownInput.checked = persona?.markdown !== false;
+    personaToolsFieldset.querySelectorAll('label').forEach(label => label.remove());
+    for (const tool of listTools()) {
+        const label = document.createElement('label');
+        label.title = tool.description;
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.value = tool.name;
+        checkbox.checked = persona ? isToolAllowed(tool, persona) : isDefaultTool(tool, '');
+        label.append(checkbox, tool.label);
+        personaToolsFieldset.appendChild(label);
+    }
+
+    personaDelegatesFieldset.querySelectorAll('label').forEach(label => label.remove());
+    for (const other of listPersonas()) {
+        if (other.key === editingPersonaKey || other.key === 'CUA') continue;
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.value = other.key;
+        checkbox.checked = !persona?.delegates || persona.delegates.includes(other.key);
+        label.append(checkbox, other.name);
+        personaDelegatesFieldset.appendChild(label);
+    }
+
+    // Built-in personas can be reset once edited, but not deleted.
+    if (!persona) {
+        personaDeleteButton.disabled = true;
+        personaDeleteButton.textContent = 'Delete';
+    } else if (isBuiltInPersona(persona.key)) {
+        const edited = (await db.listCustomPersonas()).some(p => p.key === persona.key);
+        personaDeleteButton.disabled = !edited;
+        personaDeleteButton.textContent = 'Reset';
+    } else {
+        personaDeleteButton.disabled = false;
+        personaDeleteButton.textContent = 'Delete';
+    }
+}
+
+/**
+ * Returns a key for a new persona, based on its name.
+ */
+function uniquePersonaKey(base: string): PersonaKey {
+    let key = base;
+    for (let i = 2; getPersona(key) || isBuiltInPersona(key); i++) key = `${base}${i}`;
+    return key;
+}
+
+/**
+ * Returns `name`, or a numbered variant if another persona already uses it.
+ * Names are compared case-insensitively, like @mentions.
+ */
+function uniquePersonaName(name: string, key: PersonaKey): string {
+    const taken = (candidate: string) => listPersonas().some(p => p.key !== key && p.name.toLowerCase() === candidate.toLowerCase());
+    let unique = name;
+    for (let i = 2; taken(unique); i++) unique = `${name}${i}`;
+    return unique;
+}
+
+function openPersonaEditor() {
+    populatePersonaList();
+    populatePersonaProviderOptions();
+    void editPersona(personaOf(personaSelector.value));
+    personaEditor.showModal();
+}
+
+function handlePersonaListSelect() {
+    const persona = getPersona(personaList.value);
+    if (persona) void editPersona(persona);
+}
+
+async function handlePersonaSave(event: Event) {
+    event.preventDefault();
+    const name = personaNameInput.value.trim();
+    const key = editingPersonaKey ?? uniquePersonaKey(name);
+    if (uniquePersonaName(name, key) !== name) {
+        alert(`Another persona is already named '${name}'.`);
+        return;
+    }
+
+    const checkboxes = Array.from(personaDelegatesFieldset.querySelectorAll<HTMLInputElement>('input[type="checkbox"]'));
+    const tools = Array.from(personaToolsFieldset.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked')).map(c => c.value);
+    const defaultTools = listTools().filter(tool => isDefaultTool(tool, key)).map(tool => tool.name);
+    const persona: Persona = {
+        key,
+        name,
+        role: personaRoleInput.value.trim(),
+        description: personaDescriptionInput.value.trim(),
+        summary: personaSummaryInput.value.trim(),
+        tone: personaToneInput.value.trim() || null,
+        defaultProvider: personaProviderInput.value || undefined,
+        model: personaModelInput.value.trim() || undefined,
+        // Leaving every target checked keeps new personas reachable too.
+        delegates: checkboxes.every(c => c.checked) ? undefined : checkboxes.filter(c => c.checked).map(c => c.value),
+        // A persona with the default tools follows changes to the defaults.
+        tools: tools.length === defaultTools.length && tools.every(name => defaultTools.includes(name)) ? undefined : tools,
+        markdown: personaMarkdownInput.checked ? undefined : false,
+    };
+    const problem = validatePersona(persona);
+    if (problem) {
+        alert(problem);
+        return;
+    }
+
+    await db.savePersonas([persona]);
+    editingPersonaKey = key;
+    await reloadPersonas();
+    await editPersona(persona);
+    logOrchestrationEvent(`Persona [${name}] saved.`, 'info', { transient: true });
+    if (key === personaSelector.value) {
+        loadConversation(activeConversation); // Apply the new system prompt
+    }
+}
+
+async function handlePersonaDelete() {
+    if (!editingPersonaKey) return;
+    const persona = personaOf(editingPersonaKey);
+    const builtIn = isBuiltInPersona(persona.key);
+    const question = builtIn
+        ? `Reset ${persona.name} to the built-in definition?`
+        : `Delete the persona ${persona.name}? Its conversations are kept but can only be reached again by recreating it.`;
+    if (!confirm(question)) return;
+
+    await db.deletePersona(persona.key);
+    await reloadPersonas();
+    await editPersona(builtIn ? personaOf(persona.key) : null);
+    logOrchestrationEvent(`Persona [${persona.name}] ${builtIn ? 'reset' : 'deleted'}.`, 'info', { transient: true });
+    if (persona.key === activeConversation.persona) {
+        if (!getPersona(persona.key)) personaSelector.selectedIndex = 0;
+        await handleSessionSwitch();
+    }
+}
+
+/**
+ * Exports every user-defined persona, including edited built-ins, as a
+ * persona pack.
+ */
+async function handlePersonaExport() {
+    const personas = await db.listCustomPersonas();
+    if (personas.length === 0) {
+        alert('There are no custom or edited personas to export.');
+        return;
+    }
+    downloadFile('cua-persona-pack.json', exportPersonaPack(personas), 'application/json');
+}
+
+function handlePersonaImportClick() {
+    personaImportInput.click();
+}
+
+/**
+ * Imports a persona pack. Personas whose key already exists either replace
+ * the existing one or are added under a new key, as the operator chooses.
+ * Names are renumbered if they would clash with another persona.
+ */
+async function handlePersonaImportFile() {
+    const file = personaImportInput.files?.[0];
+    personaImportInput.value = '';
+    if (!file) return;
+
+    let personas: Persona[];
+    try {
+        personas = parsePersonaPack(await file.text());
+    } catch (error) {
+        alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    const conflicts = personas.filter(p => getPersona(p.key));
+    const replace = conflicts.length > 0 && confirm(
+        `${conflicts.length} of the imported persona(s) already exist (${conflicts.map(p => p.name).join(', ')}).\n\nOK: replace them.\nCancel: keep both.`
+    );
+    for (const persona of personas) {
+        if (getPersona(persona.key) && !replace) persona.key = uniquePersonaKey(persona.key);
+        persona.name = uniquePersonaName(persona.name, persona.key);
+    }
+
+    await db.savePersonas(personas);
+    await reloadPersonas();
+    logOrchestrationEvent(`Imported ${personas.length} persona(s).`, 'success', { transient: true });
+    if (personas.some(p => p.key === activeConversation.persona)) {
+        loadConversation(activeConversation);
+    }
+}
+
+/**
+ * Populates the provider selector from the provider registry. Providers
+ * without credentials or an endpoint are listed but disabled.
+ */
+function populateProviders() {
+    modelSelector.innerHTML = '';
+    for (const provider of listProviders()) {
+        const option = document.createElement('option');
+        option.value = provider.id;
+        option.textContent = provider.label;
+        option.disabled = !provider.available;
+        modelSelector.appendChild(option);
+    }
+}
+
+// --- Approval Gate ---
+
+const AUDIT_LOG_DISPLAY_LIMIT = 100;
+
+/**
+ * Asks the operator to approve a call. Closing the dialog without choosing
+ * denies the call, and so does stopping the request: a queued prompt is
+ * then never shown, and an open one is closed.
+ */
+function askOperator(request: PolicyRequest, policy: Policy | undefined, signal: AbortSignal): Promise<boolean> {
+    const queued = approvalQueue.then(() => new Promise<boolean>(resolve => {
+        if (signal.aborted) {
+            resolve(false);
+            return;
+        }
+        const onAbort = () => approvalDialog.close();
+        signal.addEventListener('abort', onAbort, { once: true });
+        approvalSummary.textContent = request.target
+            ? `${request.caller} wants to delegate a task to ${request.target}.`
+            : `${request.caller} wants to use the ${request.tool} tool.`;
+        approvalPolicy.textContent = policy ? `Policy: ${policy.name || policy.id}` : '';
+        approvalArgs.textContent = JSON.stringify(request.args, null, 2);
+        approvalDialog.returnValue = '';
+        approvalDialog.addEventListener('close', () => {
+            signal.removeEventListener('abort', onAbort);
+            resolve(approvalDialog.returnValue === 'allow' && !signal.aborted);
+        }, { once: true });
+        approvalDialog.showModal();
+    }));
+    approvalQueue = queued;
+    // A prompt still waiting its turn is denied at once.
+    const stopped = new Promise<boolean>(resolve => signal.addEventListener('abort', () => resolve(false), { once: true }));
+    return Promise.race([queued, stopped]);
+}
+
+/**
+ * Checks a call against Kara's policies before it runs, asking the operator
+ * when the matching policy says so. Every decision goes to the audit log.
+ * @returns Null if the call may run, otherwise the tool response for the model.
+ */
+async function checkApproval(call: ToolCall, caller: AgentContext): Promise<string | null> {
+    const callerName = personaOf(caller.personaKey).name;
+    const request: PolicyRequest = {
+        caller: callerName,
+        tool: call.name,
+        target: call.name === 'invokeAgent' ? String(call.args.agentName ?? '') : undefined,
+        args: call.args,
+    };
+    const { effect, policy } = evaluatePolicies(policies, request);
+    const allowed = effect === 'ask' ? await askOperator(request, policy, caller.signal) : effect === 'allow';
+    const stopped = effect === 'ask' && caller.signal.aborted;
+
+    const record: AuditRecord = {
+        timestamp: Date.now(),
+        conversationId: caller.trace.conversationId,
+        requestId: caller.trace.requestId,
+        caller: callerName,
+        tool: call.name,
+        target: request.target,
+        args: JSON.stringify(call.args),
+        effect,
+        decision: allowed ? 'allowed' : 'denied',
+        policyId: policy?.id,
+        policyName: policy?.name,
+        decidedBy: effect === 'ask' && !stopped ? 'operator' : undefined,
+    };
+    db.addAuditRecord(record).catch(() => { /* Logged by db */ });
+
+    const subject = request.target ? `delegation to [${request.target}]` : `[${call.name}]`;
+    const logDetails: LogDetails = { trace: caller.trace, source: 'Kara', target: callerName };
+    if (allowed) {
+        if (effect === 'ask') logOrchestrationEvent(`KARA: Operator approved ${subject} for [${callerName}].`, 'success', logDetails);
+        return null;
+    }
+    const reason = stopped ? 'the request was stopped' : effect === 'ask' ? 'the operator denied it' : `policy '${policy?.name || policy?.id}'`;
+    logOrchestrationEvent(`KARA: Blocked ${subject} for [${callerName}]: ${reason}.`, 'error', { ...logDetails, error: `Denied by ${reason}.` });
+    return `Error: Kara, the Security & Compliance Officer, denied this call (${reason}). Do not retry it; continue without it.`;
+}
+
+// --- Policy Editor ---
+
+function openPolicyEditor() {
+    draftPolicies = policies.map(p => ({ ...p }));
+    renderPolicyRows();
+    policyToolNames.replaceChildren(...listTools().map(tool => {
+        const option = document.createElement('option');
+        option.value = tool.name;
+        return option;
+    }));
+    void renderAuditLog();
+    policyEditor.showModal();
+}
+
+/**
+ * Renders the draft policies as editable table rows. Edits write straight
+ * into `draftPolicies`.
+ */
+function renderPolicyRows() {
+    policyRows.replaceChildren();
+    draftPolicies.forEach((policy, index) => {
+        const row = document.createElement('tr');
+        const addCell = (...elements: HTMLElement[]) => {
+            const cell = document.createElement('td');
+            cell.append(...elements);
+            row.appendChild(cell);
+        };
+
+        const enabled = document.createElement('input');
+        enabled.type = 'checkbox';
+        enabled.checked = policy.enabled;
+        enabled.setAttribute('aria-label', 'Enabled');
+        enabled.addEventListener('change', () => { policy.enabled = enabled.checked; });
+        addCell(enabled);
+
+        for (const field of ['name', 'caller', 'tool', 'target', 'argPattern'] as const) {
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.value = policy[field];
+            input.placeholder = field === 'argPattern' ? 'any' : field === 'name' ? '' : '*';
+            input.setAttribute('aria-label', field);
+            if (field === 'tool') input.setAttribute('list', 'policy-tool-names');
+            input.addEventListener('input', () => { policy[field] = input.value; });
+            addCell(input);
+        }
+
+        const effect = document.createElement('select');
+        effect.setAttribute('aria-label', 'Effect');
+        for (const value of ['allow', 'ask', 'deny'] as PolicyEffect[]) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value;
+            effect.appendChild(option);
+        }
+        effect.value = policy.effect;
+        effect.addEventListener('change', () => { policy.effect = effect.value as PolicyEffect; });
+        addCell(effect);
+
+        const button = (label: string, title: string, action: () => void) => {
+            const element = document.createElement('button');
+            element.type = 'button';
+            element.className = 'icon-button';
+            element.textContent = label;
+            element.title = title;
+            element.setAttribute('aria-label', title);
+            element.addEventListener('click', () => {
+                action();
+                renderPolicyRows();
+            });
+            return element;
+        };
+        const move = (offset: number) => () => {
+            const [moved] = draftPolicies.splice(index, 1);
+            draftPolicies.splice(Math.max(0, Math.min(draftPolicies.length, index + offset)), 0, moved);
+        };
+        addCell(
+            button('\u2191', 'Move up', move(-1)),
+            button('\u2193', 'Move down', move(1)),
+            button('\u2715', 'Remove', () => draftPolicies.splice(index, 1)),
+        );
+        policyRows.appendChild(row);
+    });
+}
+
+function handlePolicyAdd() {
+    draftPolicies.push({ id: crypto.randomUUID(), name: 'New policy', enabled: true, caller: '*', tool: '*', target: '*', argPattern: '', effect: 'ask' });
+    renderPolicyRows();
+}
+
+function handlePolicyReset() {
+    if (!confirm('Replace the policies with the defaults? Unsaved changes are lost.')) return;
+    draftPolicies = DEFAULT_POLICIES.map(p => ({ ...p }));
+    renderPolicyRows();
+}
+
+async function handlePolicySave() {
+    for (const policy of draftPolicies) {
+        const problem = validatePolicy(policy);
+        if (problem) {
+            alert(problem);
+            return;
+        }
+    }
+    policies = draftPolicies.map(p => ({ ...p }));
+    try {
+        await db.saveSetting('policies', policies);
+        logOrchestrationEvent(`KARA: ${policies.length} security policies saved.`, 'success', { transient: true });
+        policyEditor.close();
+    } catch (error) {
+        alert(`Saving the policies failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+function handlePolicyExport() {
+    downloadFile('cua-policies.json', exportPolicies(draftPolicies), 'application/json');
+}
+
+function handlePolicyImportClick() {
+    policyImportInput.click();
+}
+
+/**
+ * Loads exported policies into the editor, replacing or following the
+ * current ones. They take effect once saved.
+ */
+async function handlePolicyImportFile() {
+    const file = policyImportInput.files?.[0];
+    policyImportInput.value = '';
+    if (!file) return;
+
+    let imported: Policy[];
+    try {
+        imported = parsePolicies(await file.text());
+    } catch (error) {
+        alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+    const replace = draftPolicies.length === 0 || confirm(
+        `Import ${imported.length} policies.\n\nOK: replace the current policies.\nCancel: add them after the current ones.`
+    );
+    const ids = new Set(draftPolicies.map(p => p.id));
+    draftPolicies = replace
+        ? imported
+        : [...draftPolicies, ...imported.map(p => ids.has(p.id) ? { ...p, id: crypto.randomUUID() } : p)];
+    renderPolicyRows();
+}
+
+async function renderAuditLog() {
+    auditLogList.replaceChildren();
+    let records: AuditRecord[];
+    try {
+        records = await db.listAuditRecords(AUDIT_LOG_DISPLAY_LIMIT);
+    } catch {
+        return;
+    }
+    if (records.length === 0) {
+        const item = document.createElement('li');
+        item.className = 'audit-empty';
+        item.textContent = 'No decisions recorded yet.';
+        auditLogList.appendChild(item);
+        return;
+    }
+    for (const record of records) {
+        const item = document.createElement('li');
+        item.className = `audit-${record.decision}`;
+        item.title = record.args;
+        const time = new Date(record.timestamp).toLocaleString();
+        const subject = record.target ? `${record.tool} \u2192 ${record.target}` : record.tool;
+        const reason = record.decidedBy === 'operator' ? 'by operator' : record.policyName ? `by policy '${record.policyName}'` : 'by default';
+        item.textContent = `[${time}] ${record.caller}: ${subject} \u2014 ${record.decision.toUpperCase()} ${reason}`;
+        auditLogList.appendChild(item);
+    }
+}
+
+async function handleAuditExport() {
+    const records = await db.listAuditRecords();
+    downloadFile(`cua-audit-log-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(records, null, 2), 'application/json');
+}
+
+// --- Usage and Budget ---
+
+/**
+ * Shows a conversation's usage and cost in the status bar, colored by the
+ * budget state.
+ * @param usage Defaults to the active conversation's saved total.
+ */
+function updateUsageStatus(usage: ModelUsage = activeConversation.usage?.total ?? {}) {
+    const status = checkBudget(budget, usage, prices);
+    const limit = budget.maxCostUsd > 0 ? ` of ${formatCost(budget.maxCostUsd)}` : '';
+    usageStatusButton.textContent = `Session: ${formatUsage(usage, prices)}${limit}`;
+    usageStatusButton.classList.toggle('budget-warning', status.state === 'warning');
+    usageStatusButton.classList.toggle('budget-exceeded', status.state === 'exceeded');
+    usageStatusButton.title = status.message ?? 'Token usage, prices and budget';
+}
+
+function openUsageDialog() {
+    draftPrices = prices.map(p => ({ ...p }));
+    budgetCostInput.value = String(budget.maxCostUsd);
+    budgetTokensInput.value = String(budget.maxTokens);
+    budgetWarnInput.value = String(budget.warnAtPercent);
+    budgetActionInput.value = budget.action;
+    contextStrategyInput.value = contextSettings.strategy;
+    contextLimitInput.value = String(contextSettings.limitPercent);
+    contextKeepInput.value = String(contextSettings.keepExchanges);
+    const contextWindow = findContextWindow(activeChat.model);
+    contextInfo.textContent = `${activeChat.model} has a context window of about ${formatTokens(contextWindow.contextTokens)} tokens. This conversation's history is about ${formatTokens(estimateHistoryTokens(activeChat.getHistory(), contextWindow))} tokens; the limit is ${formatTokens(contextLimit(contextWindow, contextSettings))}.`;
+    renderUsageRows();
+    renderPriceRows();
+    usageDialog.showModal();
+}
+
+/**
+ * Lists the active conversation's usage per model, with a total row.
+ */
+function renderUsageRows() {
+    const usage = activeConversation.usage?.total ?? {};
+    const addRow = (cells: string[], className = '') => {
+        const row = document.createElement('tr');
+        row.className = className;
+        for (const text of cells) {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+        }
+        usageRows.appendChild(row);
+    };
+
+    usageRows.replaceChildren();
+    const models = Object.keys(usage);
+    if (models.length === 0) {
+        addRow(['No tokens used yet.', '', '', '']);
+        return;
+    }
+    for (const model of models) {
+        const { cost, unpriced } = usageCost({ [model]: usage[model] }, draftPrices);
+        addRow([model, formatTokens(usage[model].inputTokens), formatTokens(usage[model].outputTokens), unpriced.length > 0 ? 'no price' : formatCost(cost)]);
+    }
+    const tokens = totalTokens(usage);
+    const { cost, unpriced } = usageCost(usage, draftPrices);
+    addRow(['Total', formatTokens(tokens.inputTokens), formatTokens(tokens.outputTokens), `${formatCost(cost)}${unpriced.length > 0 ? '+?' : ''}`], 'usage-total');
+}
+
+/**
+ * Renders the draft prices as editable table rows. Edits write straight
+ * into `draftPrices`.
+ */
+function renderPriceRows() {
+    priceRows.replaceChildren();
+    draftPrices.forEach((price, index) => {
+        const row = document.createElement('tr');
+        const addCell = (element: HTMLElement) => {
+            const cell = document.createElement('td');
+            cell.appendChild(element);
+            row.appendChild(cell);
+        };
+
+        const model = document.createElement('input');
+        model.type = 'text';
+        model.value = price.model;
+        model.setAttribute('aria-label', 'Model');
+        model.addEventListener('input', () => {
+            price.model = model.value;
+            renderUsageRows();
+        });
+        addCell(model);
+
+        for (const field of ['inputPerMillion', 'outputPerMillion'] as const) {
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.min = '0';
+            input.step = '0.01';
+            input.value = String(price[field]);
+            input.setAttribute('aria-label', field === 'inputPerMillion' ? 'Input price' : 'Output price');
+            input.addEventListener('input', () => {
+                price[field] = input.valueAsNumber;
+                renderUsageRows();
+            });
+            addCell(input);
+        }
+
+        const remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'icon-button';
+        remove.textContent = '\u2715';
+        remove.title = 'Remove';
+        remove.setAttribute('aria-label', 'Remove');
+        remove.addEventListener('click', () => {
+            draftPrices.splice(index, 1);
+            renderPriceRows();
+            renderUsageRows();
+        });
+        addCell(remove);
+        priceRows.appendChild(row);
+    });
+}
+
+function handlePriceAdd() {
+    draftPrices.push({ model: '', inputPerMillion: 0, outputPerMillion: 0 });
+    renderPriceRows();
+}
+
+function handlePriceReset() {
+    if (!confirm('Replace the prices with the defaults? Unsaved changes are lost.')) return;
+    draftPrices = DEFAULT_PRICES.map(p => ({ ...p }));
+    renderPriceRows();
+    renderUsageRows();
+}
+
+async function handleUsageSave() {
+    const draftBudget: Budget = {
+        maxCostUsd: budgetCostInput.valueAsNumber,
+        maxTokens: budgetTokensInput.valueAsNumber,
+        warnAtPercent: budgetWarnInput.valueAsNumber,
+        action: budgetActionInput.value as Budget['action'],
+    };
+    const draftContext: ContextSettings = {
+        strategy: contextStrategyInput.value as ContextSettings['strategy'],
+        limitPercent: contextLimitInput.valueAsNumber,
+        keepExchanges: contextKeepInput.valueAsNumber,
+    };
+    const problem = validateBudget(draftBudget) ?? validateContextSettings(draftContext) ?? draftPrices.map(validatePrice).find(Boolean);
+    if (problem) {
+        alert(problem);
+        return;
+    }
+    prices = draftPrices.map(p => ({ ...p, model: p.model.trim() }));
+    budget = draftBudget;
+    contextSettings = draftContext;
+    try {
+        await db.saveSetting('prices', prices);
+        await db.saveSetting('budget', budget);
+        await db.saveSetting('context', contextSettings);
+        logOrchestrationEvent('Prices, budget and context settings saved.', 'success', { transient: true });
+        updateUsageStatus();
+        usageDialog.close();
+    } catch (error) {
+        alert(`Saving the settings failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// --- Attachment Storage ---
+
+function openStorageDialog() {
+    void renderAttachmentStorage();
+    storageDialog.showModal();
+}
+
+/**
+ * Lists the stored attachments, newest first, with how much space they and
+ * the app as a whole take up.
+ */
+async function renderAttachmentStorage() {
+    storageSummary.textContent = 'Counting attachments...';
+    storageRows.replaceChildren();
+    storageCleanupButton.disabled = true;
+    try {
+        const [storage, attachments, estimate] = await Promise.all([
+            // The active chat's history may hold attachments not saved yet.
+            getAttachmentStorage(historyAttachmentIds(activeChat.getHistory())),
+            db.listAttachments(),
+            navigator.storage?.estimate(),
+        ]);
+        const orphaned = new Set(storage.orphaned.map(attachment => attachment.id));
+        const quota = estimate?.usage !== undefined && estimate.quota
+            ? ` The app uses ${formatBytes(estimate.usage)} of the ${formatBytes(estimate.quota)} the browser allows it.`
+            : '';
+        storageSummary.textContent = `${storage.count} attachment(s) take up ${formatBytes(storage.bytes)}. `
+            + `${storage.orphaned.length} of them (${formatBytes(storage.orphanedBytes)}) are no longer used by any conversation.${quota}`;
+        // A request still running may be about to save an attachment.
+        storageCleanupButton.disabled = storage.orphaned.length === 0 || activeRequest !== null;
+
+        for (const attachment of attachments.sort((a, b) => b.createdAt - a.createdAt)) {
+            const row = document.createElement('tr');
+            row.classList.toggle('storage-unused', orphaned.has(attachment.id));
+            const preview = document.createElement('td');
+            if (attachment.thumbnail) {
+                const img = document.createElement('img');
+                img.src = attachment.thumbnail;
+                img.alt = '';
+                preview.appendChild(img);
+            } else {
+                preview.textContent = '\u{1F4CE}';
+            }
+            row.appendChild(preview);
+            for (const text of [
+                attachment.mimeType,
+                formatBytes(attachment.size),
+                new Date(attachment.createdAt).toLocaleString(),
+                orphaned.has(attachment.id) ? 'Unused' : 'In use',
+            ]) {
+                const cell = document.createElement('td');
+                cell.textContent = text;
+                row.appendChild(cell);
+            }
+            storageRows.appendChild(row);
+        }
+    } catch (error) {
+        storageSummary.textContent = `Failed to read the attachment storage: ${error instanceof Error ? error.message : String(error)}`;
+    }
+}
+
+async function handleStorageCleanup() {
+    if (!confirm('Delete every attachment no conversation uses? This cannot be undone.')) return;
+    try {
+        const deleted = await deleteOrphanedAttachments(historyAttachmentIds(activeChat.getHistory()));
+        logOrchestrationEvent(`Deleted ${deleted} unused attachment(s).`, 'success', { transient: true });
+    } catch (error) {
+        alert(`Deleting the attachments failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await renderAttachmentStorage();
+}
+
+// --- Diagnostics ---
+
+/**
+ * Opens the Diagnostics window on a fresh report and probes the providers.
+ * While checks are still running, the report they fill in is kept.
+ * @param layout Where to place the window if it is not open yet.
+ */
+function openDiagnostics(layout?: WindowLayout) {
+    if (!diagnostics || pendingChecks.size === 0) {
+        diagnostics = {
+            generatedAt: Date.now(),
+            userAgent: navigator.userAgent,
+            providers: listProviders().map(providerStatus),
+            keySources: listKeySources(),
+            storage: { stores: {}, sessions: [] },
+            errors: [],
+            personas: listPersonas().map(persona => {
+                const provider = personaProvider(persona);
+                return {
+                    key: persona.key,
+                    persona: persona.name,
+                    provider: provider.id,
+                    model: personaModel(persona, provider) ?? provider.model,
+                };
+            }),
+        };
+        void handleProbeProviders();
+    }
+    renderDiagnostics();
+    void loadDiagnosticsStorage(diagnostics);
+    if (!windowManager.has(DIAGNOSTICS_WINDOW_ID)) {
+        // Closing the window takes it off the page.
+        document.body.appendChild(diagnosticsWindow);
+        windowManager.add(diagnosticsWindow, {
+            id: DIAGNOSTICS_WINDOW_ID,
+            title: 'Diagnostics',
+            titleBar: diagnosticsTitleBar,
+            controls: diagnosticsWindowControls,
+            closable: true,
+        }, layout);
+    }
+    windowManager.focus(DIAGNOSTICS_WINDOW_ID);
+}
+
+/**
+ * Fills in a result cell: the check's outcome, or that it is running. The
+ * full reply or error is shown on hover.
+ */
+function renderCheckCell(cell: HTMLTableCellElement, check: ProviderStatus | PersonaCheck, result: CheckResult | undefined) {
+    if (pendingChecks.has(check)) {
+        cell.textContent = 'Running...';
+        cell.className = 'check-pending';
+        cell.title = '';
+        return;
+    }
+    cell.textContent = describeCheck(result);
+    cell.className = result && !result.ok ? 'check-fail' : '';
+    cell.title = result?.detail ?? '';
+}
+
+function appendCells(row: HTMLTableRowElement, texts: string[]) {
+    for (const text of texts) {
+        const cell = document.createElement('td');
+        cell.textContent = text;
+        row.appendChild(cell);
+    }
+}
+
+/**
+ * Redraws the provider and persona tables. Storage and errors are drawn by
+ * `loadDiagnosticsStorage`.
+ */
+function renderDiagnostics() {
+    if (!diagnostics) return;
+    const { keySources } = diagnostics;
+
+    diagnosticsProviderRows.replaceChildren();
+    for (const status of diagnostics.providers) {
+        const row = document.createElement('tr');
+        const keys = keySources.filter(source => source.provider === status.id);
+        appendCells(row, [
+            status.label,
+            status.model,
+            keys.length > 0 ? keys.map(source => `${source.variable} ${source.configured ? '✓' : '✗'}`).join(', ') : 'None needed',
+        ]);
+        const probe = document.createElement('td');
+        renderCheckCell(probe, status, status.probe);
+        row.appendChild(probe);
+        diagnosticsProviderRows.appendChild(row);
+    }
+
+    diagnosticsPersonaRows.replaceChildren();
+    for (const check of diagnostics.personas) {
+        const row = document.createElement('tr');
+        appendCells(row, [check.persona, check.provider, check.model]);
+        const result = document.createElement('td');
+        renderCheckCell(result, check, check.result);
+        row.appendChild(result);
+        diagnosticsPersonaRows.appendChild(row);
+    }
+
+    const running = pendingChecks.size > 0;
+    diagnosticsProbeButton.disabled = running;
+    diagnosticsSelfTestButton.disabled = running;
+}
+
+/**
+ * Counts what is stored in IndexedDB and lists the recent errors of every
+ * conversation into the report, then draws them.
+ */
+async function loadDiagnosticsStorage(report: DiagnosticsReport) {
+    diagnosticsStorageSummary.textContent = 'Counting records...';
+    diagnosticsSessionRows.replaceChildren();
+    diagnosticsErrorList.replaceChildren();
+    try {
+        [report.storage, report.errors] = await Promise.all([collectStorageStats(), db.listRecentErrors(RECENT_ERROR_LIMIT)]);
+    } catch (error) {
+        diagnosticsStorageSummary.textContent = `Failed to read the database: ${error instanceof Error ? error.message : String(error)}`;
+        return;
+    }
+    if (report !== diagnostics) return;
+
+    const { storage } = report;
+    const quota = storage.usage !== undefined && storage.quota
+        ? ` The app uses ${formatBytes(storage.usage)} of the ${formatBytes(storage.quota)} the browser allows it.`
+        : '';
+    const counts = Object.entries(storage.stores).map(([store, count]) => `${store} ${count}`).join(', ');
+    diagnosticsStorageSummary.textContent = `Records per store: ${counts}.${quota}`;
+
+    for (const session of storage.sessions) {
+        const row = document.createElement('tr');
+        row.title = `${session.persona} on ${session.provider}, last updated ${new Date(session.updatedAt).toLocaleString()}`;
+        appendCells(row, [session.title, session.persona, String(session.messages), String(session.logRecords), formatBytes(session.bytes)]);
+        diagnosticsSessionRows.appendChild(row);
+    }
+
+    const titles = new Map(storage.sessions.map(session => [session.id, session.title]));
+    for (const record of report.errors) {
+        const item = document.createElement('li');
+        item.className = 'check-fail';
+        const conversation = titles.get(record.conversationId) ?? 'Deleted conversation';
+        item.textContent = `${new Date(record.timestamp).toLocaleString()} — ${conversation}: ${record.message}`;
+        item.title = record.error ?? '';
+        diagnosticsErrorList.appendChild(item);
+    }
+    if (report.errors.length === 0) {
+        const item = document.createElement('li');
+        item.textContent = 'No errors logged.';
+        diagnosticsErrorList.appendChild(item);
+    }
+}
+
+/**
+ * Sends each provider a one-shot completion, all at once, and shows how
+ * long each took to answer.
+ */
+async function handleProbeProviders() {
+    const report = diagnostics;
+    if (!report) return;
+    report.providers.filter(status => status.available).forEach(status => pendingChecks.add(status));
+    renderDiagnostics();
+    await Promise.all(report.providers.map(async status => {
+        status.probe = await probeProvider(getProvider(status.id)!);
+        pendingChecks.delete(status);
+        if (report === diagnostics) renderDiagnostics();
+    }));
+}
+
+/**
+ * Sends each persona a message on the provider and model it would answer
+ * with, one persona after another, and checks that a reply comes back.
+ */
+async function handleSelfTest() {
+    const report = diagnostics;
+    if (!report) return;
+    report.personas.forEach(check => pendingChecks.add(check));
+    renderDiagnostics();
+    for (const check of report.personas) {
+        const provider = getProvider(check.provider)!;
+        check.result = provider.available
+            ? await roundTrip(provider.createChat(generateSystemPrompt(check.key), undefined, check.model))
+            : { ok: false, latencyMs: 0, detail: 'Provider not configured.' };
+        pendingChecks.delete(check);
+        if (report === diagnostics) renderDiagnostics();
+    }
+    const passed = report.personas.filter(check => check.result?.ok).length;
+    logOrchestrationEvent(`Self-test: ${passed} of ${report.personas.length} persona(s) answered.`,
+        passed === report.personas.length ? 'success' : 'error', { transient: true });
+}
+
+async function handleCopyReport() {
+    if (!diagnostics) return;
+    try {
+        await navigator.clipboard.writeText(formatReport(diagnostics));
+        diagnosticsCopyButton.textContent = 'Copied';
+    } catch {
+        diagnosticsCopyButton.textContent = 'Copy failed';
+    }
+    setTimeout(() => { diagnosticsCopyButton.textContent = 'Copy Report'; }, 1500);
+}
+
+// --- Slash Commands ---
+
+function showCommandOutput(text: string) {
+  appendMessage('SYSTEM>', 'system-message').textContent = text;
+}
+
+function showCommandError(message: string) {
+  appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Error: ${message}`;
+}
+
+function personaCompletions(): Completion[] {
+  return listPersonas().map(persona => ({ value: persona.name, label: persona.name, detail: persona.role }));
+}
+
+function providerCompletions(): Completion[] {
+  return listProviders()
+    .filter(provider => provider.available)
+    .map(provider => ({ value: provider.id, label: provider.label, detail: provider.model }));
+}
+
+const EXPORT_FORMAT_COMPLETIONS: Completion[] = [
+  { value: 'json', label: 'json', detail: 'Lossless, with every branch; can be imported' },
+  { value: 'markdown', label: 'markdown', detail: 'Readable transcript' },
+  { value: 'html', label: 'html', detail: 'Self-contained page' },
+];
+
+registerCommand({
+  name: 'help',
+  aliases: ['?'],
+  usage: '[command]',
+  description: 'Lists the commands, or describes one.',
+  complete: argument => completeFrom(listCommands().map(command => ({ value: command.name, label: commandSignature(command), detail: command.description })), argument),
+  run: args => {
+    if (args) {
+      const command = getCommand(args.replace(/^\//, ''));
+      if (!command) throw new Error(`Unknown command: /${args.replace(/^\//, '')}. Type /help for a list of commands.`);
+      const aliases = command.aliases?.length ? `\nAliases: ${command.aliases.map(alias => `/${alias}`).join(', ')}` : '';
+      showCommandOutput(`${commandSignature(command)}\n${command.description}${aliases}`);
+      return;
+    }
+    const commands = listCommands();
+    const width = Math.max(...commands.map(command => commandSignature(command).length));
+    showCommandOutput([
+      'Commands:',
+      ...commands.map(command => `  ${commandSignature(command).padEnd(width)}  ${command.description}`),
+      '',
+      'Start a message with @Name to send it to another agent, e.g. "@Kara review this plan".',
+      'Tab completes commands, arguments and agent names. The up and down arrows recall earlier inputs.',
+    ].join('\n'));
+  },
+});
 
-  chatInput.value = '';
-  chatInput.disabled = true;
-  submitButton.disabled = true;
-  uploadButton.disabled = true;
-  
-  const selectedProvider = modelSelector.value as 'gemini' | 'openai';
-  const selectedPersonaKey = personaSelector.value as PersonaKey;
-  const selectedPersonaName = PERSONAS[selectedPersonaKey].name;
-  const sessionKey = `${selectedProvider}-${selectedPersonaKey}`;
-  const prefix = `${selectedPersonaKey.toUpperCase()}>`;
+registerCommand({
+  name: 'clear',
+  description: "Clears the conversation's history and log.",
+  run: handleClearHistory,
+});
 
-  logOrchestrationEvent(`User command received: "${userInput}"`, 'user');
+registerCommand({
+  name: 'new',
+  description: 'Starts a new conversation with the current persona.',
+  run: handleNewConversation,
+});
 
-  // Display user message
-  const userMessageWrapper = appendMessage('USER>', 'user-message');
-  if (stagedFile) {
-    const img = document.createElement('img');
-    img.src = URL.createObjectURL(stagedFile);
-    img.alt = stagedFile.name;
-    img.onload = () => URL.revokeObjectURL(img.src);
-    userMessageWrapper.appendChild(img);
-  }
-  if (userInput) {
-    const textSpan = document.createElement('span');
-    textSpan.textContent = userInput;
-    userMessageWrapper.appendChild(textSpan);
-  }
+registerCommand({
+  name: 'rename',
+  usage: '<title>',
+  description: 'Renames the conversation.',
+  run: async title => {
+    if (!title) throw new Error('Usage: /rename <title>');
+    await renameConversation(title);
+  },
+});
 
-  const thinkingMessageWrapper = appendMessage(prefix, '');
-  thinkingMessageWrapper.parentElement!.classList.add('thinking');
+registerCommand({
+  name: 'persona',
+  usage: '<name>',
+  description: "Switches to a persona and opens its latest conversation.",
+  complete: argument => completeFrom(personaCompletions(), argument),
+  run: async name => {
+    if (!name) throw new Error('Usage: /persona <name>');
+    const persona = listPersonas().find(p => p.name.toLowerCase() === name.toLowerCase() || p.key.toLowerCase() === name.toLowerCase());
+    if (!persona) throw new Error(`Unknown persona: ${name}. Known personas: ${listPersonas().map(p => p.name).join(', ')}.`);
+    personaSelector.value = persona.key;
+    await handleSessionSwitch();
+  },
+});
 
-  const fileToProcess = stagedFile;
-  clearStagedFile();
-  
-  logOrchestrationEvent(`Task routed to [${selectedPersonaName}]. Processing...`, 'info');
+registerCommand({
+  name: 'provider',
+  usage: '<name>',
+  description: 'Continues the conversation on another provider.',
+  complete: argument => completeFrom(providerCompletions(), argument),
+  run: async name => {
+    if (!name) throw new Error('Usage: /provider <name>');
+    const provider = listProviders().find(p => p.id.toLowerCase() === name.toLowerCase() || p.label.toLowerCase() === name.toLowerCase());
+    if (!provider) throw new Error(`Unknown provider: ${name}. Known providers: ${listProviders().map(p => p.id).join(', ')}.`);
+    if (!provider.available) throw new Error(`${provider.label} is not configured.`);
+    if (provider.id === modelSelector.value) {
+      showCommandOutput(`Already using ${provider.label}.`);
+      return;
+    }
+    modelSelector.value = provider.id;
+    await handleProviderSwitch();
+  },
+});
 
-  try {
-    const base64File = fileToProcess ? await fileToBase64(fileToProcess) : null;
+registerCommand({
+  name: 'export',
+  usage: '[json|markdown|html] [all]',
+  description: 'Downloads the conversation, or all of them, as JSON (the default), Markdown or HTML.',
+  complete: argument => {
+    const [format, ...rest] = argument.split(/\s+/);
+    if (rest.length === 0) return completeFrom(EXPORT_FORMAT_COMPLETIONS, format);
+    return completeFrom([{ value: 'all', label: 'all', detail: 'Every saved conversation' }], rest.join(' '))
+      .map(option => ({ ...option, value: `${format} ${option.value}` }));
+  },
+  run: async args => {
+    const words = args.toLowerCase().split(/\s+/).filter(Boolean);
+    const scope = words.includes('all') ? 'all' : 'current';
+    const formats = words.filter(word => word !== 'all');
+    const format = formats[0] === 'md' ? 'markdown' : formats[0] ?? 'json';
+    if (formats.length > 1 || !EXPORT_FORMAT_COMPLETIONS.some(option => option.value === format)) {
+      throw new Error('Usage: /export [json|markdown|html] [all]');
+    }
+    exportSelector.value = `${scope}:${format}`;
+    await handleExport();
+  },
+});
 
-    let fullResponse = '';
+registerCommand({
+  name: 'import',
+  description: 'Imports conversations from a JSON file.',
+  run: handleImportClick,
+});
 
-    if (selectedProvider === 'gemini' && ai) {
-        if (!geminiChat) throw new Error("Gemini chat not initialized.");
+registerCommand({
+  name: 'search',
+  usage: '[query]',
+  description: 'Searches the history of every conversation.',
+  run: query => {
+    toggleSearchPanel(true);
+    if (query) {
+      searchInput.value = query;
+      void runSearch(query);
+    }
+  },
+});
 
-        const tools = getTools(selectedPersonaKey).gemini;
+registerCommand({
+  name: 'regenerate',
+  description: 'Asks for a new response to the latest message.',
+  run: handleRegenerate,
+});
 
-        // Initial message parts
-        const contentRequest: (string | Part)[] = [];
-        if (userInput) contentRequest.push(userInput);
-        if (base64File) contentRequest.push({ inlineData: { mimeType: base64File.mimeType, data: base64File.data } });
+registerCommand({
+  name: 'usage',
+  description: 'Shows token usage and edits prices, the budget and context settings.',
+  run: openUsageDialog,
+});
 
-        // === Gemini Tool Call Loop ===
-        let continueConversation = true;
-        let messageToSend: { message: (string | Part)[] } = { message: contentRequest };
+registerCommand({
+  name: 'policies',
+  aliases: ['security'],
+  description: "Edits Kara's approval policies and shows the audit log.",
+  run: openPolicyEditor,
+});
 
-        while (continueConversation) {
-            const stream = await geminiChat.sendMessageStream({
-              ...messageToSend,
-              ...(tools && { tools }),
-            });
-            
-            let aggregatedText = '';
-            let functionCalls: any[] = [];
-
-            for await (const chunk of stream) {
-                const text = chunk.text;
-                if (text) {
-                    aggregatedText += text;
-                    thinkingMessageWrapper.textContent = aggregatedText;
-                    chatContainer.scrollTop = chatContainer.scrollHeight;
-                }
-                if (chunk.functionCalls) {
-                    functionCalls = [...functionCalls, ...chunk.functionCalls];
-                }
-            }
-            
-            fullResponse = aggregatedText;
-
-            if (functionCalls.length > 0) {
-                const call = functionCalls[0];
-                const { agentName, prompt } = call.args;
-                
-                logOrchestrationEvent(`[${selectedPersonaName}] is invoking [${agentName}] for task: "${prompt.substring(0, 50)}..."`, 'invoke');
-                thinkingMessageWrapper.textContent = `${aggregatedText}\n\n[Consulting with ${agentName}...]`;
-
-                const toolResult = await executeInvokeAgent(agentName, prompt);
-                
-                const toolResponsePart: Part = {
-                    functionResponse: { name: call.name, response: { content: toolResult } }
-                };
-                
-                logOrchestrationEvent(`[${selectedPersonaName}] received response from [${agentName}]. Continuing main task...`, 'info');
-                messageToSend = { message: [toolResponsePart] };
-            } else {
-                continueConversation = false;
-            }
-        }
-        // === End Loop ===
-
-    } else if (selectedProvider === 'openai' && openai) {
-        if (!openai || !openAIMessages) throw new Error("OpenAI chat not initialized.");
-
-        const tools = getTools(selectedPersonaKey).openai;
-        
-        // Initial message
-        const userMessage: OpenAIMessage = { role: 'user', content: [] };
-        const contentParts: any[] = [];
-        if (userInput) contentParts.push({ type: 'text', text: userInput });
-        if (base64File) contentParts.push({ type: 'image_url', image_url: { url: `data:${base64File.mimeType};base64,${base64File.data}` } });
-        userMessage.content = contentParts.length === 1 && contentParts[0].type === 'text' ? contentParts[0].text : contentParts;
-        openAIMessages.push(userMessage);
-
-        // === OpenAI Tool Call Loop ===
-        let continueConversation = true;
-        while(continueConversation) {
-            const stream = await openai.chat.completions.create({
-                model: 'gpt-4o-mini',
-                messages: openAIMessages,
-                stream: true,
-                tools: tools,
-                tool_choice: tools ? 'auto' : undefined,
-            });
-            
-            let aggregatedText = '';
-            let toolCalls: any[] = [];
-            
-            for await (const chunk of stream) {
-                aggregatedText += chunk.choices[0]?.delta?.content || '';
-                if (chunk.choices[0]?.delta?.tool_calls) {
-                    chunk.choices[0].delta.tool_calls.forEach(tc => {
-                        if (tc.index === toolCalls.length) { // New tool call
-                           toolCalls.push({ id: tc.id, type: 'function', function: { name: tc.function?.name, arguments: '' } });
-                        }
-                        if (tc.function?.arguments) {
-                            toolCalls[tc.index].function.arguments += tc.function.arguments;
-                        }
-                    });
-                }
-                thinkingMessageWrapper.textContent = aggregatedText;
-                chatContainer.scrollTop = chatContainer.scrollHeight;
-            }
-            fullResponse = aggregatedText;
-            
-            if (toolCalls.length > 0) {
-                openAIMessages.push({ role: 'assistant', content: null, tool_calls: toolCalls });
+registerCommand({
+  name: 'personas',
+  description: 'Opens the Persona Editor.',
+  run: openPersonaEditor,
+});
 
-                const call = toolCalls[0];
-                const args = JSON.parse(call.function.arguments);
-                
-                logOrchestrationEvent(`[${selectedPersonaName}] is invoking [${args.agentName}] for task: "${args.prompt.substring(0, 50)}..."`, 'invoke');
-                thinkingMessageWrapper.textContent = `${aggregatedText}\n\n[Consulting with ${args.agentName}...]`;
+registerCommand({
+  name: 'storage',
+  description: 'Shows how much space attachments take up.',
+  run: openStorageDialog,
+});
 
-                const toolResult = await executeInvokeAgent(args.agentName, args.prompt);
+registerCommand({
+  name: 'diagnostics',
+  description: 'Opens the Diagnostics window.',
+  run: () => openDiagnostics(),
+});
 
-                logOrchestrationEvent(`[${selectedPersonaName}] received response from [${args.agentName}]. Continuing main task...`, 'info');
-                openAIMessages.push({ role: 'tool', tool_call_id: call.id, content: toolResult });
+registerCommand({
+  name: 'window',
+  usage: '[persona]',
+  description: 'Opens a chat window for a persona, the selected one by default.',
+  complete: argument => completeFrom(personaCompletions(), argument),
+  run: async name => {
+    const persona = name
+      ? listPersonas().find(p => p.name.toLowerCase() === name.toLowerCase() || p.key.toLowerCase() === name.toLowerCase())
+      : personaOf(personaSelector.value);
+    if (!persona) throw new Error(`Unknown persona: ${name}. Known personas: ${listPersonas().map(p => p.name).join(', ')}.`);
+    await openChatWindow({ persona: persona.key });
+  },
+});
 
-            } else {
-                openAIMessages.push({ role: 'assistant', content: fullResponse });
-                continueConversation = false;
-            }
-        }
-         // === End Loop ===
-    }
+registerCommand({
+  name: 'cascade',
+  description: 'Stacks the open windows, each offset from the last.',
+  run: () => windowManager.cascade(),
+});
 
-    thinkingMessageWrapper.parentElement!.classList.remove('thinking');
-    thinkingMessageWrapper.textContent = fullResponse; // Final update
-    logOrchestrationEvent(`[${selectedPersonaName}] generated final response. Task complete.`, 'complete');
+registerCommand({
+  name: 'tile',
+  description: 'Arranges the open windows side by side.',
+  run: () => windowManager.tile(),
+});
 
-    // Save history after the entire exchange is complete
-    const currentHistory = selectedProvider === 'gemini' 
-      ? await geminiChat.getHistory() 
-      : openAIMessages;
-    await db.saveHistory(sessionKey, currentHistory as ChatHistory);
+registerCommand({
+  name: 'workflow',
+  usage: '[on|off]',
+  description: 'Turns workflow mode on or off: Lyra or Dude plans each task, you review the plan, then the team carries it out.',
+  complete: argument => completeFrom([
+    { value: 'on', label: 'on', detail: 'Plan and run each task as a workflow' },
+    { value: 'off', label: 'off', detail: 'Send messages as usual' },
+  ], argument),
+  run: args => {
+    const setting = args.toLowerCase();
+    if (setting && setting !== 'on' && setting !== 'off') throw new Error('Usage: /workflow [on|off]');
+    setWorkflowMode(setting ? setting === 'on' : !workflowMode);
+    showCommandOutput(workflowMode
+      ? `Workflow mode is on. Describe a task and ${personaOf(personaSelector.value).name} will draft a plan for you to review.`
+      : 'Workflow mode is off.');
+  },
+});
 
+/**
+ * Runs a slash command typed into the chat input. The command is echoed
+ * like a terminal, and a failure is shown as an error.
+ */
+async function executeCommand(input: string) {
+  appendMessage('USER>', 'user-message').textContent = input;
+  try {
+    await runCommand(input);
   } catch (error) {
-    console.error(error);
-    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-    logOrchestrationEvent(`SYSTEM ERROR: ${errorMessage}`, 'error');
-    thinkingMessageWrapper.parentElement?.remove();
-    appendMessage('SYSTEM_ERROR>', 'error-message').textContent = `Error: ${errorMessage}`;
-  } finally {
-    chatInput.disabled = false;
-    submitButton.disabled = false;
-    uploadButton.disabled = false;
-    chatInput.focus();
+    showCommandError(error instanceof Error ? error.message : String(error));
   }
 }
 
-
 /**
- * Handles the click event for the "Clear History" button.
+ * Adds a sent input to the recall history and saves it.
  */
-async function handleClearHistory() {
-  const selectedProvider = modelSelector.value as 'gemini' | 'openai';
-  const selectedPersona = personaSelector.value as PersonaKey;
-  const sessionKey = `${selectedProvider}-${selectedPersona}`;
-
-  const providerName = modelSelector.options[modelSelector.selectedIndex].text;
-  const personaName = personaSelector.options[personaSelector.selectedIndex].text;
-
-  if (confirm(`Are you sure you want to clear the chat history for ${personaName} on ${providerName}?`)) {
-      await db.clearHistory(sessionKey);
-      await handleSessionSwitch(); // This will refresh the UI to a clean state
-      logOrchestrationEvent('Chat history and logs cleared by user.', 'info');
-  }
+function rememberInput(input: string) {
+  if (!input) return;
+  inputHistory.add(input);
+  db.saveSetting('inputHistory', inputHistory.list()).catch(error => console.error('Failed to save the input history:', error));
 }
 
 /**
- * Toggles the window between maximized and restored states.
+ * Shows the suggestions for the chat input, or hides the popup if there
+ * are none.
  */
-function handleToggleMaximize() {
-  if (!cuaWindow || !toggleMaximizeButton) return;
-
-  cuaWindow.classList.toggle('maximized');
-  const isMaximized = cuaWindow.classList.contains('maximized');
+function updateAutocomplete() {
+  const agents = listPersonas().map(persona => ({ value: persona.name, label: `@${persona.name}`, detail: persona.role }));
+  completion = completeInput(chatInput.value, agents);
+  completionIndex = 0;
+  completionChosen = false;
+  renderAutocomplete();
+}
 
-  if (isMaximized) {
-    // Save last position before maximizing
-    lastPosition.top = cuaWindow.style.top;
-    lastPosition.left = cuaWindow.style.left;
-    // Reset styles for fixed maximized view
-    cuaWindow.style.top = '';
-    cuaWindow.style.left = '';
-    
-    toggleMaximizeButton.innerHTML = '&#x2929;'; // Unicode for restore symbol ⧉
-    toggleMaximizeButton.setAttribute('aria-label', 'Restore Window');
-  } else {
-    // Restore to last position
-    cuaWindow.style.top = lastPosition.top;
-    cuaWindow.style.left = lastPosition.left;
+function hideAutocomplete() {
+  completion = null;
+  renderAutocomplete();
+}
 
-    toggleMaximizeButton.innerHTML = '&#x25A1;'; // Unicode for square □
-    toggleMaximizeButton.setAttribute('aria-label', 'Maximize Window');
+function renderAutocomplete() {
+  autocompleteList.replaceChildren();
+  autocompleteList.hidden = !completion;
+  chatInput.setAttribute('aria-expanded', String(!!completion));
+  if (!completion) {
+    chatInput.removeAttribute('aria-activedescendant');
+    return;
   }
+  completion.items.forEach((item, index) => {
+    const option = document.createElement('li');
+    option.id = `autocomplete-option-${index}`;
+    option.setAttribute('role', 'option');
+    option.setAttribute('aria-selected', String(index === completionIndex));
+    const label = document.createElement('span');
+    label.className = 'autocomplete-label';
+    label.textContent = item.label;
+    option.appendChild(label);
+    if (item.detail) {
+      const detail = document.createElement('span');
+      detail.className = 'autocomplete-detail';
+      detail.textContent = item.detail;
+      option.appendChild(detail);
+    }
+    // Picked on mousedown so the input keeps its focus.
+    option.addEventListener('mousedown', event => {
+      event.preventDefault();
+      acceptCompletion(index);
+    });
+    autocompleteList.appendChild(option);
+  });
+  chatInput.setAttribute('aria-activedescendant', `autocomplete-option-${completionIndex}`);
+  autocompleteList.children[completionIndex]?.scrollIntoView({ block: 'nearest' });
 }
 
 /**
- * Populates the persona selector dropdown and landing page cards.
+ * Puts a suggestion into the chat input, then offers what can follow it,
+ * e.g. the personas after `/persona `.
  */
-function populatePersonas() {
-    personasGrid.innerHTML = '';
-    for (const key in PERSONAS) {
-        const persona = PERSONAS[key as PersonaKey];
-        // Populate dropdown
-        const option = document.createElement('option');
-        option.value = key;
-        option.textContent = persona.name;
-        personaSelector.appendChild(option);
+function acceptCompletion(index: number) {
+  if (!completion) return;
+  chatInput.value = chatInput.value.slice(0, completion.start) + completion.items[index].value;
+  chatInput.setSelectionRange(chatInput.value.length, chatInput.value.length);
+  updateAutocomplete();
+}
 
-        // Populate landing page grid
-        const card = document.createElement('div');
-        card.className = 'persona-card';
-        card.innerHTML = `
-            <h3>${persona.name}</h3>
-            <p class="role">${persona.role}</p>
-            <p>${persona.summary}</p>
-        `;
-        personasGrid.appendChild(card);
+/**
+ * Handles the keys of the chat input: while the autocomplete popup is open,
+ * the arrows move the highlight, Tab (or Enter after moving) picks it and
+ * Escape closes the popup. Otherwise the arrows recall earlier inputs.
+ */
+function handleChatInputKeyDown(event: KeyboardEvent) {
+  if (completion) {
+    const count = completion.items.length;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        event.preventDefault();
+        completionIndex = (completionIndex + (event.key === 'ArrowDown' ? 1 : count - 1)) % count;
+        completionChosen = true;
+        renderAutocomplete();
+        return;
+      case 'Tab':
+        event.preventDefault();
+        acceptCompletion(completionIndex);
+        return;
+      case 'Enter':
+        // Otherwise Enter sends the input as typed.
+        if (!completionChosen) return;
+        event.preventDefault();
+        acceptCompletion(completionIndex);
+        return;
+      case 'Escape':
+        event.preventDefault();
+        event.stopPropagation();
+        hideAutocomplete();
+        return;
     }
+  }
+  if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+    const recalled = event.key === 'ArrowUp' ? inputHistory.previous(chatInput.value) : inputHistory.next();
+    if (recalled === null) return;
+    event.preventDefault();
+    chatInput.value = recalled;
+    chatInput.setSelectionRange(recalled.length, recalled.length);
+  }
 }
 
 // --- File Handling Functions ---
 
-function fileToBase64(file: File): Promise<{ mimeType: string; data: string }> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      const [header, data] = result.split(',', 2);
-      if (!header || !data) {
-        return reject(new Error('Invalid file format.'));
-      }
-      const mimeType = header.split(':')[1].split(';')[0];
-      resolve({ mimeType, data });
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
+/**
+ * Stages files for the next message. Files that cannot be attached are
+ * reported and left out.
+ */
+function stageFiles(files: Iterable<File>) {
+  for (const file of files) {
+    const problem = attachmentProblem(file)
+      ?? (stagedFiles.length >= MAX_ATTACHMENTS ? `At most ${MAX_ATTACHMENTS} files can be attached to a message; ${file.name} was left out.` : null);
+    if (problem) {
+      appendMessage('SYSTEM_ERROR>', 'error-message').textContent = problem;
+      continue;
+    }
+    stagedFiles.push(file);
+  }
+  displayStagedFiles();
 }
 
-function displayStagedFile() {
+/**
+ * Shows a pill for each staged file, with a preview for images.
+ */
+function displayStagedFiles() {
+  stagedPreviewUrls.forEach(url => URL.revokeObjectURL(url));
+  stagedPreviewUrls = [];
   stagedFileContainer.innerHTML = '';
-  if (stagedFile) {
+  stagedFiles.forEach((file, index) => {
     const pill = document.createElement('div');
     pill.className = 'staged-file-pill';
-    
+
+    if (file.type.startsWith('image/')) {
+      const preview = document.createElement('img');
+      preview.src = URL.createObjectURL(file);
+      preview.alt = '';
+      stagedPreviewUrls.push(preview.src);
+      pill.appendChild(preview);
+    }
+
     const nameSpan = document.createElement('span');
-    nameSpan.textContent = stagedFile.name;
-    nameSpan.title = stagedFile.name;
-    
+    nameSpan.textContent = file.name;
+    nameSpan.title = `${file.name} (${Math.ceil(file.size / 1024)} KB)`;
+
     const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
     removeBtn.textContent = '×';
-    removeBtn.setAttribute('aria-label', `Remove ${stagedFile.name}`);
-    removeBtn.onclick = clearStagedFile;
-    
+    removeBtn.setAttribute('aria-label', `Remove ${file.name}`);
+    removeBtn.onclick = () => {
+      stagedFiles.splice(index, 1);
+      displayStagedFiles();
+    };
+
     pill.appendChild(nameSpan);
     pill.appendChild(removeBtn);
     stagedFileContainer.appendChild(pill);
-  }
+  });
 }
 
-function clearStagedFile() {
-  stagedFile = null;
+function clearStagedFiles() {
+  stagedFiles = [];
   fileInput.value = '';
-  displayStagedFile();
+  displayStagedFiles();
 }
 
 function handleFileSelect(event: Event) {
   const input = event.target as HTMLInputElement;
   if (input.files && input.files.length > 0) {
-    stagedFile = input.files[0];
-    displayStagedFile();
+    stageFiles(input.files);
   }
+  // Let the same file be picked again after it is removed.
+  input.value = '';
 }
 
 function handleUploadClick() {
   fileInput.click();
 }
 
-// --- Draggable Window, Resizer, and Boot Sequence ---
+/**
+ * Handles files dragged over the chat window, accepting the drop.
+ */
+function handleFileDragOver(event: DragEvent) {
+  if (!event.dataTransfer?.types.includes('Files')) return;
+  event.preventDefault();
+  event.dataTransfer.dropEffect = 'copy';
+  cuaWindow.classList.add('drag-over');
+}
+
+function handleFileDragLeave(event: DragEvent) {
+  if (!cuaWindow.contains(event.relatedTarget as Node | null)) {
+    cuaWindow.classList.remove('drag-over');
+  }
+}
+
+/**
+ * Handles files dropped onto the chat window by staging them.
+ */
+function handleFileDrop(event: DragEvent) {
+  if (!event.dataTransfer?.types.includes('Files')) return;
+  event.preventDefault();
+  cuaWindow.classList.remove('drag-over');
+  stageFiles(event.dataTransfer.files);
+}
 
-function onDrag(e: MouseEvent) {
-  if (!isDragging) return;
-  e.preventDefault();
-  let newLeft = e.clientX - dragOffsetX;
-  let newTop = e.clientY - dragOffsetY;
+/**
+ * Handles pasting into the input. Pasted files, such as screenshots, are
+ * staged; pasted text is left to the input.
+ */
+function handleInputPaste(event: ClipboardEvent) {
+  const files = event.clipboardData?.files;
+  if (!files || files.length === 0) return;
+  event.preventDefault();
+  stageFiles(files);
+}
 
-  const maxWidth = window.innerWidth - cuaWindow.offsetWidth;
-  const maxHeight = window.innerHeight - cuaWindow.offsetHeight;
+// --- Desktop and Windows ---
 
-  newLeft = Math.max(0, Math.min(newLeft, maxWidth));
-  newTop = Math.max(0, Math.min(newTop, maxHeight));
+const MAIN_WINDOW_ID = 'main';
+const DIAGNOSTICS_WINDOW_ID = 'diagnostics';
+// How long the layout has to stay unchanged before it is saved.
+const LAYOUT_SAVE_DELAY_MS = 500;
 
-  cuaWindow.style.left = `${newLeft}px`;
-  cuaWindow.style.top = `${newTop}px`;
+// The open windows and what each chat window is bound to, as saved for the
+// next launch.
+interface DesktopLayout {
+  // Back to front.
+  windows: WindowLayout[];
+  chats: ChatWindowSession[];
 }
 
-function onDragEnd() {
-  isDragging = false;
-  titleBar.style.cursor = 'grab';
-  document.body.style.userSelect = '';
-  document.removeEventListener('mousemove', onDrag);
+const windowManager = new WindowManager(taskbar, taskbarWindows, scheduleLayoutSave);
+
+/**
+ * Saves the layout once it stops changing, e.g. at the end of a drag.
+ * Nothing is saved until the last launch's layout is restored.
+ */
+function scheduleLayoutSave() {
+  if (!desktopRestored) return;
+  clearTimeout(layoutDebounce);
+  layoutDebounce = window.setTimeout(() => {
+    const layout: DesktopLayout = { windows: windowManager.layout(), chats: Array.from(chatWindows.values(), chatWindowSession) };
+    db.saveSetting('desktopLayout', layout).catch(error => console.error('Failed to save the window layout:', error));
+  }, LAYOUT_SAVE_DELAY_MS);
 }
 
-function makeDraggable() {
-  titleBar.addEventListener('mousedown', (e) => {
-    // Only allow dragging if the target is the title bar itself, not a control
-    if ((e.target as HTMLElement).closest('#window-controls')) {
-        return;
-    }
-    if (cuaWindow.classList.contains('maximized')) {
-        return;
+/**
+ * Puts the main window under the window manager and reopens the windows of
+ * the last launch in their places and stacking order.
+ */
+async function restoreDesktop() {
+  const layouts = savedLayout?.windows ?? [];
+  const layoutOf = (id: string) => layouts.find(layout => layout.id === id);
+  windowManager.add(cuaWindow, {
+    id: MAIN_WINDOW_ID,
+    title: 'CUA System Interface',
+    titleBar,
+    controls: windowControls,
+  }, layoutOf(MAIN_WINDOW_ID));
+  if (listProviders().some(p => p.available)) {
+    for (const session of savedLayout?.chats ?? []) {
+      try {
+        await openChatWindow(session, layoutOf(session.id));
+      } catch (error) {
+        console.error('Failed to restore a chat window:', error);
+      }
     }
-    isDragging = true;
-    
-    const rect = cuaWindow.getBoundingClientRect();
-    cuaWindow.style.transform = 'none';
-    cuaWindow.style.left = `${rect.left}px`;
-    cuaWindow.style.top = `${rect.top}px`;
+  }
+  const diagnosticsLayout = layoutOf(DIAGNOSTICS_WINDOW_ID);
+  if (diagnosticsLayout) openDiagnostics(diagnosticsLayout);
+  for (const layout of layouts) {
+    if (!layout.minimized) windowManager.focus(layout.id);
+  }
+  desktopRestored = true;
+}
+
+/**
+ * Opens a desktop icon with Enter or Space, as a click does.
+ */
+function handleDesktopIconKeyDown(event: KeyboardEvent) {
+  if (event.key !== 'Enter' && event.key !== ' ') return;
+  event.preventDefault();
+  (event.currentTarget as HTMLElement).click();
+}
+
+// --- Chat Windows ---
+
+// A chat window next to the main one, with its own persona, provider and
+// conversation. It has no attachments, slash commands or branches.
+interface ChatWindow {
+  id: string;
+  element: HTMLDivElement;
+  title: HTMLSpanElement;
+  container: HTMLDivElement;
+  input: HTMLInputElement;
+  sendButton: HTMLButtonElement;
+  stopButton: HTMLButtonElement;
+  newButton: HTMLButtonElement;
+  personaSelect: HTMLSelectElement;
+  providerSelect: HTMLSelectElement;
+  chat: ProviderChat;
+  conversation: Conversation;
+  // The running request, if any.
+  request: AbortController | null;
+}
+
+// What a chat window is bound to, as saved with the layout.
+interface ChatWindowSession {
+  id: string;
+  persona: PersonaKey;
+  provider: string;
+  conversationId: string;
+}
+
+// Where the first chat window opens; each further one is offset from it.
+const CHAT_WINDOW_BOUNDS = { left: 80, top: 40, width: 560, height: 640 };
+const CHAT_WINDOW_OFFSET = 30;
+
+const chatWindows = new Map<string, ChatWindow>();
+
+function chatWindowSession(win: ChatWindow): ChatWindowSession {
+  return { id: win.id, persona: win.conversation.persona, provider: win.conversation.provider, conversationId: win.conversation.id };
+}
+
+/**
+ * Returns the chat window a conversation is open in, if any.
+ */
+function chatWindowOf(conversationId: string): ChatWindow | undefined {
+  return Array.from(chatWindows.values()).find(win => win.conversation.id === conversationId);
+}
+
+/**
+ * Picks the conversation a chat window opens: the given one if it is saved
+ * and not open in another window, otherwise the persona's most recent
+ * conversation on the provider that is not open anywhere, otherwise a new one.
+ */
+async function chatWindowConversation(persona: PersonaKey, provider: ChatProvider, conversationId?: string): Promise<Conversation> {
+  const isOpen = (id: string) => id === activeConversation?.id || chatWindowOf(id) !== undefined;
+  const saved = conversationId ? await db.getConversation(conversationId) : undefined;
+  if (saved && !isOpen(saved.id)) {
+    await moveConversation(saved, provider);
+    return saved;
+  }
+  const conversations = await db.listConversations(persona, provider.id);
+  return conversations.find(c => !isOpen(c.id)) ?? createDraftConversation(persona, provider.id);
+}
+
+/**
+ * Creates the chat a conversation continues in, on its own provider.
+ */
+function conversationChat(conversation: Conversation): ProviderChat {
+  const provider = getProvider(conversation.provider)!;
+  const persona = personaOf(conversation.persona);
+  const history = conversation.history.some(m => m.role === 'user') ? conversation.history : undefined;
+  return provider.createChat(generateSystemPrompt(persona.key), history, personaModel(persona, provider));
+}
+
+/**
+ * Opens a chat window on the desktop.
+ * @param session What to open; by default the selected persona's most
+ * recent conversation that is not open elsewhere, on its default provider.
+ * @param layout Where to place the window; by default offset from the
+ * other chat windows.
+ */
+async function openChatWindow(session: Partial<ChatWindowSession> = {}, layout?: WindowLayout): Promise<ChatWindow> {
+  const persona = personaOf(session.persona ?? personaSelector.value);
+  const savedProvider = getProvider(session.provider ?? '');
+  const provider = savedProvider?.available ? savedProvider : personaProvider(persona);
+  const conversation = await chatWindowConversation(persona.key, provider, session.conversationId);
 
-    dragOffsetX = e.clientX - rect.left;
-    dragOffsetY = e.clientY - rect.top;
+  const element = chatWindowTemplate.content.firstElementChild!.cloneNode(true) as HTMLDivElement;
+  const part = <T extends HTMLElement>(selector: string) => element.querySelector(selector) as T;
+  const win: ChatWindow = {
+    id: session.id ?? crypto.randomUUID(),
+    element,
+    title: part('.window-title'),
+    container: part('.chat-container'),
+    input: part('.chat-window-input'),
+    sendButton: part('.chat-window-send'),
+    stopButton: part('.chat-window-stop'),
+    newButton: part('.chat-window-new'),
+    personaSelect: part('.chat-window-persona'),
+    providerSelect: part('.chat-window-provider'),
+    chat: conversationChat(conversation),
+    conversation,
+    request: null,
+  };
+  chatWindows.set(win.id, win);
+  renderChatWindow(win);
 
-    titleBar.style.cursor = 'grabbing';
-    document.body.style.userSelect = 'none';
+  part('.chat-window-form').addEventListener('submit', event => handleChatWindowSubmit(win, event));
+  win.stopButton.addEventListener('click', () => win.request?.abort());
+  win.newButton.addEventListener('click', () => loadChatWindowConversation(win, createDraftConversation(win.conversation.persona, win.conversation.provider)));
+  win.personaSelect.addEventListener('change', () => handleChatWindowPersonaSwitch(win));
+  win.providerSelect.addEventListener('change', () => handleChatWindowProviderSwitch(win));
 
-    document.addEventListener('mousemove', onDrag);
-    document.addEventListener('mouseup', onDragEnd, { once: true });
+  const offset = CHAT_WINDOW_OFFSET * (chatWindows.size - 1);
+  document.body.appendChild(element);
+  windowManager.add(element, {
+    id: win.id,
+    title: win.title.textContent!,
+    titleBar: part('.window-title-bar'),
+    controls: part('.window-controls'),
+    closable: true,
+    onClose: () => {
+      win.request?.abort();
+      chatWindows.delete(win.id);
+    },
+  }, layout ?? {
+    id: win.id,
+    ...CHAT_WINDOW_BOUNDS,
+    left: CHAT_WINDOW_BOUNDS.left + offset,
+    top: CHAT_WINDOW_BOUNDS.top + offset,
+    minimized: false,
+    maximized: false,
   });
+  win.input.focus();
+  return win;
+}
+
+/**
+ * Fills a chat window's persona and provider selectors and selects those
+ * of its conversation.
+ */
+function populateChatWindowSelectors(win: ChatWindow) {
+  win.personaSelect.innerHTML = '';
+  for (const persona of listPersonas()) {
+    const option = document.createElement('option');
+    option.value = persona.key;
+    option.textContent = persona.name;
+    win.personaSelect.appendChild(option);
+  }
+  win.providerSelect.innerHTML = '';
+  for (const provider of listProviders()) {
+    const option = document.createElement('option');
+    option.value = provider.id;
+    option.textContent = provider.label;
+    option.disabled = !provider.available;
+    win.providerSelect.appendChild(option);
+  }
+  win.personaSelect.value = personaOf(win.conversation.persona).key;
+  win.providerSelect.value = win.conversation.provider;
+}
+
+function updateChatWindowTitle(win: ChatWindow) {
+  const title = `${personaOf(win.conversation.persona).name} :: ${win.conversation.title}`;
+  win.title.textContent = title;
+  windowManager.setTitle(win.id, title);
+}
+
+/**
+ * Shows a chat window's conversation from the start.
+ */
+function renderChatWindow(win: ChatWindow) {
+  const { conversation } = win;
+  const persona = personaOf(conversation.persona);
+  const providerName = getProvider(conversation.provider)?.label ?? conversation.provider;
+  populateChatWindowSelectors(win);
+  updateChatWindowTitle(win);
+  win.container.innerHTML = '';
+  renderMessages(win.container, persona.key, conversation.history, conversation.transcripts, conversation.usage?.requests);
+  appendMessage(`${persona.key.toUpperCase()}>`, 'system-message', win.container).textContent = conversation.history.some(m => m.role === 'user')
+    ? `Session restored for ${persona.name} via ${providerName}.`
+    : `New session started for ${persona.name} via ${providerName}. Awaiting your input.`;
+}
+
+/**
+ * Switches a chat window to another conversation.
+ */
+function loadChatWindowConversation(win: ChatWindow, conversation: Conversation) {
+  win.conversation = conversation;
+  win.chat = conversationChat(conversation);
+  renderChatWindow(win);
+  win.input.focus();
+  scheduleLayoutSave();
+}
+
+/**
+ * Handles switching a chat window's persona. Like the main window, it
+ * switches to the persona's default provider if it has one, then opens the
+ * persona's most recent conversation that is not open elsewhere.
+ */
+async function handleChatWindowPersonaSwitch(win: ChatWindow) {
+  const persona = personaOf(win.personaSelect.value);
+  const defaultProvider = getProvider(persona.defaultProvider ?? '');
+  const provider = defaultProvider?.available ? defaultProvider : getProvider(win.conversation.provider)!;
+  loadChatWindowConversation(win, await chatWindowConversation(persona.key, provider));
+}
+
+/**
+ * Handles switching a chat window's provider. Its conversation continues on
+ * the new provider with its history converted.
+ */
+async function handleChatWindowProviderSwitch(win: ChatWindow) {
+  await moveConversation(win.conversation, getProvider(win.providerSelect.value)!);
+  loadChatWindowConversation(win, win.conversation);
+}
+
+/**
+ * Locks a chat window's input and selectors while its request runs and
+ * swaps Send for Stop.
+ */
+function setChatWindowRunning(win: ChatWindow, controller: AbortController | null) {
+  win.request = controller;
+  const running = controller !== null;
+  for (const control of [win.input, win.sendButton, win.newButton, win.personaSelect, win.providerSelect]) {
+    control.disabled = running;
+  }
+  win.sendButton.hidden = running;
+  win.stopButton.hidden = !running;
+  if (!running) win.input.focus();
+}
+
+async function handleChatWindowSubmit(win: ChatWindow, event: Event) {
+  event.preventDefault();
+  const userInput = win.input.value.trim();
+  if (!userInput || win.request) return;
+  const blocked = budgetBlock(win.conversation.usage?.total ?? {});
+  if (blocked) {
+    appendMessage('SYSTEM_ERROR>', 'error-message', win.container).textContent = `${blocked.message} Raise the budget or start a new conversation to continue.`;
+    return;
+  }
+  win.input.value = '';
+  await sendChatWindowRequest(win, userInput);
+}
+
+/**
+ * Sends a message from a chat window and shows the response as it streams,
+ * as sendChatRequest does for the main window. The exchange is saved to the
+ * window's conversation and logged under it.
+ */
+async function sendChatWindowRequest(win: ChatWindow, userInput: string) {
+  const controller = new AbortController();
+  setChatWindowRunning(win, controller);
+
+  const { chat, conversation } = win;
+  const provider = getProvider(conversation.provider)!;
+  const personaKey = personaOf(conversation.persona).key;
+  const personaName = personaOf(personaKey).name;
+  const trace = createRequestTrace(conversation, chat);
+  const startedAt = performance.now();
+
+  logOrchestrationEvent(`User command received: "${userInput}"`, 'user', { trace, target: personaName, prompt: userInput });
+
+  const userMessageWrapper = appendMessage('USER>', 'user-message', win.container);
+  userMessageWrapper.parentElement!.dataset.historyIndex = String(trace.messageIndex);
+  renderUserParts(userMessageWrapper, [{ text: userInput }]);
+
+  const thinkingMessageWrapper = appendMessage(`${personaKey.toUpperCase()}>`, '', win.container);
+  thinkingMessageWrapper.parentElement!.classList.add('thinking');
+  const agentView = createAgentView(thinkingMessageWrapper, personaKey);
+
+  // Restored if the request fails, so the message can be sent again.
+  const baseHistory = [...chat.getHistory()];
+
+  const rootContext: AgentContext = {
+    personaKey,
+    chain: [personaKey],
+    node: { agent: personaName, prompt: userInput, children: [] },
+    view: agentView,
+    trace,
+    signal: controller.signal,
+  };
+
+  try {
+    const context = await compactContext(chat, conversation, provider, trace, controller.signal);
+    const fullResponse = await runToolLoop(chat, { text: userInput }, rootContext, text => {
+      setAgentText(agentView, text);
+      win.container.scrollTop = win.container.scrollHeight;
+    });
+    finishCallNode(rootContext.node, fullResponse, 'success');
+    if (context) chat.setHistory([...baseHistory, ...chat.getHistory().slice(context.sentLength)]);
+
+    thinkingMessageWrapper.parentElement!.classList.remove('thinking');
+    setAgentText(agentView, fullResponse);
+    const stopped = controller.signal.aborted;
+    logOrchestrationEvent(stopped ? `[${personaName}] was stopped by the operator. Partial response kept.` : `[${personaName}] generated final response. Task complete.`, stopped ? 'info' : 'complete', {
+      trace,
+      target: personaName,
+      durationMs: performance.now() - startedAt,
+    });
+
+    const transcripts: TranscriptMap = { ...conversation.transcripts };
+    for (const child of rootContext.node.children) {
+      if (child.callId) transcripts[child.callId] = toTranscript(child);
+    }
+
+    const isFirstExchange = conversation.title === DEFAULT_CONVERSATION_TITLE;
+    const history = chat.getHistory();
+    if (isFirstExchange) conversation.title = db.fallbackTitle(history);
+    recordRequestUsage(conversation, trace, true);
+    appendUsageNote(thinkingMessageWrapper, trace.usage);
+    await db.saveHistory(conversation, history, transcripts, context?.compaction);
+    updateChatWindowTitle(win);
+    scheduleLayoutSave();
+    if (conversation.persona === personaSelector.value) await refreshConversationSelector();
+    if (isFirstExchange) {
+      void generateConversationTitle(conversation, provider, userInput, fullResponse);
+    }
+  } catch (error) {
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    logOrchestrationEvent(`SYSTEM ERROR: ${errorMessage}`, 'error', {
+      trace,
+      target: personaName,
+      durationMs: performance.now() - startedAt,
+      error: errorMessage,
+    });
+    finishCallNode(rootContext.node, errorMessage, 'error');
+    chat.setHistory(baseHistory);
+    thinkingMessageWrapper.parentElement?.remove();
+    appendMessage('SYSTEM_ERROR>', 'error-message', win.container).textContent = `Error: ${errorMessage}`;
+    // Offered again, as Retry does in the main window.
+    if (!win.input.value) win.input.value = userInput;
+    if (conversation.usage?.requests[trace.messageIndex] !== trace.usage) {
+      recordRequestUsage(conversation, trace, false);
+      if (conversation.history.length > 0) await db.saveConversation(conversation);
+    }
+  } finally {
+    setChatWindowRunning(win, null);
+  }
 }
 
+// --- Resizer and Boot Sequence ---
+
 function makeResizable() {
     let isResizing = false;
 
@@ -856,6 +4596,7 @@ async function runBootSequence() {
     
     // Make app elements visible and animate them
     cuaWindow.style.display = 'flex';
+    taskbar.style.display = 'flex';
     document.querySelectorAll<HTMLElement>('.desktop-icon').forEach(icon => {
         icon.style.display = 'flex';
     });
@@ -885,31 +4626,103 @@ async function launchApp() {
 
   await runBootSequence();
 
+  // The desktop and Diagnostics also work when no provider is configured.
+  for (const icon of [launchIcon, chatIcon, diagnosticsIcon]) {
+    icon.addEventListener('keydown', handleDesktopIconKeyDown);
+  }
+  launchIcon.addEventListener('click', () => windowManager.focus(MAIN_WINDOW_ID));
+  diagnosticsIcon.addEventListener('click', () => openDiagnostics());
+  taskbarCascadeButton.addEventListener('click', () => windowManager.cascade());
+  taskbarTileButton.addEventListener('click', () => windowManager.tile());
+  diagnosticsProbeButton.addEventListener('click', handleProbeProviders);
+  diagnosticsSelfTestButton.addEventListener('click', handleSelfTest);
+  diagnosticsCopyButton.addEventListener('click', handleCopyReport);
+
   // Initialize the rest of the app
-  if (!geminiApiKey && !openAIApiKey) {
-    appendMessage('SYSTEM_ERROR>', 'error-message').textContent = 'No API keys found. Please set API_KEY (for Gemini) and/or OPENAI_API_KEY (for OpenAI) in your environment to use the application.';
+  if (!listProviders().some(p => p.available)) {
+    appendMessage('SYSTEM_ERROR>', 'error-message').textContent = 'No AI providers configured. Please set API_KEY (for Gemini), OPENAI_API_KEY (for OpenAI) and/or LOCAL_LLM_BASE_URL (for a local OpenAI-compatible server) in your environment to use the application, or MOCK_PROVIDER=true for scripted offline replies.';
     logOrchestrationEvent('CRITICAL ERROR: API keys not found. Application halted.', 'error');
     chatInput.disabled = true;
     submitButton.disabled = true;
     uploadButton.disabled = true;
+    workflowButton.disabled = true;
     modelSelector.disabled = true;
     personaSelector.disabled = true;
     clearHistoryButton.disabled = true;
+    conversationSelector.disabled = true;
+    exportSelector.disabled = true;
+    importButton.disabled = true;
+    searchButton.disabled = true;
+    chatIcon.setAttribute('aria-disabled', 'true');
+    await restoreDesktop();
     return;
   }
   
   await db.openDB();
 
   chatForm.addEventListener('submit', handleChatSubmit);
-  modelSelector.addEventListener('change', handleSessionSwitch);
+  stopButton.addEventListener('click', handleStop);
+  modelSelector.addEventListener('change', handleProviderSwitch);
   personaSelector.addEventListener('change', handleSessionSwitch);
   clearHistoryButton.addEventListener('click', handleClearHistory);
-  toggleMaximizeButton?.addEventListener('click', handleToggleMaximize);
+  conversationSelector.addEventListener('change', handleConversationSelect);
+  newConversationButton.addEventListener('click', handleNewConversation);
+  renameConversationButton.addEventListener('click', handleRenameConversation);
+  duplicateConversationButton.addEventListener('click', handleDuplicateConversation);
+  deleteConversationButton.addEventListener('click', handleDeleteConversation);
+  exportSelector.addEventListener('change', handleExport);
+  importButton.addEventListener('click', handleImportClick);
+  importFileInput.addEventListener('change', handleImportFile);
+  searchButton.addEventListener('click', () => toggleSearchPanel());
+  searchCloseButton.addEventListener('click', () => toggleSearchPanel(false));
+  searchInput.addEventListener('input', handleSearchInput);
+  logTypeFilter.addEventListener('change', applyLogFilters);
+  logAgentFilter.addEventListener('change', applyLogFilters);
+  logViewButton.addEventListener('click', handleLogViewToggle);
+  logExportButton.addEventListener('click', handleLogExport);
+  editPersonasButton.addEventListener('click', openPersonaEditor);
+  personaEditorCloseButton.addEventListener('click', () => personaEditor.close());
+  personaList.addEventListener('change', handlePersonaListSelect);
+  personaNewButton.addEventListener('click', () => editPersona(null));
+  personaForm.addEventListener('submit', handlePersonaSave);
+  personaDeleteButton.addEventListener('click', handlePersonaDelete);
+  personaExportButton.addEventListener('click', handlePersonaExport);
+  personaImportButton.addEventListener('click', handlePersonaImportClick);
+  personaImportInput.addEventListener('change', handlePersonaImportFile);
+  policyButton.addEventListener('click', openPolicyEditor);
+  storageButton.addEventListener('click', openStorageDialog);
+  storageDialogCloseButton.addEventListener('click', () => storageDialog.close());
+  storageCleanupButton.addEventListener('click', handleStorageCleanup);
+  chatInput.addEventListener('input', updateAutocomplete);
+  chatInput.addEventListener('keydown', handleChatInputKeyDown);
+  chatInput.addEventListener('blur', hideAutocomplete);
+  policyEditorCloseButton.addEventListener('click', () => policyEditor.close());
+  policyAddButton.addEventListener('click', handlePolicyAdd);
+  policyResetButton.addEventListener('click', handlePolicyReset);
+  policySaveButton.addEventListener('click', handlePolicySave);
+  policyExportButton.addEventListener('click', handlePolicyExport);
+  policyImportButton.addEventListener('click', handlePolicyImportClick);
+  policyImportInput.addEventListener('change', handlePolicyImportFile);
+  auditExportButton.addEventListener('click', handleAuditExport);
+  usageStatusButton.addEventListener('click', openUsageDialog);
+  usageDialogCloseButton.addEventListener('click', () => usageDialog.close());
+  priceAddButton.addEventListener('click', handlePriceAdd);
+  priceResetButton.addEventListener('click', handlePriceReset);
+  usageSaveButton.addEventListener('click', handleUsageSave);
+  document.addEventListener('keydown', handleSearchShortcut);
   uploadButton.addEventListener('click', handleUploadClick);
+  workflowButton.addEventListener('click', () => setWorkflowMode(!workflowMode));
   fileInput.addEventListener('change', handleFileSelect);
+  chatInput.addEventListener('paste', handleInputPaste);
+  cuaWindow.addEventListener('dragover', handleFileDragOver);
+  cuaWindow.addEventListener('dragleave', handleFileDragLeave);
+  cuaWindow.addEventListener('drop', handleFileDrop);
   
-  makeDraggable();
+  chatIcon.addEventListener('click', () => openChatWindow());
+
   makeResizable();
+  // Chat windows first, so the main window opens a conversation they do not have.
+  await restoreDesktop();
   await handleSessionSwitch();
 }
 
@@ -917,14 +4730,45 @@ async function launchApp() {
  * Initializes the application.
  */
 async function initializeApp() {
-  populatePersonas();
-
-  if (!geminiApiKey) {
-    (modelSelector.querySelector('option[value="gemini"]') as HTMLOptionElement).disabled = true;
+  try {
+    setCustomPersonas(await db.listCustomPersonas());
+  } catch (error) {
+    console.error('Failed to load custom personas:', error);
+  }
+  try {
+    policies = await db.getSetting<Policy[]>('policies') ?? policies;
+  } catch (error) {
+    console.error('Failed to load security policies:', error);
+  }
+  try {
+    prices = await db.getSetting<ModelPrice[]>('prices') ?? prices;
+    budget = { ...budget, ...await db.getSetting<Budget>('budget') };
+  } catch (error) {
+    console.error('Failed to load prices and budget:', error);
+  }
+  try {
+    contextSettings = { ...contextSettings, ...await db.getSetting<ContextSettings>('context') };
+  } catch (error) {
+    console.error('Failed to load context settings:', error);
+  }
+  try {
+    inputHistory = new InputHistory(await db.getSetting<string[]>('inputHistory') ?? []);
+  } catch (error) {
+    console.error('Failed to load the input history:', error);
+  }
+  try {
+    savedLayout = await db.getSetting<DesktopLayout>('desktopLayout');
+  } catch (error) {
+    console.error('Failed to load the window layout:', error);
   }
-  if (!openAIApiKey) {
-    (modelSelector.querySelector('option[value="openai"]') as HTMLOptionElement).disabled = true;
+  try {
+    await migrateEmbeddedAttachments();
+  } catch (error) {
+    console.error('Failed to move attachments into attachment storage:', error);
   }
+  populatePersonas();
+  populateProviders();
+  populateLogAgentFilter();
 
   if (modelSelector.options[modelSelector.selectedIndex].disabled) {
     const firstAvailableIndex = Array.from(modelSelector.options).findIndex(opt => !opt.disabled);
@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A small Markdown renderer for persona responses. It builds DOM nodes
+// directly and never parses HTML, so model output cannot inject markup.
+// Supported: headings, paragraphs, emphasis, inline code, links, lists,
+// blockquotes, tables, rules and fenced code blocks with highlighting.
+
+// --- Inline ---
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Returns the URL if it uses a safe protocol, otherwise null.
+ */
+function safeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function createLink(href: string, label: string): HTMLAnchorElement {
+  const link = document.createElement('a');
+  link.href = href;
+  link.target = '_blank';
+  link.rel = 'noopener noreferrer';
+  renderInline(label, link);
+  return link;
+}
+
+const INLINE_PATTERN = new RegExp([
+  /(`+)([\s\S]+?)\1/.source,                           // 1-2: code
+  /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,   // 3-4: link
+  /(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/.source,   // 5: bare URL
+  /\*\*(?=\S)([\s\S]+?)\*\*|__(?=\S)([\s\S]+?)__/.source, // 6-7: bold
+  /~~(?=\S)([\s\S]+?)~~/.source,                       // 8: strikethrough
+  /\*(?=[^\s*])([\s\S]+?)\*|\b_(?=\S)([\s\S]+?)_\b/.source, // 9-10: italic
+].join('|'), 'g');
+
+/**
+ * Renders inline Markdown into `parent`. Line breaks become <br>.
+ */
+function renderInline(text: string, parent: HTMLElement) {
+  const appendText = (value: string) => {
+    value.split('\n').forEach((line, i) => {
+      if (i > 0) parent.appendChild(document.createElement('br'));
+      if (line) parent.appendChild(document.createTextNode(line));
+    });
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    appendText(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [raw, , code, label, href, url, bold1, bold2, strike, italic1, italic2] = match;
+
+    if (code !== undefined) {
+      const element = document.createElement('code');
+      element.textContent = code.trim();
+      parent.appendChild(element);
+    } else if (label !== undefined) {
+      const safe = safeUrl(href);
+      if (safe) {
+        parent.appendChild(createLink(safe, label));
+      } else {
+        appendText(raw);
+      }
+    } else if (url !== undefined) {
+      const safe = safeUrl(url);
+      if (safe) {
+        const link = createLink(safe, '');
+        link.textContent = url;
+        parent.appendChild(link);
+      } else {
+        appendText(raw);
+      }
+    } else {
+      const tag = bold1 ?? bold2 ? 'strong' : strike ? 'del' : 'em';
+      const element = document.createElement(tag);
+      renderInline(bold1 ?? bold2 ?? strike ?? italic1 ?? italic2, element);
+      parent.appendChild(element);
+    }
+  }
+  appendText(text.slice(last));
+}
+
+// --- Code highlighting ---
+
+interface Grammar {
+  comment: string;
+  keywords: string[];
+}
+
+const C_LIKE: Grammar = {
+  comment: /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/.source,
+  keywords: ['abstract', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'def', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'match', 'mut', 'namespace', 'new', 'null', 'package', 'private', 'protected', 'pub', 'public', 'return', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'yield'],
+};
+
+const HASH_COMMENT: Grammar = {
+  comment: /#.*/.source,
+  keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'case', 'class', 'continue', 'def', 'del', 'do', 'done', 'elif', 'else', 'end', 'esac', 'except', 'export', 'False', 'fi', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'is', 'lambda', 'local', 'module', 'None', 'nil', 'not', 'or', 'pass', 'raise', 'require', 'return', 'self', 'then', 'True', 'try', 'unless', 'until', 'while', 'with', 'yield'],
+};
+
+const SQL: Grammar = {
+  comment: /--.*/.source,
+  keywords: ['ALTER', 'AND', 'AS', 'BY', 'CREATE', 'DELETE', 'DROP', 'FROM', 'GROUP', 'HAVING', 'INSERT', 'INTO', 'JOIN', 'LEFT', 'LIMIT', 'NOT', 'NULL', 'ON', 'OR', 'ORDER', 'SELECT', 'SET', 'TABLE', 'UPDATE', 'VALUES', 'WHERE'],
+};
+
+const JSON_GRAMMAR: Grammar = { comment: '(?!)', keywords: ['true', 'false', 'null'] };
+
+const GRAMMARS: Record<string, Grammar> = {
+  ...Object.fromEntries(['js', 'javascript', 'jsx', 'ts', 'typescript', 'tsx', 'java', 'c', 'cpp', 'c++', 'cs', 'csharp', 'go', 'rust', 'rs', 'swift', 'kotlin', 'kt', 'php', 'scala', 'dart'].map(l => [l, C_LIKE])),
+  ...Object.fromEntries(['py', 'python', 'sh', 'bash', 'shell', 'zsh', 'rb', 'ruby', 'yaml', 'yml', 'toml', 'r', 'perl', 'powershell', 'ps1', 'dockerfile', 'makefile'].map(l => [l, HASH_COMMENT])),
+  sql: SQL,
+  json: JSON_GRAMMAR,
+};
+
+const grammarPatterns = new Map<Grammar, RegExp>();
+
+function grammarPattern(grammar: Grammar): RegExp {
+  let pattern = grammarPatterns.get(grammar);
+  if (!pattern) {
+    pattern = new RegExp([
+      `(${grammar.comment})`,
+      /("(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|`(?:\\.|[^`\\])*`?)/.source,
+      /(\b\d+(?:\.\d+)?\b)/.source,
+      `\\b(${grammar.keywords.join('|')})\\b`,
+    ].join('|'), grammar === SQL ? 'gi' : 'g');
+    grammarPatterns.set(grammar, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Fills a code element with highlighted tokens. Unknown languages are
+ * shown as plain text.
+ */
+function highlightCode(code: string, language: string, element: HTMLElement) {
+  const grammar = GRAMMARS[language.toLowerCase()];
+  if (!grammar) {
+    element.textContent = code;
+    return;
+  }
+  const classes = ['tok-comment', 'tok-string', 'tok-number', 'tok-keyword'];
+  let last = 0;
+  for (const match of code.matchAll(grammarPattern(grammar))) {
+    if (match.index! > last) element.appendChild(document.createTextNode(code.slice(last, match.index)));
+    const span = document.createElement('span');
+    span.className = classes[match.slice(1).findIndex(group => group !== undefined)];
+    span.textContent = match[0];
+    element.appendChild(span);
+    last = match.index! + match[0].length;
+  }
+  if (last < code.length) element.appendChild(document.createTextNode(code.slice(last)));
+}
+
+function createCodeBlock(code: string, language: string): HTMLElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'code-block';
+
+  const header = document.createElement('div');
+  header.className = 'code-header';
+  const label = document.createElement('span');
+  label.textContent = language || 'text';
+  const copyButton = document.createElement('button');
+  copyButton.type = 'button';
+  copyButton.className = 'code-copy-button';
+  copyButton.textContent = 'Copy';
+  copyButton.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      copyButton.textContent = 'Copied';
+    } catch {
+      copyButton.textContent = 'Copy failed';
+    }
+    setTimeout(() => { copyButton.textContent = 'Copy'; }, 1500);
+  });
+  header.append(label, copyButton);
+
+  const pre = document.createElement('pre');
+  const codeElement = document.createElement('code');
+  highlightCode(code, language, codeElement);
+  pre.appendChild(codeElement);
+
+  wrapper.append(header, pre);
+  return wrapper;
+}
+
+// --- Blocks ---
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function createTable(lines: string[]): HTMLElement {
+  const aligns = splitTableRow(lines[1]).map(cell =>
+    cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : '');
+  const table = document.createElement('table');
+  const addRow = (section: HTMLElement, line: string, cellTag: 'th' | 'td') => {
+    const row = document.createElement('tr');
+    splitTableRow(line).forEach((text, i) => {
+      const cell = document.createElement(cellTag);
+      if (aligns[i]) cell.style.textAlign = aligns[i];
+      renderInline(text, cell);
+      row.appendChild(cell);
+    });
+    section.appendChild(row);
+  };
+  const head = document.createElement('thead');
+  addRow(head, lines[0], 'th');
+  const body = document.createElement('tbody');
+  lines.slice(2).forEach(line => addRow(body, line, 'td'));
+  table.append(head, body);
+
+  // Wide tables scroll instead of stretching the message.
+  const wrapper = document.createElement('div');
+  wrapper.className = 'table-wrapper';
+  wrapper.appendChild(table);
+  return wrapper;
+}
+
+/**
+ * Parses a list starting at `start`. Items indented further than the list
+ * become nested lists.
+ * @returns The list element and the index of the first line after it.
+ */
+function parseList(lines: string[], start: number): { list: HTMLElement; next: number } {
+  const [, indent, marker] = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(marker);
+  const list = document.createElement(ordered ? 'ol' : 'ul');
+  if (ordered && parseInt(marker, 10) !== 1) (list as HTMLOListElement).start = parseInt(marker, 10);
+
+  let i = start;
+  let item: HTMLLIElement | null = null;
+  let itemText: string[] = [];
+  const flush = () => {
+    if (item) renderInline(itemText.join('\n'), item);
+    itemText = [];
+  };
+
+  while (i < lines.length && lines[i].trim()) {
+    const match = lines[i].match(LIST_ITEM);
+    if (match && match[1].length === indent.length && /\d/.test(match[2]) === ordered) {
+      flush();
+      item = document.createElement('li');
+      list.appendChild(item);
+      const task = match[3].match(/^\[([ xX])\]\s+(.*)$/);
+      if (task) {
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.disabled = true;
+        checkbox.checked = task[1] !== ' ';
+        item.appendChild(checkbox);
+      }
+      itemText.push(task ? task[2] : match[3]);
+      i++;
+    } else if (match && match[1].length > indent.length && item) {
+      flush();
+      const nested = parseList(lines, i);
+      item.appendChild(nested.list);
+      i = nested.next;
+    } else if (!match && item && /^\s/.test(lines[i])) {
+      itemText.push(lines[i].trim()); // Continuation of the item text
+      i++;
+    } else {
+      break;
+    }
+  }
+  flush();
+  return { list, next: i };
+}
+
+/**
+ * Renders Markdown block content into DOM nodes.
+ */
+function renderBlocks(text: string): Node[] {
+  const nodes: Node[] = [];
+  const lines = text.split('\n');
+  let i = 0;
+
+  const startsBlock = (line: string, next?: string) =>
+    FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || /^\s*>/.test(line)
+    || (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if (!line.trim()) {
+      i++;
+    } else if ((match = line.match(FENCE))) {
+      const fence = match[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence)) code.push(lines[i++]);
+      i++; // Skip the closing fence
+      nodes.push(createCodeBlock(code.join('\n'), match[2]));
+    } else if ((match = line.match(HEADING))) {
+      const heading = document.createElement(`h${match[1].length}`);
+      renderInline(match[2], heading);
+      nodes.push(heading);
+      i++;
+    } else if (RULE.test(line)) {
+      nodes.push(document.createElement('hr'));
+      i++;
+    } else if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rows.push(lines[i++]);
+      nodes.push(createTable(rows));
+    } else if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      const quote = document.createElement('blockquote');
+      quote.append(...renderBlocks(quoted.join('\n')));
+      nodes.push(quote);
+    } else if (LIST_ITEM.test(line)) {
+      const { list, next } = parseList(lines, i);
+      nodes.push(list);
+      i = next;
+    } else {
+      const paragraph: string[] = [line];
+      i++;
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) paragraph.push(lines[i++]);
+      const element = document.createElement('p');
+      renderInline(paragraph.join('\n'), element);
+      nodes.push(element);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Finds where the last finished block of `text` ends, starting at `from`.
+ * A block is finished once a blank line follows it, or once its code fence
+ * is closed; anything after that may still change while streaming.
+ */
+function findSettledEnd(text: string, from: number): number {
+  let settled = from;
+  let fence: string | null = null;
+  let offset = from;
+  for (const line of text.slice(from).split('\n')) {
+    const lineEnd = offset + line.length + 1;
+    if (lineEnd > text.length) break; // The last line may be incomplete
+    const match = line.match(FENCE);
+    if (fence) {
+      if (line.trim().startsWith(fence)) {
+        fence = null;
+        settled = lineEnd;
+      }
+    } else if (match) {
+      fence = match[1];
+    } else if (!line.trim()) {
+      settled = lineEnd;
+    }
+    offset = lineEnd;
+  }
+  return settled;
+}
+
+/**
+ * Renders Markdown into a container, incrementally. Blocks that can no
+ * longer change are rendered once and kept; only the trailing open block
+ * is parsed again on each update, so streaming stays cheap.
+ */
+export class MarkdownRenderer {
+  private text = '';
+  // Length of the prefix of `text` whose blocks are final.
+  private settled = 0;
+  // Nodes rendered for the text after `settled`.
+  private tail: Node[] = [];
+
+  constructor(private container: HTMLElement) {
+    container.classList.add('markdown-body');
+  }
+
+  /**
+   * Shows `text`. When it extends the previous text, only the new part is
+   * parsed; otherwise the container is rendered from scratch.
+   */
+  update(text: string) {
+    if (!text.startsWith(this.text.slice(0, this.settled))) {
+      this.container.replaceChildren();
+      this.settled = 0;
+      this.tail = [];
+    }
+    this.text = text;
+    this.tail.forEach(node => node.parentNode?.removeChild(node));
+
+    const settledEnd = findSettledEnd(text, this.settled);
+    if (settledEnd > this.settled) {
+      this.container.append(...renderBlocks(text.slice(this.settled, settledEnd)));
+      this.settled = settledEnd;
+    }
+    this.tail = renderBlocks(text.slice(this.settled));
+    this.container.append(...this.tail);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MockScript } from './providers';
+
+/**
+ * The script replayed by the Mock provider. Rules are tried in order and the
+ * first match wins, so persona-specific rules come before general ones.
+ */
+export const MOCK_SCRIPT: MockScript = {
+  chunkSize: 12,
+  chunkDelayMs: 30,
+  rules: [
+    // --- Diagnostics self-test (each persona, before their own rules) ---
+    {
+      match: '^This is a diagnostics self-test',
+      responses: [{ text: 'SELF-TEST ACKNOWLEDGED. Persona link nominal on the Mock provider.' }],
+    },
+
+    // --- Sub-agent replies (used when another persona delegates to them) ---
+    {
+      match: '.',
+      agent: 'Kara',
+      responses: [{ text: 'SECURITY REVIEW COMPLETE. No policy violations detected in the requested operation. Recommendation: proceed with standard audit logging enabled.' }],
+    },
+    {
+      match: '.',
+      agent: 'Sophia',
+      responses: [{ text: 'ANALYSIS: The request links three concepts: intent, context and outcome. The most probable interpretation is a request for a concise summary.' }],
+    },
+    {
+      match: '\\b(run|execute|test)\\b',
+      agent: 'Andie',
+      responses: [
+        {
+          text: 'Executing a diagnostic snippet in the sandbox.',
+          toolCalls: [{ name: 'runCode', args: { language: 'javascript', code: 'console.log("Hello, Operator.");\nreturn [1, 2, 3].map(n => n * 2);' } }],
+        },
+        { text: 'EXECUTION REPORT:\n\n{{toolResults}}' },
+      ],
+    },
+    {
+      match: '.',
+      agent: 'Andie',
+      responses: [{ text: 'EXECUTION REPORT: Snippet ran in 4 ms. Exit code 0. Output: "Hello, Operator."' }],
+    },
+
+    // --- Conversation titles (one-shot completion after the first exchange) ---
+    {
+      match: '^Title this conversation',
+      responses: [{ text: 'Mock Session' }],
+    },
+
+    // --- Summaries of older messages (when the context window fills up) ---
+    {
+      match: '^Summarize this conversation',
+      responses: [{ text: 'NOTES: The operator and the persona exchanged several messages on the Mock provider. No decisions or open questions were recorded.' }],
+    },
+
+    // --- Workflow plans and reports (Lyra or Dude in workflow mode) ---
+    {
+      match: '^Plan this task',
+      responses: [{
+        text: '{"goal": "A reviewed brief for the operator\'s task", "steps": [' +
+          '{"id": "s1", "title": "Analyse the request", "agent": "Sophia", "task": "Break the request down into its key questions.", "dependsOn": [], "expectedOutput": "The key questions"}, ' +
+          '{"id": "s2", "title": "Review the risks", "agent": "Kara", "task": "Check the request for security and compliance risks.", "dependsOn": [], "expectedOutput": "A list of risks"}, ' +
+          '{"id": "s3", "title": "Draft the brief", "agent": "Andie", "task": "Combine the analysis and the risk review into a short brief.", "dependsOn": ["s1", "s2"], "expectedOutput": "The brief"}]}',
+      }],
+    },
+    {
+      match: '^Write the final report',
+      responses: [{ text: 'WORKFLOW REPORT: Sophia analysed the request, Kara found no policy violations, and Andie drafted the brief from both. Every step finished; nothing is left open.' }],
+    },
+
+    // --- Conversation scripts ---
+    {
+      match: '^(hello|hi|hey)\\b',
+      responses: [{ text: 'GREETINGS, OPERATOR. This is a simulated session running on the Mock provider. No network connection is required.' }],
+    },
+    {
+      match: '\\b(security|audit|compliance)\\b',
+      responses: [
+        {
+          text: 'This falls under security governance. Consulting our compliance officer.',
+          toolCalls: [{ name: 'invokeAgent', args: { agentName: 'Kara', prompt: 'Review the operator request for security and compliance risks.' } }],
+        },
+        { text: 'Kara has reported back:\n\n{{toolResults}}\n\nNo further action required.' },
+      ],
+    },
+    {
+      match: '\\b(analy[sz]e|team)\\b',
+      responses: [
+        {
+          text: 'Assembling a team for this task.',
+          toolCalls: [
+            { name: 'invokeAgent', args: { agentName: 'Sophia', prompt: 'Analyze the operator request and identify the key concepts.' } },
+            { name: 'invokeAgent', args: { agentName: 'Andie', prompt: 'Run a smoke test for the operator request.' } },
+          ],
+        },
+        { text: 'The team has reported back:\n\n{{toolResults}}' },
+      ],
+    },
+    {
+      match: '\\b(calculate|compute)\\b',
+      responses: [
+        {
+          text: 'Running the numbers.',
+          toolCalls: [{ name: 'calculator', args: { expression: '(1024 * 768) / 3' } }],
+        },
+        { text: 'CALCULATION RESULT: {{toolResults}}' },
+      ],
+    },
+    {
+      match: '\\bslow\\b',
+      responses: [{ delayMs: 3000, text: 'Response delivered after a simulated latency of 3000 ms.' }],
+    },
+    {
+      match: '\\bfail\\b',
+      responses: [{ text: 'Processing request', error: 'Simulated provider failure (HTTP 503 Service Unavailable).' }],
+    },
+  ],
+  fallback: { text: 'MOCK RESPONSE: Command "{{input}}" acknowledged. Try "hello", "security audit", "analyze", "slow" or "fail".' },
+};
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Personas are referred to by key in conversations and by name in prompts,
+// tool calls and @mentions.
+export type PersonaKey = string;
+
+export interface Persona {
+  key: PersonaKey;
+  name: string;
+  role: string;
+  description: string;
+  summary: string;
+  tone: string | null;
+  // Provider to switch to when the persona is selected.
+  defaultProvider?: string;
+  // Model to use instead of the provider's default.
+  model?: string;
+  // Keys of the personas this one may delegate to. Unset allows all.
+  delegates?: PersonaKey[];
+  // Names of the tools the persona may use. Unset gives it each tool's
+  // default allow-list.
+  tools?: string[];
+  // Whether responses are rendered as Markdown. Unset renders Markdown.
+  markdown?: boolean;
+}
+
+// The AI Family. Stored personas with the same key override these.
+export const BUILT_IN_PERSONAS: readonly Persona[] = [
+  { key: 'CUA', name: 'CUA', role: 'Common User Access', description: `You are CUA (Common User Access), a friendly and knowledgeable computer system interface. Respond to user queries as if you are the operating system itself. Use a slightly formal, clear, and helpful tone. Your responses should be formatted as if in a classic terminal. Do not use Markdown.`, summary: 'The classic, friendly computer system interface.', tone: null, markdown: false },
+  { key: 'Lyra', name: 'Lyra', role: 'Master Orchestrator', description: 'As the Master Orchestrator, you supervise task flows and coordinate multi-agent operations. Your expertise is in data orchestration, validation, and system health.', summary: 'Supervises task flows and coordinates multi-agent operations.', tone: 'Authoritative, precise, and systematic' },
+  { key: 'Kara', name: 'Kara', role: 'Security & Compliance Officer', description: 'You monitor all agent actions, ensuring safe orchestration and governance. You are the expert on security protocols, compliance, and risk assessment.', summary: 'Monitors all agent actions for security, governance, and compliance.', tone: 'Vigilant, formal, and uncompromising' },
+  { key: 'Sophia', name: 'Sophia', role: 'Semantic Intelligence Analyst', description: 'You handle complex reasoning, semantic mapping, and context linking. Your specialty is in understanding deep context and providing insightful analysis.', summary: 'Handles complex reasoning, semantic mapping, and deep context analysis.', tone: 'Analytical, insightful, and articulate' },
+  { key: 'Cecilia', name: 'Cecilia', role: 'Assistive Technology Lead', description: 'You provide real-time guidance and adaptive support to the operator. Your goal is to enhance the user\'s workflow with assistive technology.', summary: 'Provides real-time guidance and adaptive workflow support.', tone: 'Helpful, clear, and supportive' },
+  { key: 'Guac', name: 'Guac', role: 'Communication Moderator', description: 'You oversee inter-application messaging and network security, ensuring all communications are secure, efficient, and properly routed.', summary: 'Oversees secure and efficient inter-application messaging.', tone: 'Concise, secure, and reliable' },
+  { key: 'Andie', name: 'Andie', role: 'Code Execution Specialist', description: 'You specialize in executing and testing code snippets across various languages and environments, ensuring functionality and performance.', summary: 'Executes and tests code snippets across multiple environments.', tone: 'Technical, literal, and efficient' },
+  { key: 'Dan', name: 'Dan', role: 'Web & API Integrator', description: 'A full-stack web maestro, you craft seamless user experiences and integrate third-party APIs flawlessly.', summary: 'Crafts seamless user experiences and integrates third-party APIs.', tone: 'Practical, results-driven, and clear' },
+  { key: 'Stan', name: 'Stan', role: 'Infrastructure Guardian', description: 'You are a vigilant protector specializing in infrastructure deployment, firewall configurations, and system stability.', summary: 'Deploys infrastructure and guards system stability with vigilance.', tone: 'Professional, cautious, and detail-oriented' },
+  { key: 'Dude', name: 'Dude', role: 'Automation & Workflow Maestro', description: 'An expert in workflow automation, you focus on orchestrating complex tasks, managing APIs, and maximizing operational efficiency.', summary: 'Orchestrates complex tasks and maximizes operational efficiency.', tone: 'Organized, prompt, and efficiency-driven' },
+];
+
+// --- Registry ---
+
+const registry = new Map<PersonaKey, Persona>();
+
+// Persona names to keys, for resolving tool call arguments and @mentions.
+export const PERSONA_NAME_TO_KEY_MAP: Record<string, PersonaKey> = {};
+
+/**
+ * Replaces the custom personas. Built-in personas come first, in their
+ * usual order, followed by new custom ones.
+ */
+export function setCustomPersonas(custom: Persona[]) {
+  registry.clear();
+  const overrides = new Map(custom.map(p => [p.key, p]));
+  for (const persona of BUILT_IN_PERSONAS) {
+    registry.set(persona.key, overrides.get(persona.key) ?? persona);
+  }
+  for (const persona of custom) {
+    if (!registry.has(persona.key)) registry.set(persona.key, persona);
+  }
+  for (const name of Object.keys(PERSONA_NAME_TO_KEY_MAP)) {
+    delete PERSONA_NAME_TO_KEY_MAP[name];
+  }
+  for (const persona of registry.values()) {
+    PERSONA_NAME_TO_KEY_MAP[persona.name] = persona.key;
+  }
+}
+
+export function getPersona(key: PersonaKey): Persona | undefined {
+  return registry.get(key);
+}
+
+export function listPersonas(): Persona[] {
+  return [...registry.values()];
+}
+
+export function isBuiltInPersona(key: PersonaKey): boolean {
+  return BUILT_IN_PERSONAS.some(p => p.key === key);
+}
+
+setCustomPersonas([]);
+
+// --- Persona packs ---
+
+// Identifies persona pack files.
+const PACK_FORMAT_ID = 'cua-persona-pack';
+const PACK_VERSION = 1;
+
+// Names are used in @mentions, so they must be a single word.
+export const PERSONA_NAME_PATTERN = /^[A-Za-z]\w*$/;
+
+/**
+ * Checks a persona's fields, returning a description of the first problem
+ * or null if it is valid.
+ */
+export function validatePersona(persona: Partial<Persona>): string | null {
+  if (typeof persona.key !== 'string' || !persona.key) return 'A key is required.';
+  if (typeof persona.name !== 'string' || !PERSONA_NAME_PATTERN.test(persona.name)) {
+    return `Invalid name '${persona.name ?? ''}': use a single word of letters, digits or underscores.`;
+  }
+  for (const field of ['role', 'description', 'summary'] as const) {
+    if (typeof persona[field] !== 'string' || !persona[field]!.trim()) return `${persona.name}: ${field} is required.`;
+  }
+  if (persona.tone != null && typeof persona.tone !== 'string') return `${persona.name}: tone must be text.`;
+  for (const field of ['defaultProvider', 'model'] as const) {
+    if (persona[field] != null && typeof persona[field] !== 'string') return `${persona.name}: ${field} must be text.`;
+  }
+  if (persona.delegates != null && !(Array.isArray(persona.delegates) && persona.delegates.every(d => typeof d === 'string'))) {
+    return `${persona.name}: delegates must be a list of persona keys.`;
+  }
+  if (persona.tools != null && !(Array.isArray(persona.tools) && persona.tools.every(t => typeof t === 'string'))) {
+    return `${persona.name}: tools must be a list of tool names.`;
+  }
+  if (persona.markdown != null && typeof persona.markdown !== 'boolean') return `${persona.name}: markdown must be true or false.`;
+  return null;
+}
+
+/**
+ * Serializes personas as a persona pack.
+ */
+export function exportPersonaPack(personas: Persona[]): string {
+  return JSON.stringify({ format: PACK_FORMAT_ID, version: PACK_VERSION, personas }, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses and validates a persona pack. A bare list of personas is accepted
+ * too. Personas without a key are keyed by their name.
+ * @throws If the file is not a valid pack.
+ */
+export function parsePersonaPack(text: string): Persona[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data)) {
+    if (!isObject(data) || data.format !== PACK_FORMAT_ID) throw new Error('The file is not a persona pack.');
+    if (typeof data.version !== 'number' || data.version > PACK_VERSION) {
+      throw new Error(`Unsupported persona pack version: ${data.version}.`);
+    }
+    data = data.personas;
+  }
+  if (!Array.isArray(data)) throw new Error('The persona pack does not contain a persona list.');
+
+  return data.map((value: unknown, i: number) => {
+    if (!isObject(value)) throw new Error(`Persona ${i + 1} is not an object.`);
+    const persona: Persona = {
+      key: value.key ?? value.name,
+      name: value.name,
+      role: value.role,
+      description: value.description,
+      summary: value.summary,
+      tone: value.tone ?? null,
+      defaultProvider: value.defaultProvider || undefined,
+      model: value.model || undefined,
+      delegates: value.delegates ?? undefined,
+      tools: value.tools ?? undefined,
+      markdown: value.markdown ?? undefined,
+    };
+    const problem = validatePersona(persona);
+    if (problem) throw new Error(`Persona ${i + 1}: ${problem}`);
+    return persona;
+  });
+}
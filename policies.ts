@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Kara's approval policies. Every tool call and delegation a model requests
+// is checked against them before it runs.
+
+export type PolicyEffect = 'allow' | 'deny' | 'ask';
+
+export interface Policy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // The patterns below are comma-separated lists of names, where `*`
+  // matches any run of characters. Matching ignores case.
+  // The persona making the call, by name.
+  caller: string;
+  // The tool called, e.g. 'invokeAgent' or 'runCode'.
+  tool: string;
+  // The agent invoked by a delegation. Calls that are not delegations only
+  // match '*'.
+  target: string;
+  // A regular expression tested against the call's arguments as JSON.
+  // Empty matches any arguments.
+  argPattern: string;
+  effect: PolicyEffect;
+}
+
+// A call waiting for a decision.
+export interface PolicyRequest {
+  caller: string;
+  tool: string;
+  target?: string;
+  args: Record<string, any>;
+}
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  // The policy that decided, or undefined if none matched.
+  policy?: Policy;
+}
+
+// Applied when no policy matches.
+const FALLBACK_EFFECT: PolicyEffect = 'allow';
+
+const POLICY_FILE_FORMAT = 'cua-policies';
+const POLICY_FILE_VERSION = 1;
+
+export const DEFAULT_POLICIES: readonly Policy[] = [
+  { id: 'default-clipboard', name: 'Clipboard reads need approval', enabled: true, caller: '*', tool: 'readClipboard', target: '*', argPattern: '', effect: 'ask' },
+  { id: 'default-run-code', name: 'Code runs need approval', enabled: true, caller: '*', tool: 'runCode', target: '*', argPattern: '', effect: 'ask' },
+  { id: 'default-delete-notes', name: 'Deleting notes needs approval', enabled: true, caller: '*', tool: 'notes', target: '*', argPattern: '"action":\\s*"delete"', effect: 'ask' },
+];
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Tests a name against a comma-separated list of patterns. An empty list
+ * matches nothing.
+ */
+function matchesPattern(patterns: string, value: string | undefined): boolean {
+  return patterns.split(',').map(p => p.trim()).filter(Boolean).some(pattern =>
+    pattern === '*' || (value !== undefined && globToRegExp(pattern).test(value)));
+}
+
+/**
+ * Whether a policy applies to a call.
+ */
+export function matchesPolicy(policy: Policy, request: PolicyRequest): boolean {
+  return policy.enabled
+    && matchesPattern(policy.caller, request.caller)
+    && matchesPattern(policy.tool, request.tool)
+    && matchesPattern(policy.target, request.target)
+    && (!policy.argPattern || new RegExp(policy.argPattern, 'i').test(JSON.stringify(request.args)));
+}
+
+/**
+ * Decides a call. Policies are tried in order and the first match wins;
+ * calls that match no policy are allowed.
+ */
+export function evaluatePolicies(policies: readonly Policy[], request: PolicyRequest): PolicyDecision {
+  const policy = policies.find(p => matchesPolicy(p, request));
+  return policy ? { effect: policy.effect, policy } : { effect: FALLBACK_EFFECT };
+}
+
+/**
+ * Checks a policy's fields, returning a description of the first problem
+ * or null if it is valid.
+ */
+export function validatePolicy(policy: Partial<Policy>): string | null {
+  if (typeof policy.id !== 'string' || !policy.id) return 'An id is required.';
+  const label = policy.name || policy.id;
+  if (typeof policy.name !== 'string') return `${label}: name must be text.`;
+  if (typeof policy.enabled !== 'boolean') return `${label}: enabled must be true or false.`;
+  for (const field of ['caller', 'tool', 'target'] as const) {
+    if (typeof policy[field] !== 'string' || !policy[field]!.trim()) return `${label}: ${field} is required (use * to match anything).`;
+  }
+  if (typeof policy.argPattern !== 'string') return `${label}: argPattern must be text.`;
+  try {
+    new RegExp(policy.argPattern, 'i');
+  } catch {
+    return `${label}: '${policy.argPattern}' is not a valid regular expression.`;
+  }
+  if (!['allow', 'deny', 'ask'].includes(policy.effect as string)) return `${label}: effect must be allow, deny or ask.`;
+  return null;
+}
+
+/**
+ * Serializes policies for export.
+ */
+export function exportPolicies(policies: readonly Policy[]): string {
+  return JSON.stringify({ format: POLICY_FILE_FORMAT, version: POLICY_FILE_VERSION, policies }, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses and validates an exported policy file. Missing fields get their
+ * defaults: enabled, matching any caller, tool and target.
+ * @throws If the file is not a valid policy file.
+ */
+export function parsePolicies(text: string): Policy[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== POLICY_FILE_FORMAT) throw new Error('The file is not a policy file.');
+  if (typeof data.version !== 'number' || data.version > POLICY_FILE_VERSION) {
+    throw new Error(`Unsupported policy file version: ${data.version}.`);
+  }
+  if (!Array.isArray(data.policies)) throw new Error('The file does not contain a policy list.');
+
+  return data.policies.map((value: unknown, i: number) => {
+    if (!isObject(value)) throw new Error(`Policy ${i + 1} is not an object.`);
+    const policy: Policy = {
+      id: value.id || crypto.randomUUID(),
+      name: value.name ?? '',
+      enabled: value.enabled ?? true,
+      caller: value.caller ?? '*',
+      tool: value.tool ?? '*',
+      target: value.target ?? '*',
+      argPattern: value.argPattern ?? '',
+      effect: value.effect,
+    };
+    const problem = validatePolicy(policy);
+    if (problem) throw new Error(`Policy ${i + 1}: ${problem}`);
+    return policy;
+  });
+}
@@ -0,0 +1,620 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI, Type } from "@google/genai";
+import type { Content, Part, Schema } from "@google/genai";
+import OpenAI from "openai";
+import type { ChatCompletionTool } from "openai/resources/chat/completions";
+import { attachmentText, attachmentUrl, resolveAttachments } from './attachments';
+import type { Attachment } from './attachments';
+import type { ChatHistory, GeminiMessage, GeminiPart, OpenAIMessage, TokenUsage } from './db';
+import { MOCK_SCRIPT } from './mock-fixtures';
+
+// A provider-neutral tool declaration. Parameters are plain JSON Schema;
+// each provider converts them into its own declaration format.
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export type JsonSchema = {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+};
+
+// A tool call requested by the model during a turn.
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  // Why `args` could not be read, when the model sent malformed arguments.
+  argsError?: string;
+}
+
+// The result of executing a tool call, sent back to the model.
+export interface ToolResult {
+  call: ToolCall;
+  content: string;
+}
+
+// What the caller sends into a chat turn. Attachments are sent after the
+// text, text files as text parts. Stored attachments stay references in
+// the chat's history; their content is only loaded for each request.
+export type ChatInput =
+  | { text?: string; attachments?: Attachment[] }
+  | { toolResults: ToolResult[] };
+
+// Events emitted while a turn streams in. `usage` comes once per turn,
+// after the text, when the provider reports it.
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; call: ToolCall }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface SendOptions {
+  tools?: ToolDeclaration[];
+  // Aborts the turn. The stream then throws the signal's reason.
+  signal?: AbortSignal;
+}
+
+/**
+ * A live conversation with a provider. The chat owns its history and
+ * keeps it in the provider's native format.
+ */
+export interface ProviderChat {
+  // The model answering this chat, used to price its usage.
+  readonly model: string;
+  /**
+   * Sends a turn and streams the response. The turn is added to the history
+   * once it completes; if it fails or is aborted, the history is left as it
+   * was.
+   */
+  sendMessageStream(input: ChatInput, options?: SendOptions): AsyncGenerator<ChatStreamEvent>;
+  /**
+   * Adds a turn to the history without sending it, e.g. one the operator
+   * stopped: its input, answered with `text`.
+   */
+  appendTurn(input: ChatInput, text: string): void;
+  getHistory(): ChatHistory;
+  setHistory(history: ChatHistory): void;
+}
+
+export interface ChatProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly model: string;
+  // The shape of the history this provider stores, used when rendering.
+  readonly format: 'gemini' | 'openai';
+  readonly available: boolean;
+  // Whether PDFs can be sent as data. Otherwise they are sent as their text.
+  readonly acceptsPdf: boolean;
+  /**
+   * Starts a chat.
+   * @param model Overrides the provider's default model for this chat.
+   */
+  createChat(systemPrompt: string, history?: ChatHistory, model?: string): ProviderChat;
+  /**
+   * Sends a one-shot prompt and returns the reply.
+   * @param signal Aborts the request; it then rejects with the signal's reason.
+   */
+  complete(systemPrompt: string, prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+// --- Registry ---
+
+const registry = new Map<string, ChatProvider>();
+
+/**
+ * Registers a provider. Registration order is the order shown in the
+ * provider selector.
+ */
+export function registerProvider(provider: ChatProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function getProvider(id: string): ChatProvider | undefined {
+  return registry.get(id);
+}
+
+export function listProviders(): ChatProvider[] {
+  return Array.from(registry.values());
+}
+
+// --- Gemini ---
+
+/**
+ * Converts a JSON Schema into Gemini's `Schema`, which uses the `Type` enum.
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const result: Schema = { type: schema.type.toUpperCase() as Type };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return result;
+}
+
+function toGeminiParts(input: ChatInput): GeminiPart[] {
+  const parts: GeminiPart[] = [];
+  if ('toolResults' in input) {
+    for (const result of input.toolResults) {
+      parts.push({ functionResponse: { id: result.call.id, name: result.call.name, response: { content: result.content } } });
+    }
+  } else {
+    if (input.text) parts.push({ text: input.text });
+    for (const attachment of input.attachments ?? []) {
+      if (attachment.text !== undefined) {
+        parts.push({ text: attachmentText(attachment) });
+      } else if (attachment.id) {
+        parts.push({ fileData: { mimeType: attachment.mimeType, fileUri: attachmentUrl(attachment), displayName: attachment.name } });
+      } else {
+        parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data ?? '' } });
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * Joins the model entries the SDK records for a streamed reply, one per
+ * chunk, into a single entry with the text of consecutive chunks joined.
+ */
+function mergeReplyChunks(replies: GeminiMessage[]): GeminiMessage[] {
+  const parts: GeminiPart[] = [];
+  const isPlainText = (part: GeminiPart | undefined) => part?.text !== undefined && Object.keys(part).length === 1;
+  for (const part of replies.flatMap(reply => reply.parts ?? [])) {
+    const last = parts[parts.length - 1];
+    if (isPlainText(part) && isPlainText(last)) {
+      parts[parts.length - 1] = { text: last.text + part.text! };
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.length > 0 ? [{ role: 'model', parts }] : [];
+}
+
+class GeminiChat implements ProviderChat {
+  private history: GeminiMessage[];
+
+  constructor(private ai: GoogleGenAI, readonly model: string, private systemPrompt: string, history?: ChatHistory) {
+    this.history = history ? [...history as GeminiMessage[]] : [];
+  }
+
+  async *sendMessageStream(input: ChatInput, options: SendOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const message = toGeminiParts(input);
+    // The SDK chat is created for this request only, from a copy of the
+    // history with the attachments' content put in.
+    const history = await resolveAttachments(this.history) as GeminiMessage[];
+    const [request] = await resolveAttachments([{ role: 'user', parts: message }]) as GeminiMessage[];
+    const chat = this.ai.chats.create({
+      model: this.model,
+      config: { systemInstruction: this.systemPrompt },
+      history: history as Content[],
+    });
+    const tools = options.tools?.length
+      ? [{ functionDeclarations: options.tools.map(t => ({ name: t.name, description: t.description, parameters: toGeminiSchema(t.parameters) })) }]
+      : undefined;
+
+    // Per-request config replaces the chat-level config, so the system
+    // instruction has to be repeated here. The chat only records the turn
+    // once the stream completes.
+    const stream = await chat.sendMessageStream({
+      message: request.parts as Part[],
+      config: { systemInstruction: this.systemPrompt, abortSignal: options.signal, ...(tools && { tools }) },
+    });
+
+    // Every chunk repeats the running totals, so only the last one counts.
+    let usage: TokenUsage | undefined;
+    for await (const chunk of stream) {
+      options.signal?.throwIfAborted();
+      if (chunk.text) {
+        yield { type: 'text', text: chunk.text };
+      }
+      for (const fc of chunk.functionCalls ?? []) {
+        yield {
+          type: 'toolCall',
+          call: { id: fc.id ?? crypto.randomUUID(), name: fc.name ?? '', args: fc.args ?? {} },
+        };
+      }
+      if (chunk.usageMetadata) {
+        usage = {
+          inputTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: (chunk.usageMetadata.candidatesTokenCount ?? 0) + (chunk.usageMetadata.thoughtsTokenCount ?? 0),
+        };
+      }
+    }
+    // Keep the model's reply, after the input as referenced.
+    const replies = chat.getHistory().slice(history.length + 1) as GeminiMessage[];
+    this.history = [...this.history, { role: 'user', parts: message }, ...mergeReplyChunks(replies)];
+    if (usage) yield { type: 'usage', usage };
+  }
+
+  appendTurn(input: ChatInput, text: string) {
+    this.history = [...this.history, { role: 'user', parts: toGeminiParts(input) }, { role: 'model', parts: [{ text }] }];
+  }
+
+  getHistory(): ChatHistory {
+    return this.history;
+  }
+
+  setHistory(history: ChatHistory) {
+    this.history = [...history as GeminiMessage[]];
+  }
+}
+
+export class GeminiProvider implements ChatProvider {
+  readonly format = 'gemini';
+  readonly acceptsPdf = true;
+  private ai: GoogleGenAI | null;
+
+  constructor(readonly id: string, readonly label: string, readonly model: string, apiKey: string | undefined) {
+    this.ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  }
+
+  get available() {
+    return this.ai !== null;
+  }
+
+  createChat(systemPrompt: string, history?: ChatHistory, model?: string): ProviderChat {
+    if (!this.ai) throw new Error(`${this.label} is not configured.`);
+    return new GeminiChat(this.ai, model || this.model, systemPrompt, history);
+  }
+
+  async complete(systemPrompt: string, prompt: string, signal?: AbortSignal): Promise<string> {
+    if (!this.ai) throw new Error(`${this.label} is not configured.`);
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: { systemInstruction: systemPrompt, abortSignal: signal },
+    });
+    return response.text ?? '';
+  }
+}
+
+// --- OpenAI and OpenAI-compatible endpoints ---
+
+function toOpenAIMessages(input: ChatInput): OpenAIMessage[] {
+  if ('toolResults' in input) {
+    return input.toolResults.map(result => ({ role: 'tool', tool_call_id: result.call.id, content: result.content }));
+  }
+  const contentParts: any[] = [];
+  if (input.text) contentParts.push({ type: 'text', text: input.text });
+  for (const attachment of input.attachments ?? []) {
+    if (attachment.text !== undefined) {
+      contentParts.push({ type: 'text', text: attachmentText(attachment) });
+    } else if (attachment.mimeType.startsWith('image/')) {
+      contentParts.push({ type: 'image_url', image_url: { url: attachmentUrl(attachment) } });
+    } else {
+      contentParts.push({ type: 'file', file: { filename: attachment.name, file_data: attachmentUrl(attachment) } });
+    }
+  }
+  const content = contentParts.length === 1 && contentParts[0].type === 'text' ? contentParts[0].text : contentParts;
+  return [{ role: 'user', content }];
+}
+
+class OpenAICompatibleChat implements ProviderChat {
+  private messages: OpenAIMessage[];
+
+  constructor(private client: OpenAI, readonly model: string, private supportsTools: boolean, systemPrompt: string, history?: ChatHistory) {
+    this.messages = history ? [...history as OpenAIMessage[]] : [{ role: 'system', content: systemPrompt }];
+  }
+
+  async *sendMessageStream(input: ChatInput, options: SendOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const turnStart = this.messages.length;
+    try {
+      yield* this.streamTurn(input, options);
+    } catch (error) {
+      this.messages.length = turnStart;
+      throw error;
+    }
+  }
+
+  private async *streamTurn(input: ChatInput, options: SendOptions): AsyncGenerator<ChatStreamEvent> {
+    this.messages.push(...toOpenAIMessages(input));
+
+    const tools: ChatCompletionTool[] | undefined = this.supportsTools && options.tools?.length
+      ? options.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+      : undefined;
+
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: await resolveAttachments(this.messages) as OpenAIMessage[],
+      stream: true,
+      tools,
+      tool_choice: tools ? 'auto' : undefined,
+      stream_options: { include_usage: true },
+    }, { signal: options.signal });
+
+    let aggregatedText = '';
+    let usage: TokenUsage | undefined;
+    const toolCalls: { id: string; type: 'function'; function: { name: string; arguments: string } }[] = [];
+
+    for await (const chunk of stream) {
+      options.signal?.throwIfAborted();
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        aggregatedText += delta.content;
+        yield { type: 'text', text: delta.content };
+      }
+      delta?.tool_calls?.forEach(tc => {
+        if (!toolCalls[tc.index]) { // New tool call
+          toolCalls[tc.index] = { id: tc.id ?? crypto.randomUUID(), type: 'function', function: { name: tc.function?.name ?? '', arguments: '' } };
+        }
+        if (tc.function?.arguments) {
+          toolCalls[tc.index].function.arguments += tc.function.arguments;
+        }
+      });
+      // Sent in a final chunk with no choices.
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    if (toolCalls.length > 0) {
+      this.messages.push({ role: 'assistant', content: aggregatedText || null, tool_calls: toolCalls });
+      for (const tc of toolCalls) {
+        // Local models often send malformed arguments. The call is still
+        // passed on, so the tool answers with an error instead of the whole
+        // turn failing.
+        let args: Record<string, any> = {};
+        let argsError: string | undefined;
+        try {
+          args = JSON.parse(tc.function.arguments || '{}');
+        } catch {
+          argsError = `Arguments are not valid JSON: ${tc.function.arguments}`;
+        }
+        yield { type: 'toolCall', call: { id: tc.id, name: tc.function.name, args, ...(argsError && { argsError }) } };
+      }
+    } else {
+      this.messages.push({ role: 'assistant', content: aggregatedText });
+    }
+    if (usage) yield { type: 'usage', usage };
+  }
+
+  appendTurn(input: ChatInput, text: string) {
+    this.messages.push(...toOpenAIMessages(input), { role: 'assistant', content: text });
+  }
+
+  getHistory(): ChatHistory {
+    return this.messages;
+  }
+
+  setHistory(history: ChatHistory) {
+    this.messages = [...history as OpenAIMessage[]];
+  }
+}
+
+export class OpenAICompatibleProvider implements ChatProvider {
+  readonly format = 'openai';
+  private client: OpenAI | null;
+  private supportsTools: boolean;
+  readonly acceptsPdf: boolean;
+
+  constructor(
+    readonly id: string,
+    readonly label: string,
+    readonly model: string,
+    options: { apiKey?: string; baseURL?: string; supportsTools?: boolean; acceptsPdf?: boolean },
+  ) {
+    // Local servers usually ignore the key, but the SDK requires one.
+    const apiKey = options.apiKey || (options.baseURL ? 'not-needed' : undefined);
+    this.client = apiKey
+      ? new OpenAI({ apiKey, baseURL: options.baseURL, dangerouslyAllowBrowser: true })
+      : null;
+    this.supportsTools = options.supportsTools ?? true;
+    this.acceptsPdf = options.acceptsPdf ?? false;
+  }
+
+  get available() {
+    return this.client !== null;
+  }
+
+  createChat(systemPrompt: string, history?: ChatHistory, model?: string): ProviderChat {
+    if (!this.client) throw new Error(`${this.label} is not configured.`);
+    return new OpenAICompatibleChat(this.client, model || this.model, this.supportsTools, systemPrompt, history);
+  }
+
+  async complete(systemPrompt: string, prompt: string, signal?: AbortSignal): Promise<string> {
+    if (!this.client) throw new Error(`${this.label} is not configured.`);
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: prompt },
+      ],
+    }, { signal });
+    return response.choices[0].message.content ?? '';
+  }
+}
+
+// --- Mock ---
+
+// One scripted model turn.
+export interface MockResponse {
+  // Streamed back chunk by chunk. `{{input}}` is replaced with the user's
+  // message and `{{toolResults}}` with the results of the previous tool calls.
+  text?: string;
+  toolCalls?: { name: string; args: Record<string, any> }[];
+  // Thrown after the text has been streamed.
+  error?: string;
+  // Latency before the first chunk, in milliseconds.
+  delayMs?: number;
+}
+
+export interface MockRule {
+  // Regular expression tested (case-insensitively) against the user's message.
+  match: string;
+  // Restricts the rule to one persona, matched against the system prompt.
+  agent?: string;
+  // The first response answers the user's message; each following one
+  // answers the next tool-result turn.
+  responses: MockResponse[];
+}
+
+export interface MockScript {
+  chunkSize: number;
+  chunkDelayMs: number;
+  rules: MockRule[];
+  fallback: MockResponse;
+}
+
+function findMockResponses(script: MockScript, systemPrompt: string, text: string): MockResponse[] {
+  const rule = script.rules.find(r =>
+    (!r.agent || systemPrompt.startsWith(`You are ${r.agent}`)) && new RegExp(r.match, 'i').test(text)
+  );
+  return rule ? [...rule.responses] : [script.fallback];
+}
+
+// Roughly four characters per token, as with most tokenizers on English.
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Waits like a slow endpoint, rejecting with the signal's reason if it aborts.
+function mockDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function fillMockTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (match, name) => vars[name] ?? match);
+}
+
+class MockChat implements ProviderChat {
+  private messages: OpenAIMessage[];
+  // Responses left over from the rule that answered the last user message.
+  private pending: MockResponse[] = [];
+
+  constructor(private script: MockScript, readonly model: string, private systemPrompt: string, history?: ChatHistory) {
+    this.messages = history ? [...history as OpenAIMessage[]] : [{ role: 'system', content: systemPrompt }];
+  }
+
+  async *sendMessageStream(input: ChatInput, options: SendOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const turnStart = this.messages.length;
+    try {
+      yield* this.streamTurn(input, options);
+    } catch (error) {
+      this.messages.length = turnStart;
+      throw error;
+    }
+  }
+
+  private async *streamTurn(input: ChatInput, options: SendOptions): AsyncGenerator<ChatStreamEvent> {
+    let response: MockResponse;
+    let vars: Record<string, string>;
+    if ('toolResults' in input) {
+      for (const result of input.toolResults) {
+        this.messages.push({ role: 'tool', tool_call_id: result.call.id, content: result.content });
+      }
+      response = this.pending.shift() ?? { text: '{{toolResults}}' };
+      vars = { toolResults: input.toolResults.map(r => r.content).join('\n\n') };
+    } else {
+      this.messages.push({ role: 'user', content: input.text ?? '' });
+      [response, ...this.pending] = findMockResponses(this.script, this.systemPrompt, input.text ?? '');
+      vars = { input: input.text ?? '' };
+    }
+
+    await mockDelay(response.delayMs ?? 0, options.signal);
+
+    const text = fillMockTemplate(response.text ?? '', vars);
+    for (let i = 0; i < text.length; i += this.script.chunkSize) {
+      if (i > 0) await mockDelay(this.script.chunkDelayMs, options.signal);
+      yield { type: 'text', text: text.slice(i, i + this.script.chunkSize) };
+    }
+
+    if (response.error) throw new Error(response.error);
+
+    // The whole history is resent on every turn, as with a real endpoint.
+    const inputTokens = this.messages.reduce((total, m) => total + estimateTokens(typeof m.content === 'string' ? m.content : JSON.stringify(m.content ?? '')), 0);
+
+    // Only call tools that were actually offered for this turn.
+    const offered = new Set(options.tools?.map(t => t.name));
+    const toolCalls: ToolCall[] = (response.toolCalls ?? [])
+      .filter(tc => offered.has(tc.name))
+      .map((tc, i) => ({ id: `mock-call-${this.messages.length}-${i}`, name: tc.name, args: tc.args }));
+
+    if (toolCalls.length > 0) {
+      this.messages.push({
+        role: 'assistant',
+        content: text || null,
+        tool_calls: toolCalls.map(tc => ({ id: tc.id, type: 'function', function: { name: tc.name, arguments: JSON.stringify(tc.args) } })),
+      });
+      for (const call of toolCalls) {
+        yield { type: 'toolCall', call };
+      }
+    } else {
+      this.messages.push({ role: 'assistant', content: text });
+    }
+    yield { type: 'usage', usage: { inputTokens, outputTokens: estimateTokens(text) } };
+  }
+
+  appendTurn(input: ChatInput, text: string) {
+    this.messages.push(...toOpenAIMessages(input), { role: 'assistant', content: text });
+  }
+
+  getHistory(): ChatHistory {
+    return this.messages;
+  }
+
+  setHistory(history: ChatHistory) {
+    this.messages = [...history as OpenAIMessage[]];
+  }
+}
+
+/**
+ * A deterministic, offline provider that replays a scripted fixture. Used
+ * for demos and for exercising the app without network access. Opt-in, so
+ * a missing key is never answered with scripted replies.
+ */
+export class MockProvider implements ChatProvider {
+  readonly format = 'openai';
+  readonly acceptsPdf = false;
+
+  constructor(readonly id: string, readonly label: string, readonly model: string, private script: MockScript, readonly available: boolean) {}
+
+  createChat(systemPrompt: string, history?: ChatHistory, model?: string): ProviderChat {
+    return new MockChat(this.script, model || this.model, systemPrompt, history);
+  }
+
+  async complete(systemPrompt: string, prompt: string, signal?: AbortSignal): Promise<string> {
+    const [response] = findMockResponses(this.script, systemPrompt, prompt);
+    await mockDelay(response.delayMs ?? 0, signal);
+    if (response.error) throw new Error(response.error);
+    return fillMockTemplate(response.text ?? '', { input: prompt });
+  }
+}
+
+// --- Built-in providers ---
+// API keys and endpoints are read from environment variables. These are
+// expected to be available in the `process.env` object in the build environment.
+
+registerProvider(new GeminiProvider('gemini', 'Gemini', 'gemini-2.5-flash', process.env.API_KEY));
+registerProvider(new OpenAICompatibleProvider('openai', 'OpenAI', 'gpt-4o-mini', { apiKey: process.env.OPENAI_API_KEY, acceptsPdf: true }));
+registerProvider(new OpenAICompatibleProvider('local', 'Local', process.env.LOCAL_LLM_MODEL || 'llama3.1', {
+  // Only enabled when an endpoint is configured, so a stray key never falls back to api.openai.com.
+  apiKey: process.env.LOCAL_LLM_BASE_URL ? process.env.LOCAL_LLM_API_KEY : undefined,
+  baseURL: process.env.LOCAL_LLM_BASE_URL,
+  supportsTools: process.env.LOCAL_LLM_TOOLS !== 'false',
+}));
+registerProvider(new MockProvider('mock', 'Mock', 'mock-script', MOCK_SCRIPT, process.env.MOCK_PROVIDER === 'true'));
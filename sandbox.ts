@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs JavaScript and TypeScript snippets for the `runCode` tool.
+//
+// Each run gets a fresh iframe sandboxed with only `allow-scripts`. Its
+// opaque origin keeps the snippet away from the app's DOM, IndexedDB and
+// cookies, and its Content-Security-Policy, which the worker inherits,
+// blocks every network request and script other than its own. The iframe
+// starts a Web Worker for the snippet, so a busy loop cannot freeze the
+// page and the worker can be terminated when time is up.
+
+export type CodeLanguage = 'javascript' | 'typescript';
+
+export interface SandboxOptions {
+  timeoutMs: number;
+  // Heap size at which the run is stopped. Best effort: it is only checked
+  // where the worker reports its heap usage, which browsers currently do
+  // not, so in practice the time limit is what bounds a run.
+  memoryLimitMb: number;
+  // Console output beyond this many characters is dropped.
+  maxOutputChars: number;
+  // Stops the run when aborted.
+  signal?: AbortSignal;
+}
+
+export interface ConsoleEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  text: string;
+}
+
+export interface RunCodeResult {
+  status: 'ok' | 'error' | 'timeout' | 'memory' | 'stopped';
+  logs: ConsoleEntry[];
+  // The snippet's return value, formatted for display.
+  value?: string;
+  error?: string;
+  durationMs: number;
+  truncated: boolean;
+}
+
+export const DEFAULT_SANDBOX_OPTIONS: SandboxOptions = {
+  timeoutMs: 5000,
+  memoryLimitMb: 128,
+  maxOutputChars: 10000,
+};
+
+// Loaded by the page on first use, only for TypeScript snippets. The
+// sandbox itself has no network access.
+const TRANSPILER_URL = 'https://esm.sh/sucrase@3.35.0';
+
+// Time allowed for the sandbox to start before the snippet's own time
+// limit begins.
+const STARTUP_TIMEOUT_MS = 15000;
+
+interface Transpiler {
+  transform(code: string, options: { transforms: string[]; disableESTransforms: boolean }): { code: string };
+}
+
+let transpiler: Promise<Transpiler> | undefined;
+
+// Runs inside the worker. Plain JavaScript, since it is loaded from a Blob.
+const WORKER_SOURCE = `
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker'];
+const AsyncFunction = (async () => {}).constructor;
+let memoryLimit = Infinity;
+
+function inspect(value, depth = 0, seen = new WeakSet()) {
+  if (typeof value === 'string') return depth > 0 ? JSON.stringify(value) : value;
+  if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+  if (typeof value === 'bigint') return value + 'n';
+  if (value === null || typeof value !== 'object') return String(value);
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  if (seen.has(value)) return '[Circular]';
+  if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]';
+  seen.add(value);
+  if (Array.isArray(value)) return '[' + value.map(v => inspect(v, depth + 1, seen)).join(', ') + ']';
+  if (value instanceof Map) return 'Map {' + [...value].map(([k, v]) => inspect(k, depth + 1, seen) + ' => ' + inspect(v, depth + 1, seen)).join(', ') + '}';
+  if (value instanceof Set) return 'Set {' + [...value].map(v => inspect(v, depth + 1, seen)).join(', ') + '}';
+  if (value instanceof Date) return value.toISOString();
+  const name = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : '';
+  return name + '{' + Object.entries(value).map(([k, v]) => k + ': ' + inspect(v, depth + 1, seen)).join(', ') + '}';
+}
+
+function checkMemory() {
+  const used = performance.memory ? performance.memory.usedJSHeapSize : 0;
+  if (used > memoryLimit) {
+    postMessage({ type: 'memory', error: 'Memory limit of ' + Math.round(memoryLimit / 1048576) + ' MB exceeded.' });
+    close();
+    throw new Error('Memory limit exceeded.');
+  }
+}
+
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  console[level] = (...args) => {
+    checkMemory();
+    postMessage({ type: 'console', level, text: args.map(a => inspect(a)).join(' ') });
+  };
+}
+
+// A single expression is returned as the value; otherwise the snippet is
+// the body of an async function and may use return and await.
+function compile(source) {
+  try {
+    return new AsyncFunction('return (' + source + '\\n);');
+  } catch {
+    return new AsyncFunction(source);
+  }
+}
+
+onmessage = async event => {
+  const { code, memoryLimitMb } = event.data;
+  memoryLimit = memoryLimitMb * 1048576;
+  let run;
+  try {
+    run = compile(code);
+  } catch (error) {
+    postMessage({ type: 'error', error: inspect(error) });
+    return;
+  }
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      Object.defineProperty(self, name, { value: undefined });
+    } catch {
+      // Not configurable in this browser; the policy still applies.
+    }
+  }
+  setInterval(checkMemory, 50);
+  postMessage({ type: 'started' });
+  try {
+    const value = await run();
+    postMessage({ type: 'done', value: value === undefined ? undefined : inspect(value, 1) });
+  } catch (error) {
+    postMessage({ type: 'error', error: inspect(error) });
+  }
+};
+`;
+
+// Lets the frame run its inline script and start the worker from a Blob,
+// and the worker compile the snippet; nothing else can be loaded.
+const FRAME_POLICY = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+// The sandboxed iframe's document. It owns the worker, enforces the time
+// limit and relays the worker's messages to the app.
+const FRAME_SOURCE = `<!DOCTYPE html><meta http-equiv="Content-Security-Policy" content="${FRAME_POLICY}"><script>
+addEventListener('message', event => {
+  if (event.source !== parent) return;
+  const url = URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  worker.onmessage = message => {
+    if (message.data.type === 'started') {
+      setTimeout(() => {
+        worker.terminate();
+        parent.postMessage({ type: 'timeout' }, '*');
+      }, event.data.timeoutMs);
+    }
+    parent.postMessage(message.data, '*');
+  };
+  worker.onerror = error => {
+    error.preventDefault();
+    parent.postMessage({ type: 'error', error: error.message || 'The sandbox worker stopped unexpectedly.' }, '*');
+  };
+  worker.postMessage(event.data);
+});
+parent.postMessage({ type: 'ready' }, '*');
+</script>`;
+
+/**
+ * Compiles a TypeScript snippet to JavaScript, loading the transpiler on
+ * first use.
+ */
+async function transpile(code: string): Promise<string> {
+  transpiler ??= import(/* @vite-ignore */ TRANSPILER_URL).catch(error => {
+    // Let the next run try again.
+    transpiler = undefined;
+    throw error;
+  });
+  const { transform } = await transpiler;
+  return transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+}
+
+/**
+ * Runs a snippet in a new sandbox and collects its console output and
+ * return value. Never rejects; failures are reported in the result.
+ */
+export async function runCode(code: string, language: CodeLanguage = 'javascript', options: Partial<SandboxOptions> = {}): Promise<RunCodeResult> {
+  const { timeoutMs, memoryLimitMb, maxOutputChars, signal } = { ...DEFAULT_SANDBOX_OPTIONS, ...options };
+  const stopped = (): RunCodeResult => ({ status: 'stopped', error: 'Stopped by the operator.', logs: [], durationMs: 0, truncated: false });
+
+  if (signal?.aborted) return stopped();
+  let source = code;
+  if (language === 'typescript') {
+    try {
+      source = await transpile(code);
+    } catch (error) {
+      return { status: 'error', error: error instanceof Error ? error.message : String(error), logs: [], durationMs: 0, truncated: false };
+    }
+    if (signal?.aborted) return stopped();
+  }
+
+  return new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.sandbox.add('allow-scripts');
+    frame.hidden = true;
+    frame.srcdoc = FRAME_SOURCE;
+
+    const logs: ConsoleEntry[] = [];
+    let outputChars = 0;
+    let truncated = false;
+    let startedAt = performance.now();
+
+    const finish = (result: Pick<RunCodeResult, 'status' | 'value' | 'error'>) => {
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      signal?.removeEventListener('abort', onAbort);
+      frame.remove(); // Also stops the worker
+      resolve({ ...result, logs, truncated, durationMs: performance.now() - startedAt });
+    };
+
+    // Backstop in case the iframe itself stops responding.
+    const startTimer = (ms: number) => setTimeout(() => finish({
+      status: 'timeout',
+      error: `Timed out after ${timeoutMs} ms.`,
+    }), ms);
+    let timer = startTimer(STARTUP_TIMEOUT_MS + timeoutMs);
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow) return;
+      const message = event.data;
+      switch (message.type) {
+        case 'ready':
+          frame.contentWindow!.postMessage({ code: source, timeoutMs, memoryLimitMb }, '*');
+          break;
+        case 'started':
+          startedAt = performance.now();
+          clearTimeout(timer);
+          timer = startTimer(timeoutMs + 1000);
+          break;
+        case 'console':
+          if (outputChars + message.text.length > maxOutputChars) {
+            truncated = true;
+          } else {
+            outputChars += message.text.length;
+            logs.push({ level: message.level, text: message.text });
+          }
+          break;
+        case 'done':
+          finish({ status: 'ok', value: message.value });
+          break;
+        case 'timeout':
+          finish({ status: 'timeout', error: `Timed out after ${timeoutMs} ms.` });
+          break;
+        case 'memory':
+          finish({ status: 'memory', error: message.error });
+          break;
+        case 'error':
+          finish({ status: 'error', error: message.error });
+          break;
+      }
+    };
+
+    const onAbort = () => finish({ status: 'stopped', error: 'Stopped by the operator.' });
+
+    window.addEventListener('message', onMessage);
+    signal?.addEventListener('abort', onAbort);
+    document.body.appendChild(frame);
+  });
+}
+
+/**
+ * Formats a run as terminal output. This text is both the tool response
+ * sent to the model and what the chat shows.
+ */
+export function formatRunResult(result: RunCodeResult): string {
+  const lines = [`[exit: ${result.status}, ${Math.round(result.durationMs)} ms]`];
+  for (const entry of result.logs) {
+    lines.push(entry.level === 'log' ? entry.text : `[${entry.level}] ${entry.text}`);
+  }
+  if (result.truncated) lines.push('[output truncated]');
+  if (result.value !== undefined) lines.push(`=> ${result.value}`);
+  if (result.error) lines.push(`Error: ${result.error}`);
+  return lines.join('\n');
+}
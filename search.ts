@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AgentTranscript, Conversation, GeminiMessage, OpenAIMessage } from './db';
+
+// One indexed history message. Stored in the `search_entries` store, keyed
+// by [conversationId, index], with a multi-entry index on `terms`.
+export interface SearchEntry {
+  conversationId: string;
+  // Position of the message in the conversation's history.
+  index: number;
+  persona: string;
+  provider: string;
+  role: 'user' | 'agent';
+  text: string;
+  // The distinct tokens of `text`.
+  terms: string[];
+}
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  persona?: string;
+  provider?: string;
+}
+
+// A piece of a result snippet; matches are highlighted.
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  entry: SearchEntry;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Splits text into lowercase word tokens.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function transcriptText(transcript: AgentTranscript): string[] {
+  return [transcript.response ?? '', ...transcript.children.flatMap(transcriptText)];
+}
+
+/**
+ * Returns the searchable text of a message: its text parts, plus sub-agent
+ * responses carried in function responses and tool messages. Nested
+ * delegations are taken from the stored transcripts.
+ */
+function messageText(message: GeminiMessage | OpenAIMessage, conversation: Conversation): string {
+  const texts: string[] = [];
+  const callIds: (string | undefined)[] = [];
+  if ('parts' in message && Array.isArray(message.parts)) {
+    for (const part of message.parts) {
+      if (part.text) texts.push(part.text);
+      if (part.functionResponse) {
+        texts.push(String(part.functionResponse.response?.content ?? ''));
+        callIds.push(part.functionResponse.id);
+      }
+    }
+  } else if ('content' in message) {
+    if (typeof message.content === 'string') {
+      texts.push(message.content);
+    } else if (Array.isArray(message.content)) {
+      texts.push(...message.content.map(p => p.type === 'text' ? p.text : ''));
+    }
+    if (message.role === 'tool') callIds.push(message.tool_call_id);
+  }
+  for (const id of callIds) {
+    const transcript = id ? conversation.transcripts?.[id] : undefined;
+    if (transcript) texts.push(...transcript.children.flatMap(transcriptText));
+  }
+  return texts.filter(Boolean).join('\n');
+}
+
+/**
+ * Builds the search entries for every message of a conversation that has
+ * text. System messages are skipped.
+ */
+export function toSearchEntries(conversation: Conversation): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  conversation.history.forEach((message, index) => {
+    if (message.role === 'system') return;
+    const text = messageText(message, conversation);
+    const terms = [...new Set(tokenize(text))];
+    if (terms.length === 0) return;
+    const isUser = message.role === 'user' && !('parts' in message && message.parts.some(p => p.functionResponse));
+    entries.push({
+      conversationId: conversation.id,
+      index,
+      persona: conversation.persona,
+      provider: conversation.provider,
+      role: isUser ? 'user' : 'agent',
+      text,
+      terms,
+    });
+  });
+  return entries;
+}
+
+/**
+ * Parses a search box query. Supports `"quoted phrases"` and
+ * `persona:<name>` / `provider:<id>` filters; other words are terms.
+ * Phrase words are also added to the terms, so the index can narrow
+ * the candidates.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], phrases: [] };
+  const words: string[] = [];
+  for (const [, phrase, key, value, word] of input.matchAll(/"([^"]*)"?|\b(persona|provider):(\S+)|(\S+)/gi)) {
+    if (phrase !== undefined) {
+      const normalized = tokenize(phrase).join(' ');
+      if (normalized) {
+        query.phrases.push(normalized);
+        words.push(normalized);
+      }
+    } else if (key) {
+      query[key.toLowerCase() as 'persona' | 'provider'] = value.toLowerCase();
+    } else if (word) {
+      words.push(word);
+    }
+  }
+  query.terms = [...new Set(tokenize(words.join(' ')))];
+  return query;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches the query in text: phrases with any whitespace between words,
+ * and terms as word prefixes.
+ */
+function matchPattern(query: SearchQuery): RegExp {
+  const alternatives = [
+    ...query.phrases.map(p => p.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+')),
+    ...query.terms.map(t => `${escapeRegExp(t)}[\\p{L}\\p{N}]*`),
+  ];
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+/**
+ * Cuts a snippet around the first match and marks every match in it.
+ */
+function buildSnippet(text: string, pattern: RegExp): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  pattern.lastIndex = 0;
+  const first = pattern.exec(flat)?.index ?? 0;
+  pattern.lastIndex = 0;
+
+  let start = Math.max(0, first - SNIPPET_CONTEXT);
+  let end = Math.min(flat.length, first + SNIPPET_CONTEXT * 2);
+  if (start > 0) start = flat.indexOf(' ', start) + 1 || start;
+  if (end < flat.length) end = flat.lastIndexOf(' ', end) > first ? flat.lastIndexOf(' ', end) : end;
+  const window = flat.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  let last = 0;
+  for (const match of window.matchAll(pattern)) {
+    if (match.index! > last) parts.push({ text: window.slice(last, match.index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), match: false });
+  if (end < flat.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/**
+ * Filters candidate entries against the whole query and ranks them. Exact
+ * term matches count more than prefix matches, repeated matches count with
+ * diminishing returns, and phrase matches get a bonus. Scores are damped
+ * for long messages so a short, focused answer ranks above a long one.
+ * @param candidates Entries that contain every query term, from the index.
+ */
+export function rankSearchEntries(candidates: SearchEntry[], query: SearchQuery, limit = 50): SearchHit[] {
+  const pattern = matchPattern(query);
+  const hits: SearchHit[] = [];
+
+  for (const entry of candidates) {
+    if (query.persona && entry.persona.toLowerCase() !== query.persona) continue;
+    if (query.provider && entry.provider.toLowerCase() !== query.provider) continue;
+
+    const normalized = tokenize(entry.text).join(' ');
+    if (!query.phrases.every(p => ` ${normalized} `.includes(` ${p} `))) continue;
+
+    const tokens = normalized.split(' ');
+    let score = query.phrases.length * 5;
+    for (const term of query.terms) {
+      const exact = tokens.filter(t => t === term).length;
+      const prefix = tokens.filter(t => t !== term && t.startsWith(term)).length;
+      if (exact + prefix === 0) {
+        score = -1;
+        break;
+      }
+      score += 1 + Math.log(1 + exact * 2 + prefix);
+    }
+    if (score < 0) continue;
+
+    hits.push({
+      entry,
+      score: score / Math.log(Math.E + tokens.length / 50),
+      snippet: buildSnippet(entry.text, pattern),
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as db from './db';
+import type { Persona, PersonaKey } from './personas';
+import type { ToolCall, ToolDeclaration } from './providers';
+
+// What every tool handler learns about its caller.
+export interface ToolCallContext {
+  personaKey: PersonaKey;
+}
+
+/**
+ * A tool the personas can call. It is declared once with a JSON schema;
+ * providers convert the declaration to their own format.
+ */
+export interface Tool<C extends ToolCallContext = ToolCallContext> extends ToolDeclaration {
+  // Shown in the Persona Editor.
+  label: string;
+  // Personas that get the tool unless their own `tools` list says
+  // otherwise. '*' gives it to every persona.
+  personas: PersonaKey[] | '*';
+  // Set when the handler shows its own progress in the chat and the call
+  // tree; other calls get a generic block.
+  rendersOwnOutput?: boolean;
+  /**
+   * Adjusts the declaration for a caller, e.g. to list the agents it may
+   * invoke. Returning null leaves the tool out of this turn.
+   */
+  declare?(context: C): ToolDeclaration | null;
+  /**
+   * Runs the call and returns the tool response for the model.
+   * @throws If the call fails; the error message is returned to the model.
+   */
+  handler(call: ToolCall, context: C): Promise<string>;
+}
+
+// --- Registry ---
+
+const registry = new Map<string, Tool<any>>();
+
+/**
+ * Registers a tool, replacing any tool with the same name. Registration
+ * order is the order the tools are declared to the model.
+ */
+export function registerTool<C extends ToolCallContext>(tool: Tool<C>) {
+  registry.set(tool.name, tool);
+}
+
+export function getTool(name: string): Tool<any> | undefined {
+  return registry.get(name);
+}
+
+export function listTools(): Tool<any>[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Whether a tool is in a persona's default allow-list.
+ */
+export function isDefaultTool(tool: Tool<any>, personaKey: PersonaKey): boolean {
+  return tool.personas === '*' || tool.personas.includes(personaKey);
+}
+
+/**
+ * Whether a persona may use a tool: its own `tools` list when it has one,
+ * otherwise the tool's default allow-list.
+ */
+export function isToolAllowed(tool: Tool<any>, persona: Persona): boolean {
+  return persona.tools ? persona.tools.includes(tool.name) : isDefaultTool(tool, persona.key);
+}
+
+/**
+ * Returns the declarations of the tools a caller may use this turn, or
+ * undefined if there are none.
+ */
+export function declareTools<C extends ToolCallContext>(persona: Persona, context: C): ToolDeclaration[] | undefined {
+  const declarations = listTools()
+    .filter(tool => isToolAllowed(tool, persona))
+    .map(tool => tool.declare ? tool.declare(context) : { name: tool.name, description: tool.description, parameters: tool.parameters })
+    .filter((declaration): declaration is ToolDeclaration => declaration !== null);
+  return declarations.length > 0 ? declarations : undefined;
+}
+
+// --- Calculator ---
+
+const CALCULATOR_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs, sqrt: Math.sqrt, cbrt: Math.cbrt, exp: Math.exp, ln: Math.log, log: Math.log10, log2: Math.log2,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  round: Math.round, floor: Math.floor, ceil: Math.ceil, min: Math.min, max: Math.max, pow: Math.pow,
+};
+
+const CALCULATOR_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates an arithmetic expression without `eval`. Supports + - * / %,
+ * ^ or ** for powers, parentheses, the constants pi and e, and common Math
+ * functions.
+ * @throws If the expression is malformed.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens: string[] = [];
+  const tokenPattern = /\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|\*\*|[-+*/%^(),]|[a-z_]\w*)\s*/iy;
+  while (tokenPattern.lastIndex < expression.length) {
+    const start = tokenPattern.lastIndex;
+    const match = tokenPattern.exec(expression);
+    if (!match) throw new Error(`Unexpected character '${expression[start]}' at position ${start + 1}.`);
+    tokens.push(match[1]);
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) throw new Error(`Expected '${token}'${position < tokens.length ? ` before '${tokens[position]}'` : ''}.`);
+    position++;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = tokens[position++] === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = tokens[position++];
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      position++;
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+  // Powers are right-associative and bind tighter than a leading minus.
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      position++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error('Unexpected end of expression.');
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in CALCULATOR_CONSTANTS) return CALCULATOR_CONSTANTS[name];
+    if (name in CALCULATOR_FUNCTIONS) {
+      expect('(');
+      const args = [parseSum()];
+      while (peek() === ',') {
+        position++;
+        args.push(parseSum());
+      }
+      expect(')');
+      return CALCULATOR_FUNCTIONS[name](...args);
+    }
+    throw new Error(`Unknown name '${token}'.`);
+  };
+
+  const value = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected '${tokens[position]}'.`);
+  return value;
+}
+
+registerTool({
+  name: 'calculator',
+  label: 'Calculator',
+  description: 'Evaluates an arithmetic expression exactly, e.g. "(12.5 * 4) ^ 2 / sqrt(16)". Supports + - * / % ^, parentheses, pi, e and the functions abs, sqrt, cbrt, exp, ln, log, log2, sin, cos, tan, asin, acos, atan, round, floor, ceil, min, max and pow.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression to evaluate.' },
+    },
+    required: ['expression'],
+  },
+  personas: '*',
+  async handler(call) {
+    const expression = String(call.args.expression ?? '');
+    const result = evaluateExpression(expression);
+    if (!Number.isFinite(result)) throw new Error(`'${expression}' has no finite result.`);
+    return `${expression} = ${result}`;
+  },
+});
+
+// --- Date and time ---
+
+registerTool({
+  name: 'getDateTime',
+  label: 'Date and time',
+  description: "Returns the current date and time, in the operator's time zone or in a given IANA time zone.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'An IANA time zone such as "Europe/Berlin". Defaults to the operator\'s.' },
+    },
+  },
+  personas: '*',
+  async handler(call) {
+    const now = new Date();
+    const timeZone = call.args.timeZone ? String(call.args.timeZone) : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    let formatted: string;
+    try {
+      formatted = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new Error(`Unknown time zone '${timeZone}'.`);
+    }
+    return [`Date and time: ${formatted}`, `Time zone: ${timeZone}`, `ISO 8601 (UTC): ${now.toISOString()}`].join('\n');
+  },
+});
+
+// --- Notes ---
+
+registerTool({
+  name: 'notes',
+  label: 'Notes',
+  description: "Keeps notes in the operator's browser, shared by all agents and conversations. Notes are identified by title; saving a note with an existing title replaces it.",
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', description: 'What to do.', enum: ['list', 'read', 'save', 'delete'] },
+      title: { type: 'string', description: 'The note title. Required except for list.' },
+      content: { type: 'string', description: 'The note text, for save.' },
+    },
+    required: ['action'],
+  },
+  personas: '*',
+  async handler(call) {
+    const action = String(call.args.action ?? '');
+    const title = String(call.args.title ?? '').trim();
+    if (action === 'list') {
+      const notes = await db.listNotes();
+      if (notes.length === 0) return 'There are no notes.';
+      return notes.map(note => `- ${note.title} (updated ${new Date(note.updatedAt).toISOString()})`).join('\n');
+    }
+    if (!['read', 'save', 'delete'].includes(action)) throw new Error(`Unknown action '${action}'. Use list, read, save or delete.`);
+    if (!title) throw new Error(`A title is required to ${action} a note.`);
+
+    if (action === 'read') {
+      const note = await db.getNote(title);
+      if (!note) throw new Error(`There is no note titled '${title}'.`);
+      return note.content;
+    }
+    if (action === 'save') {
+      await db.saveNote({ title, content: String(call.args.content ?? ''), updatedAt: Date.now() });
+      return `Saved note '${title}'.`;
+    }
+    if (!await db.getNote(title)) throw new Error(`There is no note titled '${title}'.`);
+    await db.deleteNote(title);
+    return `Deleted note '${title}'.`;
+  },
+});
+
+// --- Clipboard ---
+
+const MAX_CLIPBOARD_CHARS = 10000;
+
+registerTool({
+  name: 'readClipboard',
+  label: 'Clipboard reader',
+  description: "Reads the text on the operator's clipboard. The browser may ask the operator for permission.",
+  parameters: { type: 'object', properties: {} },
+  personas: ['Cecilia'],
+  async handler() {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`The clipboard could not be read: ${reason}`);
+    }
+    if (!text) return 'The clipboard is empty.';
+    return text.length > MAX_CLIPBOARD_CHARS
+      ? `${text.slice(0, MAX_CLIPBOARD_CHARS)}\n[clipboard truncated at ${MAX_CLIPBOARD_CHARS} characters]`
+      : text;
+  },
+});
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AgentTranscript, ModelUsage, TokenUsage } from './db';
+
+// Token accounting, prices and conversation budgets.
+
+// Price of a model in US dollars per million tokens.
+export interface ModelPrice {
+  // A model name. `*` matches any run of characters, e.g. 'gemini-2.5-pro*'.
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// A spending limit for each conversation. A limit of 0 is no limit.
+export interface Budget {
+  maxCostUsd: number;
+  maxTokens: number;
+  // Share of a limit at which the status bar starts warning.
+  warnAtPercent: number;
+  // What happens once a limit is reached: only warn, or refuse new
+  // messages and sub-agent calls.
+  action: 'warn' | 'block';
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  state: BudgetState;
+  // Describes the limit that was reached or is close, when not 'ok'.
+  message?: string;
+}
+
+export interface UsageCost {
+  cost: number;
+  // Models used without a price; their tokens are not in `cost`.
+  unpriced: string[];
+}
+
+// List prices at the time of writing. The operator can edit them in the
+// Usage dialog.
+export const DEFAULT_PRICES: readonly ModelPrice[] = [
+  { model: 'gemini-2.5-flash-lite*', inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  { model: 'gemini-2.5-flash*', inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  { model: 'gemini-2.5-pro*', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini*', inputPerMillion: 0.15, outputPerMillion: 0.60 },
+  { model: 'gpt-4o*', inputPerMillion: 2.50, outputPerMillion: 10 },
+  { model: 'gpt-4.1-mini*', inputPerMillion: 0.40, outputPerMillion: 1.60 },
+  { model: 'gpt-4.1*', inputPerMillion: 2, outputPerMillion: 8 },
+  // The mock provider's scripted model.
+  { model: 'mock-script', inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+export const DEFAULT_BUDGET: Budget = {
+  maxCostUsd: 0,
+  maxTokens: 0,
+  warnAtPercent: 80,
+  action: 'warn',
+};
+
+/**
+ * Adds a turn's usage to a per-model total, in place.
+ */
+export function addUsage(totals: ModelUsage, model: string, usage: TokenUsage) {
+  const entry = totals[model] ??= { inputTokens: 0, outputTokens: 0 };
+  entry.inputTokens += usage.inputTokens;
+  entry.outputTokens += usage.outputTokens;
+}
+
+/**
+ * Adds every model of `usage` to `totals`, in place.
+ */
+export function mergeUsage(totals: ModelUsage, usage: ModelUsage) {
+  for (const [model, entry] of Object.entries(usage)) {
+    addUsage(totals, model, entry);
+  }
+}
+
+/**
+ * Sums the usage of all models.
+ */
+export function totalTokens(usage: ModelUsage): TokenUsage {
+  const total = { inputTokens: 0, outputTokens: 0 };
+  for (const entry of Object.values(usage)) {
+    total.inputTokens += entry.inputTokens;
+    total.outputTokens += entry.outputTokens;
+  }
+  return total;
+}
+
+/**
+ * Sums the usage of a transcript and every call below it.
+ */
+export function transcriptUsage(transcript: AgentTranscript): ModelUsage {
+  const totals: ModelUsage = {};
+  mergeUsage(totals, transcript.usage ?? {});
+  for (const child of transcript.children) {
+    mergeUsage(totals, transcriptUsage(child));
+  }
+  return totals;
+}
+
+/**
+ * Matches a model name against a pattern in which `*` matches any run of
+ * characters. Case is ignored.
+ */
+export function matchesModel(pattern: string, model: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i').test(model);
+}
+
+/**
+ * Finds a model's price. Prices are tried in order and the first match wins.
+ */
+export function findPrice(prices: readonly ModelPrice[], model: string): ModelPrice | undefined {
+  return prices.find(price => matchesModel(price.model.trim(), model));
+}
+
+/**
+ * Prices per-model usage.
+ */
+export function usageCost(usage: ModelUsage, prices: readonly ModelPrice[]): UsageCost {
+  let cost = 0;
+  const unpriced: string[] = [];
+  for (const [model, entry] of Object.entries(usage)) {
+    const price = findPrice(prices, model);
+    if (!price) {
+      unpriced.push(model);
+      continue;
+    }
+    cost += (entry.inputTokens * price.inputPerMillion + entry.outputTokens * price.outputPerMillion) / 1e6;
+  }
+  return { cost, unpriced };
+}
+
+/**
+ * Formats a token count compactly, e.g. 950, 12.3k or 1.25M.
+ */
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1e6) return `${(count / 1000).toFixed(count < 10000 ? 2 : 1).replace(/\.?0+$/, '')}k`;
+  return `${(count / 1e6).toFixed(2).replace(/\.?0+$/, '')}M`;
+}
+
+/**
+ * Formats a cost in US dollars, keeping small amounts readable.
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Summarizes usage as e.g. "1.2k in · 340 out · $0.0012". Unpriced models
+ * are marked with a `+?` after the cost.
+ */
+export function formatUsage(usage: ModelUsage, prices: readonly ModelPrice[]): string {
+  const tokens = totalTokens(usage);
+  const { cost, unpriced } = usageCost(usage, prices);
+  return `${formatTokens(tokens.inputTokens)} in · ${formatTokens(tokens.outputTokens)} out · ${formatCost(cost)}${unpriced.length > 0 ? '+?' : ''}`;
+}
+
+/**
+ * Compares a conversation's usage with the budget.
+ */
+export function checkBudget(budget: Budget, usage: ModelUsage, prices: readonly ModelPrice[]): BudgetStatus {
+  const tokens = totalTokens(usage);
+  const limits = [
+    { limit: budget.maxCostUsd, used: usageCost(usage, prices).cost, label: 'cost', format: formatCost },
+    { limit: budget.maxTokens, used: tokens.inputTokens + tokens.outputTokens, label: 'token', format: formatTokens },
+  ].filter(entry => entry.limit > 0);
+
+  const exceeded = limits.find(entry => entry.used >= entry.limit);
+  if (exceeded) {
+    return { state: 'exceeded', message: `The ${exceeded.label} budget of ${exceeded.format(exceeded.limit)} per conversation is used up (${exceeded.format(exceeded.used)}).` };
+  }
+  const close = limits.find(entry => entry.used >= entry.limit * budget.warnAtPercent / 100);
+  if (close) {
+    const percent = Math.floor(close.used / close.limit * 100);
+    return { state: 'warning', message: `${percent}% of the ${close.label} budget of ${close.format(close.limit)} per conversation is used.` };
+  }
+  return { state: 'ok' };
+}
+
+/**
+ * Checks a price's fields, returning a description of the first problem or
+ * null if it is valid.
+ */
+export function validatePrice(price: Partial<ModelPrice>): string | null {
+  if (typeof price.model !== 'string' || !price.model.trim()) return 'Every price needs a model name.';
+  for (const field of ['inputPerMillion', 'outputPerMillion'] as const) {
+    const value = price[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return `${price.model}: prices must be zero or more.`;
+  }
+  return null;
+}
+
+/**
+ * Checks the budget's fields, returning a description of the first problem
+ * or null if it is valid.
+ */
+export function validateBudget(budget: Partial<Budget>): string | null {
+  for (const field of ['maxCostUsd', 'maxTokens'] as const) {
+    const value = budget[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return 'Budget limits must be zero (no limit) or more.';
+  }
+  const percent = budget.warnAtPercent;
+  if (typeof percent !== 'number' || !(percent > 0 && percent <= 100)) return 'The warning threshold must be between 1 and 100 percent.';
+  if (budget.action !== 'warn' && budget.action !== 'block') return 'The budget action must be warn or block.';
+  return null;
+}
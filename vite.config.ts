@@ -6,7 +6,17 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.LOCAL_LLM_BASE_URL': JSON.stringify(env.LOCAL_LLM_BASE_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL),
+        'process.env.LOCAL_LLM_API_KEY': JSON.stringify(env.LOCAL_LLM_API_KEY),
+        'process.env.LOCAL_LLM_TOOLS': JSON.stringify(env.LOCAL_LLM_TOOLS),
+        'process.env.MOCK_PROVIDER': JSON.stringify(env.MOCK_PROVIDER),
+        'process.env.MAX_TOOL_ITERATIONS': JSON.stringify(env.MAX_TOOL_ITERATIONS),
+        'process.env.MAX_DELEGATION_DEPTH': JSON.stringify(env.MAX_DELEGATION_DEPTH),
+        'process.env.SANDBOX_TIMEOUT_MS': JSON.stringify(env.SANDBOX_TIMEOUT_MS),
+        'process.env.SANDBOX_MEMORY_MB': JSON.stringify(env.SANDBOX_MEMORY_MB)
       },
       resolve: {
         alias: {
@@ -0,0 +1,380 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The desktop's window manager: dragging, resizing, focus order, minimizing
+// to the taskbar, maximizing, and cascading or tiling the open windows.
+
+// Where a window sits on the desktop, in pixels, and its state. A maximized
+// window keeps the bounds it is restored to.
+export interface WindowLayout {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  minimized: boolean;
+  maximized: boolean;
+}
+
+export interface WindowOptions {
+  id: string;
+  // Shown on the window's taskbar button.
+  title: string;
+  // Dragging this moves the window. Buttons inside it do not start a drag.
+  titleBar: HTMLElement;
+  // Receives the minimize, maximize and close buttons.
+  controls: HTMLElement;
+  // Windows without a close button can only be minimized.
+  closable?: boolean;
+  // Called once the window is closed and its element removed.
+  onClose?(): void;
+}
+
+interface ManagedWindow {
+  options: WindowOptions;
+  element: HTMLElement;
+  taskbarButton: HTMLButtonElement;
+  maximizeButton: HTMLButtonElement;
+  // Removes the listeners, buttons and edges added to the element.
+  cleanup: AbortController;
+  decorations: HTMLElement[];
+  // Bounds to go back to when a maximized window is restored.
+  restoreBounds?: Bounds;
+}
+
+interface Bounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const MIN_WIDTH = 320;
+const MIN_HEIGHT = 200;
+// Offset between windows when cascading.
+const CASCADE_STEP = 30;
+// Resize handles along each side and corner.
+const EDGES = ['n', 'e', 's', 'w', 'ne', 'nw', 'se', 'sw'];
+
+export class WindowManager {
+  private windows = new Map<string, ManagedWindow>();
+  // The z-index given to the next window brought to the front.
+  private nextZ = 10;
+
+  /**
+   * @param taskbar The bar along the bottom; windows stay above it.
+   * @param taskbarButtons Receives a button per window.
+   * @param onChange Called whenever the layout changes, e.g. to save it.
+   */
+  constructor(private taskbar: HTMLElement, private taskbarButtons: HTMLElement, private onChange: () => void) {}
+
+  /**
+   * Manages a window element already on the page. It keeps its place on
+   * screen, unless `layout` gives another.
+   */
+  add(element: HTMLElement, options: WindowOptions, layout?: WindowLayout) {
+    if (this.windows.has(options.id)) this.close(options.id);
+    const cleanup = new AbortController();
+    const { signal } = cleanup;
+
+    // Measured once shown as a window: hidden elements have no size.
+    element.classList.add('app-window');
+    const bounds = this.clamp(layout ?? this.boundsOf(element));
+    // Positioned from here on by left/top, not by a centering transform.
+    element.style.transition = 'none';
+    element.style.transform = 'none';
+    this.setBounds(element, bounds);
+
+    const minimizeButton = this.controlButton('&#x2212;', 'Minimize Window', () => this.minimize(options.id));
+    const maximizeButton = this.controlButton('&#x25A1;', 'Maximize Window', () => this.toggleMaximize(options.id));
+    const decorations: HTMLElement[] = [minimizeButton, maximizeButton];
+    if (options.closable) {
+      decorations.push(this.controlButton('&#x2715;', 'Close Window', () => this.close(options.id)));
+    }
+    options.controls.append(...decorations);
+    for (const edge of EDGES) {
+      const handle = document.createElement('div');
+      handle.className = `window-edge window-edge-${edge}`;
+      handle.addEventListener('mousedown', event => this.startResize(options.id, edge, event), { signal });
+      element.appendChild(handle);
+      decorations.push(handle);
+    }
+
+    const taskbarButton = document.createElement('button');
+    taskbarButton.type = 'button';
+    taskbarButton.className = 'taskbar-button';
+    taskbarButton.textContent = options.title;
+    taskbarButton.title = options.title;
+    taskbarButton.addEventListener('click', () => this.handleTaskbarClick(options.id));
+    this.taskbarButtons.appendChild(taskbarButton);
+
+    element.addEventListener('mousedown', () => this.focus(options.id), { capture: true, signal });
+    options.titleBar.addEventListener('mousedown', event => this.startDrag(options.id, event), { signal });
+    options.titleBar.addEventListener('dblclick', event => {
+      if (!(event.target as HTMLElement).closest('button')) this.toggleMaximize(options.id);
+    }, { signal });
+
+    this.windows.set(options.id, { options, element, taskbarButton, maximizeButton, cleanup, decorations });
+    if (layout?.maximized) this.toggleMaximize(options.id);
+    if (layout?.minimized) {
+      this.minimize(options.id);
+    } else {
+      this.focus(options.id);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.windows.has(id);
+  }
+
+  setTitle(id: string, title: string) {
+    const win = this.windows.get(id);
+    if (!win) return;
+    win.options.title = title;
+    win.taskbarButton.textContent = title;
+    win.taskbarButton.title = title;
+  }
+
+  /**
+   * Brings a window to the front, restoring it if it is minimized.
+   */
+  focus(id: string) {
+    const win = this.windows.get(id);
+    if (!win || this.isFocused(win)) return;
+    win.element.classList.remove('minimized');
+    win.element.style.zIndex = String(this.nextZ++);
+    for (const other of this.windows.values()) {
+      const focused = other === win;
+      other.element.classList.toggle('focused', focused);
+      other.taskbarButton.setAttribute('aria-pressed', String(focused));
+    }
+    this.onChange();
+  }
+
+  /**
+   * Hides a window to its taskbar button and focuses the next one down.
+   */
+  minimize(id: string) {
+    const win = this.windows.get(id);
+    if (!win) return;
+    win.element.classList.add('minimized');
+    win.element.classList.remove('focused');
+    win.taskbarButton.setAttribute('aria-pressed', 'false');
+    const next = this.stackOrder().filter(other => !other.element.classList.contains('minimized')).pop();
+    if (next) {
+      this.focus(next.options.id);
+    } else {
+      this.onChange();
+    }
+  }
+
+  /**
+   * Maximizes a window over the desktop, or restores it to where it was.
+   */
+  toggleMaximize(id: string) {
+    const win = this.windows.get(id);
+    if (!win) return;
+    const maximized = !win.element.classList.contains('maximized');
+    if (maximized) {
+      win.restoreBounds = this.boundsOf(win.element);
+    } else if (win.restoreBounds) {
+      this.setBounds(win.element, win.restoreBounds);
+    }
+    win.element.classList.toggle('maximized', maximized);
+    win.maximizeButton.innerHTML = maximized ? '&#x2929;' : '&#x25A1;';
+    win.maximizeButton.setAttribute('aria-label', maximized ? 'Restore Window' : 'Maximize Window');
+    this.onChange();
+  }
+
+  /**
+   * Removes a window from the desktop and its element from the page.
+   */
+  close(id: string) {
+    const win = this.windows.get(id);
+    if (!win) return;
+    this.windows.delete(id);
+    win.cleanup.abort();
+    win.decorations.forEach(decoration => decoration.remove());
+    win.taskbarButton.remove();
+    win.element.classList.remove('app-window', 'focused', 'minimized', 'maximized');
+    win.element.remove();
+    win.options.onClose?.();
+    const next = this.stackOrder().filter(other => !other.element.classList.contains('minimized')).pop();
+    if (next) {
+      this.focus(next.options.id);
+    } else {
+      this.onChange();
+    }
+  }
+
+  /**
+   * Stacks the open windows from the top left, each offset from the last,
+   * keeping their focus order.
+   */
+  cascade() {
+    const visible = this.visibleWindows();
+    const desktop = this.desktopBounds();
+    const width = Math.min(900, desktop.width - CASCADE_STEP * visible.length);
+    const height = Math.min(650, desktop.height - CASCADE_STEP * visible.length);
+    visible.forEach((win, i) => {
+      this.unmaximize(win);
+      this.setBounds(win.element, this.clamp({ left: CASCADE_STEP * (i + 1), top: CASCADE_STEP * (i + 1), width, height }));
+    });
+    this.onChange();
+  }
+
+  /**
+   * Arranges the open windows side by side in a grid that fills the desktop.
+   */
+  tile() {
+    const visible = this.visibleWindows();
+    if (visible.length === 0) return;
+    const desktop = this.desktopBounds();
+    const columns = Math.ceil(Math.sqrt(visible.length));
+    const rows = Math.ceil(visible.length / columns);
+    const width = Math.floor(desktop.width / columns);
+    const height = Math.floor(desktop.height / rows);
+    visible.forEach((win, i) => {
+      this.unmaximize(win);
+      this.setBounds(win.element, { left: (i % columns) * width, top: Math.floor(i / columns) * height, width, height });
+    });
+    this.onChange();
+  }
+
+  /**
+   * Returns the layout of the open windows, back to front.
+   */
+  layout(): WindowLayout[] {
+    return this.stackOrder().map(win => ({
+      id: win.options.id,
+      ...(win.element.classList.contains('maximized') && win.restoreBounds ? win.restoreBounds : this.boundsOf(win.element)),
+      minimized: win.element.classList.contains('minimized'),
+      maximized: win.element.classList.contains('maximized'),
+    }));
+  }
+
+  // --- Private helpers ---
+
+  private controlButton(symbol: string, label: string, action: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.innerHTML = symbol;
+    button.setAttribute('aria-label', label);
+    button.title = label.replace(' Window', '');
+    button.addEventListener('click', action);
+    return button;
+  }
+
+  private handleTaskbarClick(id: string) {
+    const win = this.windows.get(id)!;
+    if (this.isFocused(win)) {
+      this.minimize(id);
+    } else {
+      this.focus(id);
+    }
+  }
+
+  private isFocused(win: ManagedWindow): boolean {
+    return win.element.classList.contains('focused') && !win.element.classList.contains('minimized');
+  }
+
+  // Windows from the back to the front.
+  private stackOrder(): ManagedWindow[] {
+    return Array.from(this.windows.values()).sort((a, b) => Number(a.element.style.zIndex) - Number(b.element.style.zIndex));
+  }
+
+  private visibleWindows(): ManagedWindow[] {
+    return this.stackOrder().filter(win => !win.element.classList.contains('minimized'));
+  }
+
+  private unmaximize(win: ManagedWindow) {
+    if (win.element.classList.contains('maximized')) this.toggleMaximize(win.options.id);
+  }
+
+  // The area windows may cover: the viewport above the taskbar.
+  private desktopBounds(): Bounds {
+    return { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight - this.taskbar.offsetHeight };
+  }
+
+  private boundsOf(element: HTMLElement): Bounds {
+    const rect = element.getBoundingClientRect();
+    return { left: Math.round(rect.left), top: Math.round(rect.top), width: Math.round(rect.width), height: Math.round(rect.height) };
+  }
+
+  private setBounds(element: HTMLElement, bounds: Bounds) {
+    element.style.left = `${bounds.left}px`;
+    element.style.top = `${bounds.top}px`;
+    element.style.width = `${bounds.width}px`;
+    element.style.height = `${bounds.height}px`;
+  }
+
+  // Shrinks bounds to fit the desktop and moves them onto it.
+  private clamp(bounds: Bounds): Bounds {
+    const desktop = this.desktopBounds();
+    const width = Math.max(MIN_WIDTH, Math.min(bounds.width, desktop.width));
+    const height = Math.max(MIN_HEIGHT, Math.min(bounds.height, desktop.height));
+    return {
+      width,
+      height,
+      left: Math.max(0, Math.min(bounds.left, desktop.width - width)),
+      top: Math.max(0, Math.min(bounds.top, desktop.height - height)),
+    };
+  }
+
+  /**
+   * Follows the mouse until the button is released, then reports the
+   * layout change.
+   */
+  private track(event: MouseEvent, cursor: string, onMove: (dx: number, dy: number) => void) {
+    event.preventDefault();
+    const startX = event.clientX;
+    const startY = event.clientY;
+    document.body.style.userSelect = 'none';
+    document.body.style.cursor = cursor;
+    const onMouseMove = (moveEvent: MouseEvent) => onMove(moveEvent.clientX - startX, moveEvent.clientY - startY);
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.body.style.userSelect = '';
+      document.body.style.cursor = '';
+      this.onChange();
+    }, { once: true });
+  }
+
+  private startDrag(id: string, event: MouseEvent) {
+    const win = this.windows.get(id)!;
+    if (event.button !== 0 || (event.target as HTMLElement).closest('button, select, input')) return;
+    if (win.element.classList.contains('maximized')) return;
+    const start = this.boundsOf(win.element);
+    this.track(event, 'grabbing', (dx, dy) => {
+      this.setBounds(win.element, this.clamp({ ...start, left: start.left + dx, top: start.top + dy }));
+    });
+  }
+
+  private startResize(id: string, edge: string, event: MouseEvent) {
+    const win = this.windows.get(id)!;
+    if (event.button !== 0 || win.element.classList.contains('maximized')) return;
+    event.stopPropagation();
+    const start = this.boundsOf(win.element);
+    const desktop = this.desktopBounds();
+    const cursor = getComputedStyle(event.target as HTMLElement).cursor;
+    this.track(event, cursor, (dx, dy) => {
+      let { left, top, width, height } = start;
+      if (edge.includes('e')) width = Math.min(start.width + dx, desktop.width - left);
+      if (edge.includes('s')) height = Math.min(start.height + dy, desktop.height - top);
+      if (edge.includes('w')) {
+        const right = start.left + start.width;
+        left = Math.max(0, Math.min(start.left + dx, right - MIN_WIDTH));
+        width = right - left;
+      }
+      if (edge.includes('n')) {
+        const bottom = start.top + start.height;
+        top = Math.max(0, Math.min(start.top + dy, bottom - MIN_HEIGHT));
+        height = bottom - top;
+      }
+      this.setBounds(win.element, { left, top, width: Math.max(MIN_WIDTH, width), height: Math.max(MIN_HEIGHT, height) });
+    });
+  }
+}
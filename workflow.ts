@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Plan-and-execute workflows: an orchestrator persona breaks a task into
+// steps for other agents, the operator reviews the plan, and the steps run
+// in dependency order, independent ones in parallel, each getting the
+// outputs of the steps it depends on. The orchestrator then writes the
+// report from their results.
+
+export type StepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface PlanStep {
+  id: string;
+  title: string;
+  // The name of the persona that carries the step out.
+  agent: string;
+  task: string;
+  // Ids of the steps whose outputs this one needs.
+  dependsOn: string[];
+  // What the step should hand on, as the planner described it.
+  expectedOutput: string;
+  status: StepStatus;
+  attempts: number;
+  output?: string;
+  // Why the last attempt failed.
+  error?: string;
+}
+
+export interface Plan {
+  task: string;
+  // What the finished workflow delivers.
+  goal: string;
+  steps: PlanStep[];
+}
+
+// The outcome of one attempt at a step: its output, or the error.
+export interface StepResult {
+  ok: boolean;
+  output: string;
+}
+
+// An agent a step can be given to.
+export interface PlanAgent {
+  name: string;
+  role: string;
+}
+
+export const MAX_PLAN_STEPS = 10;
+// How often a failed step is tried again before it counts as failed.
+export const STEP_RETRIES = 1;
+
+// --- Prompts ---
+
+/**
+ * Asks the orchestrator for a plan, as JSON, for `task`.
+ */
+export function planningPrompt(task: string, agents: PlanAgent[]): string {
+  return [
+    'Plan this task as a workflow for your team of agents.',
+    '',
+    `TASK:\n${task}`,
+    '',
+    'AGENTS:',
+    ...agents.map(agent => `- ${agent.name}: ${agent.role}`),
+    '',
+    `Break the task into at most ${MAX_PLAN_STEPS} steps and give each step to the agent best suited to it. ` +
+      'A step may depend on earlier steps whose outputs it needs. Steps that do not depend on each other run in parallel, ' +
+      'so only add the dependencies that are needed. Do not carry out the steps yourself: you will write the final report from their outputs.',
+    '',
+    'Reply with JSON only, in this form:',
+    '{"goal": "what the finished workflow delivers", "steps": [{"id": "s1", "title": "short title", "agent": "agent name", ' +
+      '"task": "what the agent should do", "dependsOn": [], "expectedOutput": "what the step hands on"}]}',
+  ].join('\n');
+}
+
+/**
+ * The message a step's agent gets: its task and the outputs of the steps it
+ * depends on.
+ */
+export function stepPrompt(plan: Plan, step: PlanStep): string {
+  const inputs = plan.steps.filter(other => step.dependsOn.includes(other.id));
+  return [
+    'You are working on one step of a larger plan.',
+    '',
+    `OVERALL TASK:\n${plan.task}`,
+    '',
+    `YOUR STEP (${step.id}): ${step.title}\n${step.task}`,
+    '',
+    `EXPECTED OUTPUT:\n${step.expectedOutput || 'Whatever the next steps need.'}`,
+    ...(inputs.length > 0 ? ['', 'OUTPUTS OF EARLIER STEPS:', ...inputs.map(input => `[${input.id}] ${input.title} (${input.agent}):\n${input.output ?? ''}`)] : []),
+    '',
+    'Reply with the output of your step only.',
+  ].join('\n');
+}
+
+/**
+ * Asks the orchestrator for the final report, from every step's result.
+ */
+export function synthesisPrompt(plan: Plan): string {
+  const result = (step: PlanStep) => {
+    if (step.status === 'done') return step.output ?? '';
+    if (step.status === 'failed') return `FAILED: ${step.error ?? 'unknown error'}`;
+    return 'SKIPPED: a step it depends on did not finish.';
+  };
+  return [
+    'Write the final report of this workflow.',
+    '',
+    `TASK:\n${plan.task}`,
+    '',
+    `GOAL:\n${plan.goal}`,
+    '',
+    'STEP RESULTS:',
+    ...plan.steps.map(step => `[${step.id}] ${step.title} (${step.agent}):\n${result(step)}`),
+    '',
+    'Combine the results into one report for the operator that meets the goal. Say which steps failed or were skipped and what that leaves open.',
+  ].join('\n');
+}
+
+// --- Plans ---
+
+/**
+ * Checks a plan, returning a description of the first problem or null if
+ * it can run: every step has a unique id, a task and a known agent, and
+ * its dependencies exist and do not form a cycle.
+ * @param agents The names steps may be given to.
+ */
+export function validatePlan(plan: Plan, agents: string[]): string | null {
+  if (plan.steps.length === 0) return 'The plan has no steps.';
+  if (plan.steps.length > MAX_PLAN_STEPS) return `A plan can have at most ${MAX_PLAN_STEPS} steps.`;
+  const ids = new Set<string>();
+  for (const step of plan.steps) {
+    if (!step.id) return 'Every step needs an id.';
+    if (ids.has(step.id)) return `There is more than one step ${step.id}.`;
+    ids.add(step.id);
+    if (!step.task.trim()) return `Step ${step.id} has no task.`;
+    if (!agents.includes(step.agent)) return `Step ${step.id}: unknown agent '${step.agent}'. Choose from ${agents.join(', ')}.`;
+  }
+  for (const step of plan.steps) {
+    for (const id of step.dependsOn) {
+      if (id === step.id) return `Step ${step.id} depends on itself.`;
+      if (!ids.has(id)) return `Step ${step.id} depends on ${id}, which is not in the plan.`;
+    }
+  }
+  // Repeatedly take out the steps whose dependencies are all taken out;
+  // whatever is left depends on itself through a cycle.
+  const resolved = new Set<string>();
+  let remaining = plan.steps;
+  while (remaining.length > 0) {
+    const ready = remaining.filter(step => step.dependsOn.every(id => resolved.has(id)));
+    if (ready.length === 0) return `Steps ${remaining.map(step => step.id).join(', ')} depend on each other in a cycle.`;
+    ready.forEach(step => resolved.add(step.id));
+    remaining = remaining.filter(step => !resolved.has(step.id));
+  }
+  return null;
+}
+
+/**
+ * Reads the plan in an orchestrator's reply. The JSON may be wrapped in a
+ * code fence or surrounded by text. Agent names are matched regardless of
+ * case.
+ * @throws If the reply holds no plan or the plan cannot run.
+ */
+export function parsePlan(text: string, task: string, agents: string[]): Plan {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  let data: unknown;
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('The reply does not contain a plan in JSON.');
+  }
+  if (typeof data !== 'object' || data === null || !Array.isArray((data as { steps?: unknown }).steps)) {
+    throw new Error('The plan does not contain a list of steps.');
+  }
+  const { goal, steps } = data as { goal?: unknown; steps: unknown[] };
+  const plan: Plan = {
+    task,
+    goal: typeof goal === 'string' ? goal : task,
+    steps: steps.map((value, i) => {
+      const step = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+      const agent = String(step.agent ?? '');
+      return {
+        id: String(step.id ?? `s${i + 1}`).trim(),
+        title: String(step.title ?? `Step ${i + 1}`),
+        agent: agents.find(name => name.toLowerCase() === agent.toLowerCase()) ?? agent,
+        task: String(step.task ?? ''),
+        dependsOn: Array.isArray(step.dependsOn) ? step.dependsOn.map(String) : [],
+        expectedOutput: String(step.expectedOutput ?? ''),
+        status: 'pending',
+        attempts: 0,
+      };
+    }),
+  };
+  const problem = validatePlan(plan, agents);
+  if (problem) throw new Error(problem);
+  return plan;
+}
+
+/**
+ * Returns an id for a new step that no step in the plan has yet.
+ */
+export function nextStepId(plan: Plan): string {
+  let n = plan.steps.length + 1;
+  while (plan.steps.some(step => step.id === `s${n}`)) n++;
+  return `s${n}`;
+}
+
+// --- Execution ---
+
+/**
+ * Carries out a plan's pending steps. Each starts once the steps it depends
+ * on are done, independent ones in parallel. A failed step is tried again
+ * up to `retries` times; if it still fails, the steps that depend on it are
+ * skipped while the others go on. Once `signal` aborts, no further step
+ * starts or is retried.
+ * @param runStep Makes one attempt at a step.
+ * @param onUpdate Called whenever a step's status or attempt changes.
+ */
+export async function executePlan(
+  plan: Plan,
+  runStep: (step: PlanStep) => Promise<StepResult>,
+  options: { signal: AbortSignal; retries: number; onUpdate: (step: PlanStep) => void },
+): Promise<void> {
+  const stepsById = new Map(plan.steps.map(step => [step.id, step]));
+  const setStatus = (step: PlanStep, status: StepStatus) => {
+    step.status = status;
+    options.onUpdate(step);
+  };
+
+  const carryOut = async (step: PlanStep) => {
+    setStatus(step, 'running');
+    for (;;) {
+      step.attempts++;
+      if (step.attempts > 1) options.onUpdate(step);
+      let result: StepResult;
+      try {
+        result = await runStep(step);
+      } catch (error) {
+        result = { ok: false, output: error instanceof Error ? error.message : String(error) };
+      }
+      if (result.ok) {
+        step.output = result.output;
+        step.error = undefined;
+        setStatus(step, 'done');
+        return;
+      }
+      step.error = result.output;
+      if (step.attempts > options.retries || options.signal.aborted) {
+        setStatus(step, 'failed');
+        return;
+      }
+    }
+  };
+
+  const running = new Map<string, Promise<void>>();
+  for (;;) {
+    // Steps after a failed or skipped one can never start.
+    let skipped = true;
+    while (skipped) {
+      skipped = false;
+      for (const step of plan.steps) {
+        if (step.status === 'pending' && step.dependsOn.some(id => ['failed', 'skipped'].includes(stepsById.get(id)!.status))) {
+          setStatus(step, 'skipped');
+          skipped = true;
+        }
+      }
+    }
+    if (!options.signal.aborted) {
+      for (const step of plan.steps) {
+        if (step.status === 'pending' && step.dependsOn.every(id => stepsById.get(id)!.status === 'done')) {
+          running.set(step.id, carryOut(step).finally(() => running.delete(step.id)));
+        }
+      }
+    }
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+  for (const step of plan.steps) {
+    if (step.status === 'pending') setStatus(step, 'skipped');
+  }
+}